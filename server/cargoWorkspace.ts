@@ -0,0 +1,210 @@
+'use strict';
+
+import { Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import path = require('path');
+import fs = require('fs');
+import URI from './utils/uri';
+import { convertSimple2RegExpPattern } from './utils/strings';
+import { TOMLDocument } from './parser/tomlParser';
+import { TOMLPath, getValueAtPath } from './services/tomlSchema';
+import { getSegmentAt, getSegmentPath, getSegmentLocation, findKeySegments, isSamePath } from './services/tomlReferences';
+
+/*
+ * The members of a Cargo workspace inherit keys of the workspace manifest with
+ * `workspace = true`: `foo = { workspace = true }` in `[dependencies]` refers to `foo` in
+ * `[workspace.dependencies]`, `version.workspace = true` in `[package]` to `version` in
+ * `[workspace.package]` and `[lints] workspace = true` to `[workspace.lints]`.
+ */
+
+export interface Manifest {
+	document: TextDocument;
+	tomlDocument: TOMLDocument;
+}
+
+/**
+ * Returns the open document or the file of a manifest, `undefined` when it does not exist.
+ */
+export type ManifestLoader = (uri: string) => Thenable<Manifest>;
+
+const manifestName = 'Cargo.toml';
+const dependencyTables = ['dependencies', 'dev-dependencies', 'build-dependencies'];
+
+export function isCargoManifest(uri: string): boolean {
+	return path.basename(URI.parse(uri).fsPath) === manifestName;
+}
+
+function getManifestUri(directory: string): string {
+	return URI.file(path.join(directory, manifestName)).toString();
+}
+
+function isObject(value: any): boolean {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Returns the path in the workspace manifest of a key that a member can inherit.
+ */
+function getWorkspacePath(path: TOMLPath): TOMLPath {
+	if (path.length === 2 && path[0] === 'package') {
+		return ['workspace', 'package', path[1]];
+	}
+	if (path.length === 2 && dependencyTables.indexOf(<string>path[0]) !== -1 || path.length === 4 && path[0] === 'target' && dependencyTables.indexOf(<string>path[2]) !== -1) {
+		return ['workspace', 'dependencies', path[path.length - 1]];
+	}
+	if (path.length === 1 && path[0] === 'lints') {
+		return ['workspace', 'lints'];
+	}
+	return void 0;
+}
+
+function isWorkspacePath(path: TOMLPath): boolean {
+	return path[0] === 'workspace' && (path.length === 3 && (path[1] === 'package' || path[1] === 'dependencies') || path.length === 2 && path[1] === 'lints');
+}
+
+/**
+ * Returns the path in the workspace manifest of the key when the manifest inherits it.
+ */
+function getInheritedPath(tomlDocument: TOMLDocument, path: TOMLPath): TOMLPath {
+	let workspacePath = getWorkspacePath(path);
+	let value = workspacePath && getValueAtPath(tomlDocument.json, path);
+	return isObject(value) && value.workspace === true ? workspacePath : void 0;
+}
+
+/**
+ * The inherited key at the offset, the offset can be on the key itself or on its `workspace` key.
+ */
+function getInheritedPathAt(tomlDocument: TOMLDocument, offset: number): TOMLPath {
+	let segment = getSegmentAt(tomlDocument, offset);
+	let path = segment && getSegmentPath(tomlDocument, segment);
+	if (!path) {
+		return void 0;
+	}
+	return getInheritedPath(tomlDocument, path) || path[path.length - 1] === 'workspace' && getInheritedPath(tomlDocument, path.slice(0, -1));
+}
+
+function findInheritingSegments(manifest: Manifest, workspacePath: TOMLPath): Location[] {
+	let tomlDocument = manifest.tomlDocument;
+	let result: Location[] = [];
+	tomlDocument.visit(node => {
+		if (node.type === 'keySegment') {
+			let path = getSegmentPath(tomlDocument, node);
+			let inheritedPath = path && getInheritedPath(tomlDocument, path);
+			if (inheritedPath && isSamePath(inheritedPath, workspacePath)) {
+				result.push(getSegmentLocation(manifest.document, node));
+			}
+		}
+		return true;
+	});
+	return result;
+}
+
+function isWorkspaceRoot(manifest: Manifest): boolean {
+	return isObject(manifest.tomlDocument.json.workspace);
+}
+
+/**
+ * Returns the workspace manifest of a member: the manifest named by `package.workspace` or the
+ * first manifest with a `[workspace]` table in the parent directories.
+ */
+export function findWorkspaceRoot(manifest: Manifest, load: ManifestLoader): Thenable<Manifest> {
+	if (isWorkspaceRoot(manifest)) {
+		return Promise.resolve(manifest);
+	}
+	let directory = path.dirname(URI.parse(manifest.document.uri).fsPath);
+	let pkg = manifest.tomlDocument.json.package;
+	if (isObject(pkg) && typeof pkg.workspace === 'string') {
+		return load(getManifestUri(path.resolve(directory, pkg.workspace)));
+	}
+	let search = (directory: string): Thenable<Manifest> => {
+		let parent = path.dirname(directory);
+		if (parent === directory) {
+			return Promise.resolve(void 0);
+		}
+		return load(getManifestUri(parent)).then(candidate => candidate && isWorkspaceRoot(candidate) ? candidate : search(parent));
+	};
+	return search(directory);
+}
+
+/**
+ * Returns the directories that match a pattern of `workspace.members`, the `*` wildcard
+ * matches within a path segment.
+ */
+function expandMemberPattern(directory: string, pattern: string): Thenable<string[]> {
+	let segments = pattern.split(/[\\/]/).filter(segment => segment.length > 0 && segment !== '.');
+	let expand = (base: string, index: number): Thenable<string[]> => {
+		if (index === segments.length) {
+			return Promise.resolve([base]);
+		}
+		let segment = segments[index];
+		if (segment.indexOf('*') === -1) {
+			return expand(path.join(base, segment), index + 1);
+		}
+		let regexp = new RegExp('^' + convertSimple2RegExpPattern(segment) + '$');
+		return new Promise<string[]>(c => {
+			fs.readdir(base, { withFileTypes: true }, (err, entries) => {
+				c(err ? [] : entries.filter(entry => entry.isDirectory() && regexp.test(entry.name)).map(entry => path.join(base, entry.name)));
+			});
+		}).then(directories => Promise.all(directories.map(directory => expand(directory, index + 1)))).then(results => [].concat(...results));
+	};
+	return expand(directory, 0);
+}
+
+/**
+ * Returns the workspace manifest followed by the manifests of the members.
+ */
+export function findWorkspaceMembers(root: Manifest, load: ManifestLoader): Thenable<Manifest[]> {
+	let workspace = root.tomlDocument.json.workspace;
+	let directory = path.dirname(URI.parse(root.document.uri).fsPath);
+	let getPatterns = (value: any): string[] => Array.isArray(value) ? value.filter(pattern => typeof pattern === 'string') : [];
+	let excluded = getPatterns(workspace.exclude).map(pattern => path.resolve(directory, pattern));
+	return Promise.all(getPatterns(workspace.members).map(pattern => expandMemberPattern(directory, pattern))).then(results => {
+		let directories: string[] = [];
+		[].concat(...results).forEach((member: string) => {
+			if (member !== directory && directories.indexOf(member) === -1 && excluded.indexOf(member) === -1) {
+				directories.push(member);
+			}
+		});
+		return Promise.all(directories.map(member => load(getManifestUri(member))));
+	}).then(members => [root].concat(members.filter(member => !!member)));
+}
+
+/**
+ * Returns the definition in the workspace manifest of the key at the offset, when the manifest
+ * inherits the key with `workspace = true`.
+ */
+export function findWorkspaceDefinition(manifest: Manifest, offset: number, load: ManifestLoader): Thenable<Location> {
+	let workspacePath = getInheritedPathAt(manifest.tomlDocument, offset);
+	if (!workspacePath) {
+		return Promise.resolve(void 0);
+	}
+	return findWorkspaceRoot(manifest, load).then(root => {
+		let segment = root && findKeySegments(root.tomlDocument, workspacePath)[0];
+		return segment && getSegmentLocation(root.document, segment);
+	});
+}
+
+/**
+ * Returns the places of a key of `[workspace.package]`, `[workspace.dependencies]` or
+ * `[workspace.lints]` in the workspace manifest and the members that inherit it. The key at
+ * the offset is the workspace key or an inherited key. The first place is the definition.
+ */
+export function findWorkspaceReferences(manifest: Manifest, offset: number, load: ManifestLoader): Thenable<Location[]> {
+	let tomlDocument = manifest.tomlDocument;
+	let segment = getSegmentAt(tomlDocument, offset);
+	let path = segment && getSegmentPath(tomlDocument, segment);
+	let workspacePath = path && (isWorkspacePath(path) ? path : getInheritedPathAt(tomlDocument, offset));
+	if (!workspacePath) {
+		return Promise.resolve([]);
+	}
+	return findWorkspaceRoot(manifest, load).then(root => {
+		if (!root) {
+			return [];
+		}
+		return findWorkspaceMembers(root, load).then(members => {
+			let locations = findKeySegments(root.tomlDocument, workspacePath).map(segment => getSegmentLocation(root.document, segment));
+			members.forEach(member => locations.push(...findInheritingSegments(member, workspacePath)));
+			return locations;
+		});
+	});
+}
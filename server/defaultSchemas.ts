@@ -0,0 +1,40 @@
+'use strict';
+
+import path = require('path');
+import URI from './utils/uri';
+import { SchemaConfiguration } from 'vscode-json-languageservice';
+
+/**
+ * A schema of the `schema` folder and the files it is associated with by default.
+ */
+interface DefaultSchemaAssociation {
+	fileName: string;
+	fileMatch: string[];
+}
+
+const defaultSchemaAssociations: DefaultSchemaAssociation[] = [
+	{ fileName: 'cargo.json', fileMatch: ['Cargo.toml'] },
+	{ fileName: 'cargo-config.json', fileMatch: ['.cargo/config.toml'] },
+	{ fileName: 'rustfmt.json', fileMatch: ['rustfmt.toml', '.rustfmt.toml'] },
+	{ fileName: 'pyproject.json', fileMatch: ['pyproject.toml'] },
+	{ fileName: 'pipfile.json', fileMatch: ['Pipfile'] },
+	{ fileName: 'netlify.json', fileMatch: ['netlify.toml'] },
+	// a plain `config.toml` is too common to be taken for a Hugo configuration
+	{ fileName: 'hugo.json', fileMatch: ['hugo.toml', 'config/*/hugo.toml', 'config/*/config.toml'] },
+	{ fileName: 'toml-tools.json', fileMatch: ['.toml-tools.toml'] }
+];
+
+const schemaFolder = path.join(__dirname, '..', '..', 'schema');
+
+/**
+ * Returns the schemas that are associated with well-known TOML files. The defaults rank
+ * below the `toml.schemas` setting: a file matched by one of the given user patterns is
+ * excluded from the defaults, so that the user's schema is not combined with a default one.
+ */
+export function getDefaultSchemas(userFileMatch: string[]): SchemaConfiguration[] {
+	let exclusions = userFileMatch.filter(pattern => pattern[0] !== '!').map(pattern => '!' + pattern);
+	return defaultSchemaAssociations.map(association => ({
+		uri: URI.file(path.join(schemaFolder, association.fileName)).toString(),
+		fileMatch: association.fileMatch.concat(exclusions)
+	}));
+}
@@ -0,0 +1,343 @@
+'use strict';
+
+import {
+	ASTNode, ObjectASTNode, PropertyASTNode, ArrayASTNode,
+	StringASTNode, NumberASTNode, BooleanASTNode, NullASTNode
+} from 'vscode-json-languageservice';
+import {
+	TOMLNode, DocumentNode, TableNode, ArrayOfTablesNode, KeyValueNode, KeySegmentNode, ValueNode
+} from './tomlNodes';
+import { SyntaxKind } from './tomlScanner';
+import { ParseError, ParseErrorCode } from './tomlParser';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+/*
+ * The TOML document is mapped onto the JSON AST of `vscode-json-languageservice`, but
+ * the offsets of all nodes point into the TOML text. That way the schema validation
+ * of the JSON language service reports its problems at the TOML keys and values.
+ */
+
+export abstract class ASTNodeImpl {
+
+	public abstract readonly type: 'object' | 'property' | 'array' | 'number' | 'boolean' | 'null' | 'string';
+
+	public offset: number;
+	public length: number;
+	public readonly parent: ASTNode;
+
+	constructor(parent: ASTNode, offset: number, length: number = 0) {
+		this.offset = offset;
+		this.length = length;
+		this.parent = parent;
+	}
+
+	public get children(): ASTNode[] {
+		return [];
+	}
+}
+
+export class NullASTNodeImpl extends ASTNodeImpl implements NullASTNode {
+	public type: 'null' = 'null';
+	public value: null = null;
+}
+
+export class BooleanASTNodeImpl extends ASTNodeImpl implements BooleanASTNode {
+	public type: 'boolean' = 'boolean';
+	public value: boolean;
+}
+
+export class NumberASTNodeImpl extends ASTNodeImpl implements NumberASTNode {
+	public type: 'number' = 'number';
+	public isInteger: boolean = true;
+	public value: number = Number.NaN;
+}
+
+export class StringASTNodeImpl extends ASTNodeImpl implements StringASTNode {
+	public type: 'string' = 'string';
+	public value: string = '';
+}
+
+export class ArrayASTNodeImpl extends ASTNodeImpl implements ArrayASTNode {
+	public type: 'array' = 'array';
+	public items: ASTNode[] = [];
+
+	public get children(): ASTNode[] {
+		return this.items;
+	}
+}
+
+export class PropertyASTNodeImpl extends ASTNodeImpl implements PropertyASTNode {
+	public type: 'property' = 'property';
+	public keyNode: StringASTNodeImpl;
+	public valueNode: ASTNode;
+	public colonOffset: number = -1;
+
+	public get children(): ASTNode[] {
+		return this.valueNode ? [this.keyNode, this.valueNode] : [this.keyNode];
+	}
+}
+
+export class ObjectASTNodeImpl extends ASTNodeImpl implements ObjectASTNode {
+	public type: 'object' = 'object';
+	public properties: PropertyASTNodeImpl[] = [];
+
+	public get children(): ASTNode[] {
+		return this.properties;
+	}
+}
+
+export interface JSONMapping {
+	root: ObjectASTNode;
+	/**
+	 * Keys and tables that conflict with earlier definitions, they are not part of the JSON AST.
+	 */
+	errors: ParseError[];
+	/**
+	 * The JSON nodes of the tables, key/value pairs, key segments and values of the TOML document.
+	 * Tables and key segments map to the property they define or refer to.
+	 */
+	nodes: Map<TOMLNode, ASTNode>;
+}
+
+/**
+ * Returns the plain JavaScript value of a node. Dates and times are returned as their text.
+ */
+export function getNodeValue(node: ASTNode): any {
+	switch (node.type) {
+		case 'array':
+			return node.items.map(getNodeValue);
+		case 'object':
+			let obj = Object.create(null);
+			for (let property of node.properties) {
+				obj[property.keyNode.value] = getNodeValue(property.valueNode);
+			}
+			return obj;
+		case 'string':
+		case 'number':
+		case 'boolean':
+			return node.value;
+	}
+	return null;
+}
+
+/**
+ * Merges the tables, dotted keys and arrays of tables of a TOML document into a JSON AST.
+ */
+export function mapToJSON(document: DocumentNode): JSONMapping {
+
+	let root = new ObjectASTNodeImpl(void 0, document.offset, document.length);
+	let errors: ParseError[] = [];
+	let nodes = new Map<TOMLNode, ASTNode>();
+
+	// tables defined by a header, they can't be defined a second time
+	let headerTables: ObjectASTNodeImpl[] = [];
+	// inline tables and arrays are complete, they can't be extended by headers or dotted keys
+	let inlineValues: ASTNode[] = [];
+	// tables defined or extended by dotted keys, they can't be defined by a header
+	let dottedTables: ASTNode[] = [];
+
+	function error(code: ParseErrorCode, message: string, segment: KeySegmentNode): void {
+		let kind = segment.style === 'bare' ? SyntaxKind.BareKeyToken : segment.style === 'basic' ? SyntaxKind.BasicStringToken : SyntaxKind.LiteralStringToken;
+		errors.push({ code, message, token: { kind, offset: segment.offset, length: segment.length }, resyncedTokens: [] });
+	}
+
+	function extend(node: ASTNodeImpl, end: number): void {
+		while (node) {
+			if (node.offset + node.length < end) {
+				node.length = end - node.offset;
+			}
+			// the parents are ASTNodeImpls as well, up to the root
+			let parent = node.parent;
+			node = parent instanceof ASTNodeImpl ? parent : void 0;
+		}
+	}
+
+	function findProperty(table: ObjectASTNodeImpl, key: string): PropertyASTNodeImpl {
+		for (let property of table.properties) {
+			if (property.keyNode.value === key) {
+				return property;
+			}
+		}
+		return void 0;
+	}
+
+	function addProperty(table: ObjectASTNodeImpl, segment: KeySegmentNode): PropertyASTNodeImpl {
+		let property = new PropertyASTNodeImpl(table, segment.offset, segment.length);
+		property.keyNode = new StringASTNodeImpl(property, segment.offset, segment.length);
+		property.keyNode.value = segment.value;
+		table.properties.push(property);
+		return property;
+	}
+
+	// returns the table a key segment refers to, defining it implicitly if needed
+	function getTable(table: ObjectASTNodeImpl, segment: KeySegmentNode): ObjectASTNodeImpl {
+		let property = findProperty(table, segment.value);
+		if (!property) {
+			property = addProperty(table, segment);
+			property.valueNode = new ObjectASTNodeImpl(property, segment.offset, segment.length);
+		}
+		nodes.set(segment, property);
+		let valueNode = property.valueNode;
+		if (inlineValues.indexOf(valueNode) === -1) {
+			if (valueNode instanceof ObjectASTNodeImpl) {
+				return valueNode;
+			}
+			if (valueNode instanceof ArrayASTNodeImpl) {
+				return <ObjectASTNodeImpl>valueNode.items[valueNode.items.length - 1];
+			}
+		}
+		error(ParseErrorCode.KeyConflict, localize('error.keyConflict', 'Key "{0}" is already defined as a value and can not be extended', segment.value), segment);
+		return void 0;
+	}
+
+	function mapTable(node: TableNode | ArrayOfTablesNode): ObjectASTNodeImpl {
+		let segments = node.key.segments;
+		let table = root;
+		for (let i = 0; i < segments.length - 1 && table; i++) {
+			table = getTable(table, segments[i]);
+		}
+		if (!table) {
+			return void 0;
+		}
+		let start = node.offset;
+		let end = node.offset + node.headerLength;
+		let last = segments[segments.length - 1];
+		let name = segments.map(segment => segment.value).join('.');
+		let property = findProperty(table, last.value);
+		let result: ObjectASTNodeImpl;
+		if (node.type === 'arrayOfTables') {
+			if (!property) {
+				property = addProperty(table, last);
+				property.valueNode = new ArrayASTNodeImpl(property, start, end - start);
+			}
+			nodes.set(last, property);
+			let array = property.valueNode;
+			if (!(array instanceof ArrayASTNodeImpl) || inlineValues.indexOf(array) !== -1) {
+				error(ParseErrorCode.KeyConflict, localize('error.keyConflict', 'Key "{0}" is already defined as a value and can not be extended', name), last);
+				return void 0;
+			}
+			result = new ObjectASTNodeImpl(array, start, end - start);
+			array.items.push(result);
+		} else {
+			if (!property) {
+				property = addProperty(table, last);
+				property.valueNode = new ObjectASTNodeImpl(property, start, end - start);
+			}
+			nodes.set(last, property);
+			let valueNode = property.valueNode;
+			if (!(valueNode instanceof ObjectASTNodeImpl) || inlineValues.indexOf(valueNode) !== -1) {
+				error(ParseErrorCode.KeyConflict, localize('error.keyConflict', 'Key "{0}" is already defined as a value and can not be extended', name), last);
+				return void 0;
+			}
+			if (headerTables.indexOf(valueNode) !== -1) {
+				error(ParseErrorCode.DuplicateTable, localize('error.duplicateTable', 'Table "{0}" is already defined', name), last);
+				return void 0;
+			}
+			if (dottedTables.indexOf(valueNode) !== -1) {
+				// reported by a lint rule, the table is still merged
+				error(ParseErrorCode.DottedTableRedefinition, localize('error.tableDefinedByDottedKeys', 'Table "{0}" is already defined by dotted keys', name), last);
+			}
+			result = valueNode;
+		}
+		headerTables.push(result);
+		nodes.set(node, result);
+		extend(result, end);
+		return result;
+	}
+
+	function mapKeyValue(table: ObjectASTNodeImpl, node: KeyValueNode): void {
+		let segments = node.key.segments;
+		for (let i = 0; i < segments.length - 1 && table; i++) {
+			table = getTable(table, segments[i]);
+			if (table && headerTables.indexOf(table) !== -1) {
+				// reported by a lint rule, the key is still added
+				let name = segments.slice(0, i + 1).map(segment => segment.value).join('.');
+				error(ParseErrorCode.DottedTableRedefinition, localize('error.tableDefinedByHeader', 'Table "{0}" is already defined by a table header and can not be extended with dotted keys', name), segments[i]);
+			}
+			if (table && dottedTables.indexOf(table) === -1) {
+				dottedTables.push(table);
+			}
+		}
+		let last = segments[segments.length - 1];
+		if (table && findProperty(table, last.value)) {
+			error(ParseErrorCode.DuplicateKey, localize('error.duplicateKey', 'Duplicate key "{0}"', last.value), last);
+			return;
+		}
+		if (!table) {
+			return;
+		}
+		let property = addProperty(table, last);
+		property.colonOffset = node.equalsOffset;
+		property.valueNode = mapValue(property, node.value);
+		nodes.set(node, property);
+		nodes.set(last, property);
+		extend(property, node.offset + node.length);
+	}
+
+	function mapValue(parent: ASTNode, node: ValueNode): ASTNode {
+		let result: ASTNode;
+		switch (node.type) {
+			case 'string':
+			case 'dateTime': {
+				let value = new StringASTNodeImpl(parent, node.offset, node.length);
+				value.value = node.value;
+				result = value;
+				break;
+			}
+			case 'integer':
+			case 'float': {
+				let value = new NumberASTNodeImpl(parent, node.offset, node.length);
+				value.value = node.value;
+				value.isInteger = node.type === 'integer';
+				result = value;
+				break;
+			}
+			case 'boolean': {
+				let value = new BooleanASTNodeImpl(parent, node.offset, node.length);
+				value.value = node.value;
+				result = value;
+				break;
+			}
+			case 'array': {
+				let array = new ArrayASTNodeImpl(parent, node.offset, node.length);
+				for (let item of node.items) {
+					array.items.push(mapValue(array, item));
+				}
+				inlineValues.push(array);
+				result = array;
+				break;
+			}
+			case 'inlineTable': {
+				let table = new ObjectASTNodeImpl(parent, node.offset, node.length);
+				for (let entry of node.entries) {
+					mapKeyValue(table, entry);
+				}
+				inlineValues.push(table);
+				result = table;
+				break;
+			}
+		}
+		nodes.set(node, result);
+		return result;
+	}
+
+	for (let entry of document.body) {
+		if (entry.type === 'keyValue') {
+			mapKeyValue(root, entry);
+		}
+	}
+	for (let tableNode of document.tables) {
+		let table = mapTable(tableNode);
+		if (table) {
+			for (let entry of tableNode.body) {
+				if (entry.type === 'keyValue') {
+					mapKeyValue(table, entry);
+				}
+			}
+			extend(table, tableNode.offset + tableNode.length);
+		}
+	}
+	return { root, errors, nodes };
+}
@@ -0,0 +1,258 @@
+'use strict';
+
+/*
+ * The concrete syntax tree of a TOML document. Every node knows its position in the
+ * TOML text, the tree keeps the document order of the entries including the comments.
+ */
+
+export type TOMLNode = DocumentNode | TableNode | ArrayOfTablesNode | KeyValueNode | KeyNode | KeySegmentNode | ValueNode | CommentNode;
+
+export type ValueNode = StringNode | IntegerNode | FloatNode | BooleanNode | DateTimeNode | ArrayNode | InlineTableNode;
+
+export type EntryNode = KeyValueNode | CommentNode;
+
+export type KeySegmentStyle = 'bare' | 'basic' | 'literal';
+
+export type StringStyle = 'basic' | 'literal' | 'multilineBasic' | 'multilineLiteral';
+
+export type DateTimeKind = 'offsetDateTime' | 'localDateTime' | 'localDate' | 'localTime';
+
+export interface BaseTOMLNode {
+	readonly type: 'document' | 'table' | 'arrayOfTables' | 'keyValue' | 'key' | 'keySegment' | 'string' | 'integer' | 'float' | 'boolean' | 'dateTime' | 'array' | 'inlineTable' | 'comment';
+	readonly parent?: TOMLNode;
+	readonly offset: number;
+	readonly length: number;
+	readonly children: TOMLNode[];
+}
+
+export interface DocumentNode extends BaseTOMLNode {
+	readonly type: 'document';
+	/**
+	 * The key/value pairs and comments before the first table header.
+	 */
+	readonly body: EntryNode[];
+	readonly tables: (TableNode | ArrayOfTablesNode)[];
+}
+
+export interface TableNode extends BaseTOMLNode {
+	readonly type: 'table';
+	readonly key: KeyNode;
+	/**
+	 * The length of the `[table]` header, the node itself also spans the body.
+	 */
+	readonly headerLength: number;
+	readonly body: EntryNode[];
+}
+
+export interface ArrayOfTablesNode extends BaseTOMLNode {
+	readonly type: 'arrayOfTables';
+	readonly key: KeyNode;
+	/**
+	 * The length of the `[[array.of.tables]]` header, the node itself also spans the body.
+	 */
+	readonly headerLength: number;
+	readonly body: EntryNode[];
+}
+
+export interface KeyValueNode extends BaseTOMLNode {
+	readonly type: 'keyValue';
+	readonly key: KeyNode;
+	readonly value: ValueNode;
+	readonly equalsOffset: number;
+}
+
+export interface KeyNode extends BaseTOMLNode {
+	readonly type: 'key';
+	/**
+	 * The segments of a dotted key, a simple key has one segment.
+	 */
+	readonly segments: KeySegmentNode[];
+}
+
+export interface KeySegmentNode extends BaseTOMLNode {
+	readonly type: 'keySegment';
+	readonly value: string;
+	readonly style: KeySegmentStyle;
+}
+
+export interface StringNode extends BaseTOMLNode {
+	readonly type: 'string';
+	readonly value: string;
+	readonly style: StringStyle;
+}
+
+export interface IntegerNode extends BaseTOMLNode {
+	readonly type: 'integer';
+	readonly value: number;
+}
+
+export interface FloatNode extends BaseTOMLNode {
+	readonly type: 'float';
+	readonly value: number;
+}
+
+export interface BooleanNode extends BaseTOMLNode {
+	readonly type: 'boolean';
+	readonly value: boolean;
+}
+
+export interface DateTimeNode extends BaseTOMLNode {
+	readonly type: 'dateTime';
+	readonly kind: DateTimeKind;
+	/**
+	 * The date and time as written in the document.
+	 */
+	readonly value: string;
+}
+
+export interface ArrayNode extends BaseTOMLNode {
+	readonly type: 'array';
+	readonly items: ValueNode[];
+}
+
+export interface InlineTableNode extends BaseTOMLNode {
+	readonly type: 'inlineTable';
+	readonly entries: KeyValueNode[];
+}
+
+export interface CommentNode extends BaseTOMLNode {
+	readonly type: 'comment';
+	/**
+	 * The comment text without the leading `#`.
+	 */
+	readonly value: string;
+}
+
+export abstract class TOMLNodeImpl {
+
+	public abstract readonly type: 'document' | 'table' | 'arrayOfTables' | 'keyValue' | 'key' | 'keySegment' | 'string' | 'integer' | 'float' | 'boolean' | 'dateTime' | 'array' | 'inlineTable' | 'comment';
+
+	public offset: number;
+	public length: number;
+	public parent: TOMLNode;
+
+	constructor(parent: TOMLNode, offset: number, length: number = 0) {
+		this.offset = offset;
+		this.length = length;
+		this.parent = parent;
+	}
+
+	public get children(): TOMLNode[] {
+		return [];
+	}
+}
+
+export class DocumentNodeImpl extends TOMLNodeImpl implements DocumentNode {
+	public type: 'document' = 'document';
+	public body: EntryNode[] = [];
+	public tables: (TableNode | ArrayOfTablesNode)[] = [];
+
+	public get children(): TOMLNode[] {
+		return (<TOMLNode[]>this.body).concat(this.tables);
+	}
+}
+
+export class TableNodeImpl extends TOMLNodeImpl implements TableNode {
+	public type: 'table' = 'table';
+	public key: KeyNode;
+	public headerLength: number = 0;
+	public body: EntryNode[] = [];
+
+	public get children(): TOMLNode[] {
+		return (<TOMLNode[]>[this.key]).concat(this.body);
+	}
+}
+
+export class ArrayOfTablesNodeImpl extends TOMLNodeImpl implements ArrayOfTablesNode {
+	public type: 'arrayOfTables' = 'arrayOfTables';
+	public key: KeyNode;
+	public headerLength: number = 0;
+	public body: EntryNode[] = [];
+
+	public get children(): TOMLNode[] {
+		return (<TOMLNode[]>[this.key]).concat(this.body);
+	}
+}
+
+export class KeyValueNodeImpl extends TOMLNodeImpl implements KeyValueNode {
+	public type: 'keyValue' = 'keyValue';
+	public key: KeyNode;
+	public value: ValueNode;
+	public equalsOffset: number = -1;
+
+	public get children(): TOMLNode[] {
+		return this.value ? [this.key, this.value] : [this.key];
+	}
+}
+
+export class KeyNodeImpl extends TOMLNodeImpl implements KeyNode {
+	public type: 'key' = 'key';
+	public segments: KeySegmentNode[] = [];
+
+	public get children(): TOMLNode[] {
+		return this.segments;
+	}
+}
+
+export class KeySegmentNodeImpl extends TOMLNodeImpl implements KeySegmentNode {
+	public type: 'keySegment' = 'keySegment';
+	public value: string = '';
+	public style: KeySegmentStyle = 'bare';
+}
+
+export class StringNodeImpl extends TOMLNodeImpl implements StringNode {
+	public type: 'string' = 'string';
+	public value: string = '';
+	public style: StringStyle = 'basic';
+}
+
+export class IntegerNodeImpl extends TOMLNodeImpl implements IntegerNode {
+	public type: 'integer' = 'integer';
+	public value: number = 0;
+}
+
+export class FloatNodeImpl extends TOMLNodeImpl implements FloatNode {
+	public type: 'float' = 'float';
+	public value: number = 0;
+}
+
+export class BooleanNodeImpl extends TOMLNodeImpl implements BooleanNode {
+	public type: 'boolean' = 'boolean';
+	public value: boolean = false;
+}
+
+export class DateTimeNodeImpl extends TOMLNodeImpl implements DateTimeNode {
+	public type: 'dateTime' = 'dateTime';
+	public kind: DateTimeKind;
+	public value: string = '';
+}
+
+export class ArrayNodeImpl extends TOMLNodeImpl implements ArrayNode {
+	public type: 'array' = 'array';
+	public items: ValueNode[] = [];
+
+	public get children(): TOMLNode[] {
+		return this.items;
+	}
+}
+
+export class InlineTableNodeImpl extends TOMLNodeImpl implements InlineTableNode {
+	public type: 'inlineTable' = 'inlineTable';
+	public entries: KeyValueNode[] = [];
+
+	public get children(): TOMLNode[] {
+		return this.entries;
+	}
+}
+
+export class CommentNodeImpl extends TOMLNodeImpl implements CommentNode {
+	public type: 'comment' = 'comment';
+	public value: string = '';
+}
+
+/**
+ * Returns whether the offset is inside of the node. The end of the node is included if requested.
+ */
+export function contains(node: TOMLNode, offset: number, includeRightBound: boolean = false): boolean {
+	return offset >= node.offset && offset < (node.offset + node.length) || includeRightBound && offset === (node.offset + node.length);
+}
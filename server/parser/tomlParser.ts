@@ -0,0 +1,629 @@
+'use strict';
+
+import { createScanner, SyntaxKind, ScanError } from './tomlScanner';
+import {
+	TOMLNode, DocumentNode, TableNode, ArrayOfTablesNode, KeyNode, KeyValueNode, ValueNode, CommentNode, EntryNode,
+	TOMLNodeImpl, DocumentNodeImpl, TableNodeImpl, ArrayOfTablesNodeImpl, KeyValueNodeImpl, KeyNodeImpl, KeySegmentNodeImpl,
+	StringNodeImpl, IntegerNodeImpl, FloatNodeImpl, BooleanNodeImpl, DateTimeNodeImpl, ArrayNodeImpl, InlineTableNodeImpl,
+	CommentNodeImpl, StringStyle, DateTimeKind, contains
+} from './tomlNodes';
+import { ASTNode, ObjectASTNode } from 'vscode-json-languageservice';
+import { JSONMapping, mapToJSON, getNodeValue } from './jsonMapping';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+export type LiteralType = 'integer' | 'float' | 'boolean' | DateTimeKind;
+
+export interface LiteralValue {
+	type: LiteralType;
+	value: number | boolean | string;
+}
+
+const decimalInteger = /^[+-]?(0|[1-9](_?[0-9])*)$/;
+const hexInteger = /^0x[0-9A-Fa-f](_?[0-9A-Fa-f])*$/;
+const octalInteger = /^0o[0-7](_?[0-7])*$/;
+const binaryInteger = /^0b[01](_?[01])*$/;
+const float = /^[+-]?(0|[1-9](_?[0-9])*)(\.[0-9](_?[0-9])*)?([eE][+-]?[0-9](_?[0-9])*)?$/;
+const specialFloat = /^[+-]?(inf|nan)$/;
+const offsetDateTime = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+const localDateTime = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?$/;
+const localDate = /^\d{4}-\d{2}-\d{2}$/;
+const localTime = /^\d{2}:\d{2}:\d{2}(\.\d+)?$/;
+
+// the largest 64 bit integers, without leading zeros
+const maxDecimal = '9223372036854775807';
+const minDecimal = '9223372036854775808';
+const maxHex = '7fffffffffffffff';
+const maxOctal = '777777777777777777777';
+const maxBinary = '1'.repeat(63);
+
+/**
+ * Returns whether the digits are within a 64 bit integer, the digits are compared as text
+ * because they may not fit into a number.
+ */
+function isInt64(digits: string, max: string): boolean {
+	digits = digits.replace(/^0+/, '').toLowerCase();
+	return digits.length < max.length || digits.length === max.length && digits <= max;
+}
+
+function isLeapYear(year: number): boolean {
+	return year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+}
+
+/**
+ * Returns whether the day exists in the month and the time and the offset are within the day.
+ * Up to 60 seconds are allowed for leap seconds.
+ */
+function isValidDateTime(image: string): boolean {
+	let date = /^(\d{4})-(\d{2})-(\d{2})/.exec(image);
+	if (date) {
+		let year = +date[1], month = +date[2], day = +date[3];
+		let days = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+		if (month < 1 || month > 12 || day < 1 || day > days[month - 1]) {
+			return false;
+		}
+	}
+	let time = /(\d{2}):(\d{2}):(\d{2})/.exec(image);
+	if (time && (+time[1] > 23 || +time[2] > 59 || +time[3] > 60)) {
+		return false;
+	}
+	let offset = /[+-](\d{2}):(\d{2})$/.exec(image);
+	return !offset || +offset[1] <= 23 && +offset[2] <= 59;
+}
+
+/**
+ * Interprets the image of a bare value (everything that is not a string, an array or an inline table).
+ * Returns `null` when the image is not a valid TOML value.
+ */
+export function parseLiteral(image: string): LiteralValue | null {
+	if (image === 'true' || image === 'false') {
+		return { type: 'boolean', value: image === 'true' };
+	}
+	let digits = image.replace(/_/g, '');
+	if (decimalInteger.test(image)) {
+		return isInt64(digits.replace(/^[+-]/, ''), digits.charAt(0) === '-' ? minDecimal : maxDecimal) ? { type: 'integer', value: parseInt(digits, 10) } : null;
+	}
+	if (hexInteger.test(image)) {
+		return isInt64(digits.substr(2), maxHex) ? { type: 'integer', value: parseInt(digits.substr(2), 16) } : null;
+	}
+	if (octalInteger.test(image)) {
+		return isInt64(digits.substr(2), maxOctal) ? { type: 'integer', value: parseInt(digits.substr(2), 8) } : null;
+	}
+	if (binaryInteger.test(image)) {
+		return isInt64(digits.substr(2), maxBinary) ? { type: 'integer', value: parseInt(digits.substr(2), 2) } : null;
+	}
+	if (float.test(image)) {
+		return { type: 'float', value: parseFloat(digits) };
+	}
+	if (specialFloat.test(image)) {
+		let sign = image.charAt(0) === '-' ? -1 : 1;
+		return { type: 'float', value: image.substr(-3) === 'nan' ? Number.NaN : sign * Number.POSITIVE_INFINITY };
+	}
+	if (!isValidDateTime(image)) {
+		return null;
+	}
+	if (offsetDateTime.test(image)) {
+		return { type: 'offsetDateTime', value: image };
+	}
+	if (localDateTime.test(image)) {
+		return { type: 'localDateTime', value: image };
+	}
+	if (localDate.test(image)) {
+		return { type: 'localDate', value: image };
+	}
+	if (localTime.test(image)) {
+		return { type: 'localTime', value: image };
+	}
+	return null;
+}
+
+const stringStyles: { [kind: number]: StringStyle } = {
+	[SyntaxKind.BasicStringToken]: 'basic',
+	[SyntaxKind.LiteralStringToken]: 'literal',
+	[SyntaxKind.MultilineBasicStringToken]: 'multilineBasic',
+	[SyntaxKind.MultilineLiteralStringToken]: 'multilineLiteral'
+};
+
+export const enum ParseErrorCode {
+	InvalidSymbol = 1,
+	InvalidEscapeCharacter = 2,
+	InvalidUnicode = 3,
+	UnexpectedEndOfString = 4,
+	KeyExpected = 5,
+	EqualsExpected = 6,
+	ValueExpected = 7,
+	InvalidValue = 8,
+	CommaOrCloseBracketExpected = 9,
+	CommaOrCloseBraceExpected = 10,
+	CloseBracketExpected = 11,
+	EndOfLineExpected = 12,
+	DuplicateKey = 13,
+	DuplicateTable = 14,
+	KeyConflict = 15,
+	InvalidControlCharacter = 16,
+	DottedTableRedefinition = 17,
+	UnsupportedSyntax = 18
+}
+
+export interface TOMLToken {
+	kind: SyntaxKind;
+	offset: number;
+	length: number;
+}
+
+export interface ParseError {
+	code: ParseErrorCode;
+	message: string;
+	/**
+	 * The token which caused the error.
+	 */
+	token: TOMLToken;
+	/**
+	 * Tokens which have been skipped while resynchronising after the error. Together with
+	 * the token they cover the text area of the entry that could not be parsed.
+	 */
+	resyncedTokens: TOMLToken[];
+}
+
+function isWhiteSpace(ch: string): boolean {
+	return ch === ' ' || ch === '\t';
+}
+
+/**
+ * A parsed TOML document: the syntax tree, the syntax errors and the JSON view of the document.
+ */
+export class TOMLDocument {
+
+	private mapping: JSONMapping;
+
+	constructor(public readonly root: DocumentNode, public readonly syntaxErrors: ParseError[], public readonly comments: CommentNode[]) {
+	}
+
+	private getMapping(): JSONMapping {
+		if (!this.mapping) {
+			this.mapping = mapToJSON(this.root);
+		}
+		return this.mapping;
+	}
+
+	/**
+	 * The syntax errors and the errors of keys and tables that conflict with earlier definitions.
+	 */
+	public get errors(): ParseError[] {
+		return this.syntaxErrors.concat(this.getMapping().errors).sort((a, b) => a.token.offset - b.token.offset);
+	}
+
+	/**
+	 * The JSON AST of the document, its node offsets point into the TOML text.
+	 */
+	public get jsonRoot(): ObjectASTNode {
+		return this.getMapping().root;
+	}
+
+	/**
+	 * The plain JavaScript value of the document. Valid entries of a broken document are included.
+	 */
+	public get json(): any {
+		return getNodeValue(this.jsonRoot);
+	}
+
+	/**
+	 * Returns the JSON node of a table, key/value pair, key segment or value.
+	 */
+	public getJSONNode(node: TOMLNode): ASTNode {
+		return this.getMapping().nodes.get(node);
+	}
+
+	public getNodeFromOffset(offset: number, includeRightBound: boolean = false): TOMLNode {
+		let findNode = (node: TOMLNode): TOMLNode => {
+			if (contains(node, offset, includeRightBound)) {
+				let children = node.children;
+				for (let i = 0; i < children.length && children[i].offset <= offset; i++) {
+					let item = findNode(children[i]);
+					if (item) {
+						return item;
+					}
+				}
+				return node;
+			}
+			return null;
+		};
+		return findNode(this.root);
+	}
+
+	public visit(visitor: (node: TOMLNode) => boolean): void {
+		let doVisit = (node: TOMLNode): boolean => {
+			let ctn = visitor(node);
+			let children = node.children;
+			for (let i = 0; i < children.length && ctn; i++) {
+				ctn = doVisit(children[i]);
+			}
+			return ctn;
+		};
+		doVisit(this.root);
+	}
+}
+
+/**
+ * Parses the given TOML text into a syntax tree.
+ *
+ * After a syntax error the parser resynchronises at the next line, or, inside of an unclosed
+ * multi-line array, at the next line that starts a key/value pair or a table header. The
+ * entries parsed so far are kept, so the result also describes broken documents.
+ */
+export function parse(text: string): TOMLDocument {
+
+	let scanner = createScanner(text);
+	let document = new DocumentNodeImpl(void 0, 0, text.length);
+	let comments: CommentNodeImpl[] = [];
+	let errors: ParseError[] = [];
+
+	// the document or the table the next key/value pair belongs to
+	let container: DocumentNodeImpl | TableNodeImpl | ArrayOfTablesNodeImpl = document;
+	// the number of open arrays of the entry that is being parsed
+	let depth = 0;
+
+	function scanNext(): SyntaxKind {
+		let token = scanner.scan();
+		while (token === SyntaxKind.CommentToken) {
+			addComment();
+			token = scanner.scan();
+		}
+		return token;
+	}
+
+	function scanValueNext(): SyntaxKind {
+		let token = scanner.scanValue();
+		while (token === SyntaxKind.CommentToken) {
+			addComment();
+			token = scanner.scanValue();
+		}
+		return token;
+	}
+
+	function addComment(): void {
+		let comment = new CommentNodeImpl(document, scanner.getTokenOffset(), scanner.getTokenLength());
+		comment.value = scanner.getTokenValue();
+		comments.push(comment);
+		checkScanError();
+	}
+
+	function skipLineBreaks(token: SyntaxKind, valueContext: boolean): SyntaxKind {
+		while (token === SyntaxKind.LineBreakToken) {
+			token = valueContext ? scanValueNext() : scanNext();
+		}
+		return token;
+	}
+
+	function currentToken(): TOMLToken {
+		let kind = scanner.getToken();
+		let length = kind === SyntaxKind.LineBreakToken ? 0 : scanner.getTokenLength();
+		return { kind, offset: scanner.getTokenOffset(), length };
+	}
+
+	function error(code: ParseErrorCode, message: string, token: TOMLToken = currentToken()): false {
+		errors.push({ code, message, token, resyncedTokens: [] });
+		return false;
+	}
+
+	function checkScanError(): void {
+		switch (scanner.getTokenError()) {
+			case ScanError.UnexpectedEndOfString:
+				error(ParseErrorCode.UnexpectedEndOfString, localize('error.unexpectedEndOfString', 'Unterminated string'));
+				break;
+			case ScanError.InvalidEscapeCharacter:
+				error(ParseErrorCode.InvalidEscapeCharacter, localize('error.invalidEscapeCharacter', 'Invalid escape character in string'));
+				break;
+			case ScanError.InvalidUnicode:
+				error(ParseErrorCode.InvalidUnicode, localize('error.invalidUnicode', 'Invalid unicode sequence in string'));
+				break;
+			case ScanError.InvalidControlCharacter:
+				error(ParseErrorCode.InvalidControlCharacter, localize('error.invalidControlCharacter', 'Control characters other than tab must be escaped'));
+				break;
+		}
+	}
+
+	// checks whether the line after the current position starts a key/value pair or a table header
+	function isEntryStart(): boolean {
+		let position = scanner.getPosition();
+		let token = scanner.scan();
+		let result = false;
+		if (token === SyntaxKind.OpenBracketToken) {
+			// only headers at the start of a line, indented brackets are more likely nested arrays
+			result = scanner.getTokenOffset() === position;
+		} else {
+			while (isKeyToken(token)) {
+				token = scanner.scan();
+				if (token === SyntaxKind.EqualsToken) {
+					result = true;
+				} else if (token === SyntaxKind.DotToken) {
+					token = scanner.scan();
+				}
+			}
+		}
+		scanner.setPosition(position);
+		return result;
+	}
+
+	// skips the rest of a broken entry, the skipped tokens are added to the last error
+	function resync(): void {
+		let skipped = errors[errors.length - 1].resyncedTokens;
+		let token = scanner.getToken();
+		if (depth > 0 && token !== SyntaxKind.LineBreakToken) {
+			// an unclosed array is often followed by the next entry, which then is the offending token
+			let lineStart = scanner.getTokenOffset();
+			while (lineStart > 0 && isWhiteSpace(text.charAt(lineStart - 1))) {
+				lineStart--;
+			}
+			if (lineStart === 0 || text.charAt(lineStart - 1) === '\n') {
+				let offset = scanner.getTokenOffset();
+				scanner.setPosition(lineStart);
+				if (isEntryStart()) {
+					return;
+				}
+				scanner.setPosition(offset);
+				token = scanNext();
+			}
+		}
+		while (token !== SyntaxKind.EOF) {
+			if (token === SyntaxKind.LineBreakToken) {
+				if (depth === 0 || isEntryStart()) {
+					return;
+				}
+			} else if (skipped.length > 0 || scanner.getTokenOffset() > errors[errors.length - 1].token.offset) {
+				skipped.push(currentToken());
+				if (token === SyntaxKind.OpenBracketToken) {
+					depth++;
+				} else if (token === SyntaxKind.CloseBracketToken && depth > 0) {
+					depth--;
+				}
+			}
+			token = scanNext();
+		}
+	}
+
+	function isKeyToken(token: SyntaxKind): boolean {
+		return token === SyntaxKind.BareKeyToken || token === SyntaxKind.BasicStringToken || token === SyntaxKind.LiteralStringToken;
+	}
+
+	function parseKey(parent: TOMLNode): KeyNode {
+		let key = new KeyNodeImpl(parent, scanner.getTokenOffset());
+		let token = scanner.getToken();
+		while (true) {
+			if (!isKeyToken(token)) {
+				if (token === SyntaxKind.Unknown) {
+					error(ParseErrorCode.InvalidSymbol, localize('error.invalidSymbol', 'Invalid character'));
+				} else {
+					error(ParseErrorCode.KeyExpected, localize('error.keyExpected', 'Key expected'));
+				}
+				return void 0;
+			}
+			checkScanError();
+			let segment = new KeySegmentNodeImpl(key, scanner.getTokenOffset(), scanner.getTokenLength());
+			segment.value = scanner.getTokenValue();
+			segment.style = token === SyntaxKind.BareKeyToken ? 'bare' : token === SyntaxKind.BasicStringToken ? 'basic' : 'literal';
+			key.segments.push(segment);
+			key.length = scanner.getPosition() - key.offset;
+			token = scanNext();
+			if (token !== SyntaxKind.DotToken) {
+				return key;
+			}
+			token = scanNext();
+		}
+	}
+
+	// parses `[table]` or `[[array.of.tables]]`, the scanner is on the first bracket and stays on the last one
+	function parseTableHeader(): boolean {
+		container = void 0;
+		let start = scanner.getTokenOffset();
+		let token = scanNext();
+		let isArrayOfTables = token === SyntaxKind.OpenBracketToken && scanner.getTokenOffset() === start + 1;
+		if (isArrayOfTables) {
+			scanNext();
+		}
+		let table = isArrayOfTables ? new ArrayOfTablesNodeImpl(document, start) : new TableNodeImpl(document, start);
+		let key = parseKey(table);
+		if (!key) {
+			return false;
+		}
+		// a table with a complete key is kept even if the header is not closed
+		table.key = key;
+		table.length = table.headerLength = key.offset + key.length - start;
+		document.tables.push(table);
+		container = table;
+
+		if (scanner.getToken() !== SyntaxKind.CloseBracketToken) {
+			return error(ParseErrorCode.CloseBracketExpected, isArrayOfTables
+				? localize('error.closeDoubleBracketExpected', 'Expected "]]" to close the array of tables header')
+				: localize('error.closeBracketExpected', 'Expected "]" to close the table header'));
+		}
+		let close = scanner.getTokenOffset();
+		if (isArrayOfTables && (scanNext() !== SyntaxKind.CloseBracketToken || scanner.getTokenOffset() !== close + 1)) {
+			return error(ParseErrorCode.CloseBracketExpected, localize('error.closeDoubleBracketExpected', 'Expected "]]" to close the array of tables header'));
+		}
+		table.length = table.headerLength = scanner.getPosition() - start;
+		return true;
+	}
+
+	function parseArray(parent: TOMLNode): ValueNode {
+		let node = new ArrayNodeImpl(parent, scanner.getTokenOffset());
+		depth++;
+		let token = skipLineBreaks(scanValueNext(), true);
+		while (token !== SyntaxKind.CloseBracketToken) {
+			let item = parseValue(node);
+			if (!item) {
+				return void 0;
+			}
+			node.items.push(item);
+			token = skipLineBreaks(scanNext(), false);
+			if (token === SyntaxKind.CommaToken) {
+				token = skipLineBreaks(scanValueNext(), true);
+			} else if (token !== SyntaxKind.CloseBracketToken) {
+				error(ParseErrorCode.CommaOrCloseBracketExpected, localize('error.commaOrCloseBracketExpected', 'Expected comma or closing bracket'));
+				return void 0;
+			}
+		}
+		depth--;
+		node.length = scanner.getPosition() - node.offset;
+		return node;
+	}
+
+	function parseInlineTable(parent: TOMLNode): ValueNode {
+		let node = new InlineTableNodeImpl(parent, scanner.getTokenOffset());
+		let token = scanNext();
+		while (token !== SyntaxKind.CloseBraceToken) {
+			let entry = parseKeyValue(node);
+			if (!entry) {
+				return void 0;
+			}
+			node.entries.push(entry);
+			token = scanNext();
+			if (token === SyntaxKind.CommaToken) {
+				token = scanNext();
+				// unlike arrays, inline tables don't allow a trailing comma
+				if (token === SyntaxKind.CloseBraceToken) {
+					error(ParseErrorCode.KeyExpected, localize('error.keyExpected', 'Key expected'));
+					return void 0;
+				}
+			} else if (token !== SyntaxKind.CloseBraceToken) {
+				error(ParseErrorCode.CommaOrCloseBraceExpected, localize('error.commaOrCloseBraceExpected', 'Expected comma or closing brace'));
+				return void 0;
+			}
+		}
+		node.length = scanner.getPosition() - node.offset;
+		return node;
+	}
+
+	function parseValue(parent: TOMLNode): ValueNode {
+		let offset = scanner.getTokenOffset();
+		let length = scanner.getTokenLength();
+		switch (scanner.getToken()) {
+			case SyntaxKind.BasicStringToken:
+			case SyntaxKind.LiteralStringToken:
+			case SyntaxKind.MultilineBasicStringToken:
+			case SyntaxKind.MultilineLiteralStringToken: {
+				checkScanError();
+				let node = new StringNodeImpl(parent, offset, length);
+				node.value = scanner.getTokenValue();
+				node.style = stringStyles[scanner.getToken()];
+				return node;
+			}
+			case SyntaxKind.OpenBracketToken:
+				return parseArray(parent);
+			case SyntaxKind.OpenBraceToken:
+				return parseInlineTable(parent);
+			case SyntaxKind.LiteralToken: {
+				let literal = parseLiteral(scanner.getTokenValue());
+				if (!literal) {
+					error(ParseErrorCode.InvalidValue, localize('error.invalidValue', 'Invalid value "{0}"', scanner.getTokenValue()));
+					return void 0;
+				}
+				switch (literal.type) {
+					case 'boolean': {
+						let node = new BooleanNodeImpl(parent, offset, length);
+						node.value = <boolean>literal.value;
+						return node;
+					}
+					case 'integer': {
+						let node = new IntegerNodeImpl(parent, offset, length);
+						node.value = <number>literal.value;
+						return node;
+					}
+					case 'float': {
+						let node = new FloatNodeImpl(parent, offset, length);
+						node.value = <number>literal.value;
+						return node;
+					}
+				}
+				let node = new DateTimeNodeImpl(parent, offset, length);
+				node.kind = literal.type;
+				node.value = <string>literal.value;
+				return node;
+			}
+			case SyntaxKind.Unknown:
+				error(ParseErrorCode.InvalidSymbol, localize('error.invalidSymbol', 'Invalid character'));
+				return void 0;
+		}
+		error(ParseErrorCode.ValueExpected, localize('error.valueExpected', 'Value expected'));
+		return void 0;
+	}
+
+	// parses `key = value`, the scanner is on the first key token and stays on the last token of the value
+	function parseKeyValue(parent: TOMLNode): KeyValueNode {
+		let node = new KeyValueNodeImpl(parent, scanner.getTokenOffset());
+		node.key = parseKey(node);
+		if (!node.key) {
+			return void 0;
+		}
+		if (scanner.getToken() !== SyntaxKind.EqualsToken) {
+			error(ParseErrorCode.EqualsExpected, localize('error.equalsExpected', 'Expected "=" after the key'));
+			return void 0;
+		}
+		node.equalsOffset = scanner.getTokenOffset();
+		scanValueNext();
+		node.value = parseValue(node);
+		if (!node.value) {
+			return void 0;
+		}
+		node.length = scanner.getPosition() - node.offset;
+		return node;
+	}
+
+	// comments between the entries become part of the body of the document or of the table they are in
+	function attachComments(): void {
+		let bodies: EntryNode[][] = [document.body];
+		let tableIndex = -1;
+		let owner: DocumentNodeImpl | TableNodeImpl | ArrayOfTablesNodeImpl = document;
+		for (let comment of comments) {
+			while (tableIndex + 1 < document.tables.length && document.tables[tableIndex + 1].offset <= comment.offset) {
+				owner = <TableNodeImpl | ArrayOfTablesNodeImpl>document.tables[++tableIndex];
+				bodies.push(owner.body);
+			}
+			if (owner.body.some(entry => contains(entry, comment.offset))) {
+				continue;
+			}
+			comment.parent = owner;
+			owner.body.push(comment);
+			if (owner !== document && comment.offset + comment.length > owner.offset + owner.length) {
+				owner.length = comment.offset + comment.length - owner.offset;
+			}
+		}
+		for (let body of bodies) {
+			body.sort((a, b) => a.offset - b.offset);
+		}
+	}
+
+	let token = scanNext();
+	while (token !== SyntaxKind.EOF) {
+		if (token !== SyntaxKind.LineBreakToken) {
+			depth = 0;
+			let success: boolean;
+			if (token === SyntaxKind.OpenBracketToken) {
+				success = parseTableHeader();
+			} else {
+				let entry = parseKeyValue(container || document);
+				// key/value pairs after a broken table header are parsed, but not added to any table
+				if (entry && container) {
+					container.body.push(entry);
+					if (container !== document) {
+						container.length = entry.offset + entry.length - container.offset;
+					}
+				}
+				success = !!entry;
+			}
+			if (success) {
+				token = scanNext();
+				if (token !== SyntaxKind.LineBreakToken && token !== SyntaxKind.EOF) {
+					success = error(ParseErrorCode.EndOfLineExpected, localize('error.endOfLineExpected', 'Expected a new line after the entry'));
+				}
+			}
+			if (!success) {
+				resync();
+			}
+		}
+		token = scanNext();
+	}
+	attachComments();
+	return new TOMLDocument(document, errors, comments);
+}
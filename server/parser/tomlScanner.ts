@@ -0,0 +1,360 @@
+'use strict';
+
+export const enum SyntaxKind {
+	Unknown = 0,
+	OpenBracketToken = 1,
+	CloseBracketToken = 2,
+	OpenBraceToken = 3,
+	CloseBraceToken = 4,
+	CommaToken = 5,
+	DotToken = 6,
+	EqualsToken = 7,
+	BareKeyToken = 8,
+	LiteralToken = 9,
+	BasicStringToken = 10,
+	LiteralStringToken = 11,
+	MultilineBasicStringToken = 12,
+	MultilineLiteralStringToken = 13,
+	CommentToken = 14,
+	LineBreakToken = 15,
+	EOF = 16
+}
+
+export const enum ScanError {
+	None = 0,
+	UnexpectedEndOfString = 1,
+	InvalidEscapeCharacter = 2,
+	InvalidUnicode = 3,
+	InvalidCharacter = 4,
+	InvalidControlCharacter = 5
+}
+
+/**
+ * A scanner for TOML text. Whitespace between tokens is skipped, line breaks and
+ * comments are reported as tokens because they are significant in TOML.
+ *
+ * Bare keys and bare values (numbers, booleans, dates) overlap, e.g. `3.14` is a
+ * dotted key on the left of `=` but a float on the right of it, so the parser
+ * has to tell the scanner in which context the next token is read.
+ */
+export interface TOMLScanner {
+	/**
+	 * Sets the scan position to a new offset. A call to 'scan' is needed to get the first token.
+	 */
+	setPosition(pos: number): void;
+	/**
+	 * Read the next token in key context. Returns the token code.
+	 */
+	scan(): SyntaxKind;
+	/**
+	 * Read the next token in value context. Returns the token code.
+	 */
+	scanValue(): SyntaxKind;
+	/**
+	 * Returns the current scan position, which is after the last read token.
+	 */
+	getPosition(): number;
+	/**
+	 * Returns the last read token.
+	 */
+	getToken(): SyntaxKind;
+	/**
+	 * Returns the last read token value. The value for strings is the decoded string content.
+	 */
+	getTokenValue(): string;
+	/**
+	 * The start offset of the last read token.
+	 */
+	getTokenOffset(): number;
+	/**
+	 * The length of the last read token.
+	 */
+	getTokenLength(): number;
+	/**
+	 * An error code of the last scan.
+	 */
+	getTokenError(): ScanError;
+}
+
+function isWhiteSpace(ch: string): boolean {
+	return ch === ' ' || ch === '\t';
+}
+
+function isLineBreak(ch: string): boolean {
+	return ch === '\n' || ch === '\r';
+}
+
+/**
+ * Control characters other than tab are not allowed in strings and comments.
+ */
+function isControlCharacter(ch: string): boolean {
+	let code = ch.charCodeAt(0);
+	return code < 0x20 && ch !== '\t' || code === 0x7F;
+}
+
+function isBareKeyChar(ch: string): boolean {
+	return (ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || (ch >= '0' && ch <= '9') || ch === '_' || ch === '-';
+}
+
+function isLiteralChar(ch: string): boolean {
+	return isBareKeyChar(ch) || ch === '+' || ch === '.' || ch === ':';
+}
+
+function isHexDigit(ch: string): boolean {
+	return (ch >= '0' && ch <= '9') || (ch >= 'a' && ch <= 'f') || (ch >= 'A' && ch <= 'F');
+}
+
+/**
+ * Creates a TOML scanner on the given text.
+ */
+export function createScanner(text: string): TOMLScanner {
+
+	let pos = 0,
+		len = text.length,
+		value: string = '',
+		tokenOffset = 0,
+		token: SyntaxKind = SyntaxKind.Unknown,
+		scanError: ScanError = ScanError.None;
+
+	function setPosition(newPosition: number) {
+		pos = newPosition;
+		value = '';
+		tokenOffset = 0;
+		token = SyntaxKind.Unknown;
+		scanError = ScanError.None;
+	}
+
+	function scanUnicodeEscape(count: number): string {
+		let digits = text.substr(pos, count);
+		if (digits.length !== count || !digits.split('').every(isHexDigit)) {
+			scanError = ScanError.InvalidUnicode;
+			return '';
+		}
+		pos += count;
+		let codePoint = parseInt(digits, 16);
+		if (codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF)) {
+			scanError = ScanError.InvalidUnicode;
+			return '';
+		}
+		return String.fromCodePoint(codePoint);
+	}
+
+	function scanEscape(): string {
+		// pos is on the character following the backslash
+		let ch = text.charAt(pos++);
+		switch (ch) {
+			case 'b': return '\b';
+			case 't': return '\t';
+			case 'n': return '\n';
+			case 'f': return '\f';
+			case 'r': return '\r';
+			case '"': return '"';
+			case '\\': return '\\';
+			case 'u': return scanUnicodeEscape(4);
+			case 'U': return scanUnicodeEscape(8);
+		}
+		pos--;
+		scanError = ScanError.InvalidEscapeCharacter;
+		return '';
+	}
+
+	function scanString(quote: string, escapes: boolean): string {
+		// pos is after the opening quote
+		let result = '';
+		while (true) {
+			if (pos >= len || isLineBreak(text.charAt(pos))) {
+				scanError = ScanError.UnexpectedEndOfString;
+				return result;
+			}
+			let ch = text.charAt(pos);
+			if (ch === quote) {
+				pos++;
+				return result;
+			}
+			if (escapes && ch === '\\') {
+				pos++;
+				result += scanEscape();
+				continue;
+			}
+			if (isControlCharacter(ch)) {
+				scanError = ScanError.InvalidControlCharacter;
+			}
+			result += ch;
+			pos++;
+		}
+	}
+
+	function scanMultilineString(quote: string, escapes: boolean): string {
+		// pos is after the opening delimiter, a line break directly following it is trimmed
+		if (text.charAt(pos) === '\n') {
+			pos++;
+		} else if (text.charAt(pos) === '\r' && text.charAt(pos + 1) === '\n') {
+			pos += 2;
+		}
+		let result = '';
+		while (true) {
+			if (pos >= len) {
+				scanError = ScanError.UnexpectedEndOfString;
+				return result;
+			}
+			let ch = text.charAt(pos);
+			if (ch === quote && text.charAt(pos + 1) === quote && text.charAt(pos + 2) === quote) {
+				// up to two quotes are allowed right before the closing delimiter
+				let end = pos + 3;
+				while (end < len && end - pos < 5 && text.charAt(end) === quote) {
+					end++;
+				}
+				result += text.substring(pos, end - 3);
+				pos = end;
+				return result;
+			}
+			if (escapes && ch === '\\') {
+				// a line ending backslash trims all whitespace up to the next non whitespace character
+				let next = pos + 1;
+				while (next < len && isWhiteSpace(text.charAt(next))) {
+					next++;
+				}
+				if (isLineBreak(text.charAt(next))) {
+					pos = next;
+					while (pos < len && (isWhiteSpace(text.charAt(pos)) || isLineBreak(text.charAt(pos)))) {
+						pos++;
+					}
+					continue;
+				}
+				pos++;
+				result += scanEscape();
+				continue;
+			}
+			if (isControlCharacter(ch) && ch !== '\n' && !(ch === '\r' && text.charAt(pos + 1) === '\n')) {
+				scanError = ScanError.InvalidControlCharacter;
+			}
+			result += ch;
+			pos++;
+		}
+	}
+
+	function scanLiteral(): string {
+		let start = pos;
+		while (pos < len && isLiteralChar(text.charAt(pos))) {
+			pos++;
+		}
+		// a date and a time may be separated by a space instead of a 'T'
+		if (/^\d{4}-\d{2}-\d{2}$/.test(text.substring(start, pos)) && text.charAt(pos) === ' ' && /^\d{2}:/.test(text.substr(pos + 1, 3))) {
+			pos++;
+			while (pos < len && isLiteralChar(text.charAt(pos))) {
+				pos++;
+			}
+		}
+		return text.substring(start, pos);
+	}
+
+	function scanNext(valueContext: boolean): SyntaxKind {
+		value = '';
+		scanError = ScanError.None;
+
+		// a byte order mark at the start of the text is skipped like whitespace
+		while (pos < len && (isWhiteSpace(text.charAt(pos)) || pos === 0 && text.charAt(pos) === '\uFEFF')) {
+			pos++;
+		}
+		tokenOffset = pos;
+
+		if (pos >= len) {
+			return token = SyntaxKind.EOF;
+		}
+
+		let ch = text.charAt(pos);
+
+		if (ch === '\n') {
+			pos++;
+			value = ch;
+			return token = SyntaxKind.LineBreakToken;
+		}
+		if (ch === '\r' && text.charAt(pos + 1) === '\n') {
+			pos += 2;
+			value = '\r\n';
+			return token = SyntaxKind.LineBreakToken;
+		}
+
+		switch (ch) {
+			case '[':
+				pos++;
+				return token = SyntaxKind.OpenBracketToken;
+			case ']':
+				pos++;
+				return token = SyntaxKind.CloseBracketToken;
+			case '{':
+				pos++;
+				return token = SyntaxKind.OpenBraceToken;
+			case '}':
+				pos++;
+				return token = SyntaxKind.CloseBraceToken;
+			case ',':
+				pos++;
+				return token = SyntaxKind.CommaToken;
+			case '=':
+				pos++;
+				return token = SyntaxKind.EqualsToken;
+			case '#':
+				pos++;
+				while (pos < len && !isLineBreak(text.charAt(pos))) {
+					if (isControlCharacter(text.charAt(pos))) {
+						scanError = ScanError.InvalidControlCharacter;
+					}
+					pos++;
+				}
+				value = text.substring(tokenOffset + 1, pos);
+				return token = SyntaxKind.CommentToken;
+			case '"':
+				if (text.substr(pos, 3) === '"""') {
+					pos += 3;
+					value = scanMultilineString('"', true);
+					return token = SyntaxKind.MultilineBasicStringToken;
+				}
+				pos++;
+				value = scanString('"', true);
+				return token = SyntaxKind.BasicStringToken;
+			case '\'':
+				if (text.substr(pos, 3) === '\'\'\'') {
+					pos += 3;
+					value = scanMultilineString('\'', false);
+					return token = SyntaxKind.MultilineLiteralStringToken;
+				}
+				pos++;
+				value = scanString('\'', false);
+				return token = SyntaxKind.LiteralStringToken;
+		}
+
+		if (valueContext && isLiteralChar(ch)) {
+			value = scanLiteral();
+			return token = SyntaxKind.LiteralToken;
+		}
+		if (!valueContext && ch === '.') {
+			pos++;
+			return token = SyntaxKind.DotToken;
+		}
+		if (!valueContext && isBareKeyChar(ch)) {
+			while (pos < len && isBareKeyChar(text.charAt(pos))) {
+				pos++;
+			}
+			value = text.substring(tokenOffset, pos);
+			return token = SyntaxKind.BareKeyToken;
+		}
+
+		pos++;
+		value = ch;
+		scanError = ScanError.InvalidCharacter;
+		return token = SyntaxKind.Unknown;
+	}
+
+	return {
+		setPosition,
+		getPosition: () => pos,
+		scan: () => scanNext(false),
+		scanValue: () => scanNext(true),
+		getToken: () => token,
+		getTokenValue: () => value,
+		getTokenOffset: () => tokenOffset,
+		getTokenLength: () => pos - tokenOffset,
+		getTokenError: () => scanError
+	};
+}
@@ -0,0 +1,195 @@
+'use strict';
+
+import path = require('path');
+import fs = require('fs');
+import URI from './utils/uri';
+import { convertGlob2RegExp } from './utils/strings';
+import { parse } from './parser/tomlParser';
+import { SpecVersion } from './services/tomlSpecVersion';
+import { LintSettings } from './services/tomlLint';
+import { FormatSettings } from './services/tomlFormatter';
+
+/*
+ * A `.toml-tools.toml` file configures the TOML tooling for the files of its folder and its
+ * subfolders, in the editor and in `toml-check` alike:
+ *
+ *   exclude = ["target/**"]
+ *   specVersion = "1.0"
+ *
+ *   [[schemas]]
+ *   fileMatch = ["config/*.toml"]
+ *   url = "./schemas/config.json"
+ *
+ *   [lint]
+ *   keyNaming = "warning"
+ *
+ *   [format]
+ *   alignEquals = true
+ *
+ * The file of a subfolder overrides the files of the folders above it, and the files override
+ * the `toml.*` settings.
+ */
+
+export const projectConfigFileName = '.toml-tools.toml';
+
+interface SchemaAssociation {
+	fileMatch: string[];
+	url: string;
+}
+
+interface ProjectConfigFile {
+	folder: string;
+	include?: string[];
+	exclude?: string[];
+	specVersion?: SpecVersion;
+	schemas: SchemaAssociation[];
+	lint?: LintSettings;
+	format?: FormatSettings;
+}
+
+/**
+ * The configuration of a file, merged from the configuration files of its folder and the
+ * folders above it.
+ */
+export interface ProjectConfig {
+	/**
+	 * Whether the `include` or `exclude` patterns leave the file out.
+	 */
+	excluded: boolean;
+	specVersion?: SpecVersion;
+	/**
+	 * The URI of the schema associated with the file.
+	 */
+	schema?: string;
+	lint: LintSettings;
+	format: FormatSettings;
+}
+
+export interface ProjectConfigs {
+	/**
+	 * Returns the configuration of a file, `undefined` when no configuration file applies. The
+	 * configuration files are looked up to the root folder, or else to the root of the file system.
+	 */
+	getConfig(uri: string, root?: string): ProjectConfig;
+	/**
+	 * Forgets the configuration files among the changed files. Returns whether there was one.
+	 */
+	reset(uris: string[]): boolean;
+}
+
+export function isProjectConfig(uri: string): boolean {
+	return path.basename(URI.parse(uri).fsPath) === projectConfigFileName;
+}
+
+function isStringArray(value: any): value is string[] {
+	return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isObject(value: any): boolean {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Reads a configuration file. The entries of the wrong type are left out, the schema of the
+ * file reports them in the editor.
+ */
+function readConfigFile(file: string): ProjectConfigFile {
+	let text: string;
+	try {
+		text = fs.readFileSync(file, 'utf8');
+	} catch (e) {
+		return void 0;
+	}
+	let values = parse(text).json;
+	let folder = path.dirname(file);
+	return {
+		folder,
+		include: isStringArray(values.include) ? values.include : void 0,
+		exclude: isStringArray(values.exclude) ? values.exclude : void 0,
+		specVersion: typeof values.specVersion === 'string' ? values.specVersion : void 0,
+		schemas: Array.isArray(values.schemas) ? values.schemas.filter((schema: any) => isObject(schema) && isStringArray(schema.fileMatch) && typeof schema.url === 'string') : [],
+		lint: isObject(values.lint) ? values.lint : void 0,
+		format: isObject(values.format) ? values.format : void 0
+	};
+}
+
+/**
+ * Whether a pattern matches the path of a file relative to the folder of a configuration file.
+ * A pattern without a `/` matches the file name in any subfolder.
+ */
+function matchesPattern(pattern: string, relativePath: string): boolean {
+	if (pattern.indexOf('/') === -1) {
+		pattern = '**/' + pattern;
+	} else if (pattern.charAt(0) === '/') {
+		pattern = pattern.substring(1);
+	} else if (pattern.substring(0, 2) === './') {
+		pattern = pattern.substring(2);
+	}
+	return convertGlob2RegExp(pattern).test(relativePath);
+}
+
+function resolveSchema(url: string, folder: string): string {
+	if (/^\w[\w\d+.-]*:/.test(url)) {
+		return url;
+	}
+	return URI.file(path.resolve(folder, url)).toString();
+}
+
+export function getProjectConfigs(): ProjectConfigs {
+	// the configuration files by folder, `null` for the folders without one
+	let files: { [folder: string]: ProjectConfigFile | null } = {};
+
+	let getConfigFile = (folder: string): ProjectConfigFile => {
+		if (!(folder in files)) {
+			files[folder] = readConfigFile(path.join(folder, projectConfigFileName)) || null;
+		}
+		return files[folder];
+	};
+
+	return {
+		getConfig(uri: string, root?: string): ProjectConfig {
+			let fsPath = URI.parse(uri).fsPath;
+			if (root && path.relative(root, fsPath).split(path.sep)[0] === '..') {
+				root = void 0;
+			}
+			// the configuration files from the nearest one up
+			let configFiles: ProjectConfigFile[] = [];
+			for (let folder = path.dirname(fsPath); ; folder = path.dirname(folder)) {
+				let configFile = getConfigFile(folder);
+				if (configFile) {
+					configFiles.push(configFile);
+				}
+				if (folder === root || path.dirname(folder) === folder) {
+					break;
+				}
+			}
+			if (configFiles.length === 0) {
+				return void 0;
+			}
+
+			let config: ProjectConfig = { excluded: false, lint: {}, format: {} };
+			configFiles.reverse().forEach(configFile => {
+				let relativePath = path.relative(configFile.folder, fsPath).split(path.sep).join('/');
+				let matches = (pattern: string) => matchesPattern(pattern, relativePath);
+				if (configFile.include && !configFile.include.some(matches) || configFile.exclude && configFile.exclude.some(matches)) {
+					config.excluded = true;
+				}
+				if (configFile.specVersion) {
+					config.specVersion = configFile.specVersion;
+				}
+				let association = configFile.schemas.find(schema => schema.fileMatch.some(matches));
+				if (association) {
+					config.schema = resolveSchema(association.url, configFile.folder);
+				}
+				Object.assign(config.lint, configFile.lint);
+				Object.assign(config.format, configFile.format);
+			});
+			return config;
+		},
+		reset(uris: string[]): boolean {
+			let changed = uris.filter(isProjectConfig).map(uri => path.dirname(URI.parse(uri).fsPath));
+			changed.forEach(folder => delete files[folder]);
+			return changed.length > 0;
+		}
+	};
+}
@@ -0,0 +1,236 @@
+'use strict';
+
+import { xhr, XHRResponse, getErrorStatusDescription } from 'request-light';
+import path = require('path');
+import fs = require('fs');
+import crypto = require('crypto');
+import * as URL from 'url';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+export interface SchemaCacheSettings {
+	/**
+	 * The folder the schemas are stored in.
+	 */
+	directory: string;
+	/**
+	 * The number of seconds a stored schema is used without asking the server whether it changed.
+	 */
+	ttl: number;
+	/**
+	 * Only use stored schemas, the network is never accessed.
+	 */
+	offline: boolean;
+}
+
+/**
+ * Stores remote schemas on disk. A stored schema older than the TTL is revalidated with its
+ * `ETag` and `Last-Modified` headers. The stored copy is also used when the server can not be
+ * reached, so that schemas keep working without network.
+ */
+export interface SchemaCache {
+	configure(settings: SchemaCacheSettings): void;
+	/**
+	 * Returns the content of an `http` or `https` schema.
+	 */
+	request(uri: string): Thenable<string>;
+	/**
+	 * Downloads the schemas and the remote schemas they reference, also in offline mode.
+	 * Returns the URLs that have been stored.
+	 */
+	prefetch(uris: string[]): Thenable<string[]>;
+	/**
+	 * Removes all stored schemas.
+	 */
+	clear(): Thenable<void>;
+}
+
+interface CacheEntry {
+	uri: string;
+	etag?: string;
+	lastModified?: string;
+	/**
+	 * The time the content was last confirmed by the server, in milliseconds.
+	 */
+	fetched: number;
+	content: string;
+}
+
+const entryExtension = '.schema.json';
+
+function getEntryPath(directory: string, uri: string): string {
+	return path.join(directory, crypto.createHash('sha1').update(uri).digest('hex') + entryExtension);
+}
+
+function readEntry(directory: string, uri: string): Thenable<CacheEntry> {
+	return new Promise<CacheEntry>(c => {
+		fs.readFile(getEntryPath(directory, uri), 'utf8', (err, result) => {
+			let entry: CacheEntry = void 0;
+			if (!err) {
+				try {
+					entry = JSON.parse(result);
+				} catch (e) {
+					// a damaged entry is fetched again
+				}
+			}
+			c(entry && entry.uri === uri && typeof entry.content === 'string' ? entry : void 0);
+		});
+	});
+}
+
+function makeDirectory(directory: string): Thenable<void> {
+	return new Promise<void>((c, e) => {
+		fs.mkdir(directory, { recursive: true }, err => err && err.code !== 'EEXIST' ? e(err) : c());
+	});
+}
+
+function writeEntry(directory: string, entry: CacheEntry): Thenable<void> {
+	return makeDirectory(directory).then(() => new Promise<void>((c, e) => {
+		fs.writeFile(getEntryPath(directory, entry.uri), JSON.stringify(entry), 'utf8', err => err ? e(err) : c());
+	}));
+}
+
+function getHeader(response: XHRResponse, name: string): string {
+	let value = response.headers && response.headers[name];
+	return Array.isArray(value) ? value[0] : value;
+}
+
+function getErrorMessage(response: XHRResponse): string {
+	return response.responseText || getErrorStatusDescription(response.status) || String(response);
+}
+
+/**
+ * Collects the remote schemas a schema refers to with `$ref` or `$schema`.
+ */
+function getReferencedSchemas(uri: string, content: string): string[] {
+	let result: string[] = [];
+	let collect = (node: any) => {
+		if (Array.isArray(node)) {
+			node.forEach(collect);
+		} else if (node && typeof node === 'object') {
+			Object.keys(node).forEach(key => {
+				let value = node[key];
+				if (key === '$ref' && typeof value === 'string') {
+					let reference = URL.resolve(uri, value.split('#')[0]);
+					if (/^https?:/.test(reference) && result.indexOf(reference) === -1) {
+						result.push(reference);
+					}
+				} else {
+					collect(value);
+				}
+			});
+		}
+	};
+	try {
+		collect(JSON.parse(content));
+	} catch (e) {
+		// not JSON, nothing to follow
+	}
+	return result;
+}
+
+export function getSchemaCache(settings: SchemaCacheSettings): SchemaCache {
+	// requests of the same schema share one download
+	let pendingRequests: { [uri: string]: Thenable<string> } = {};
+
+	let download = (uri: string, entry: CacheEntry): Thenable<string> => {
+		let headers: { [name: string]: string } = {};
+		if (entry && entry.etag) {
+			headers['If-None-Match'] = entry.etag;
+		}
+		if (entry && entry.lastModified) {
+			headers['If-Modified-Since'] = entry.lastModified;
+		}
+		let directory = settings.directory;
+		return xhr({ url: uri, followRedirects: 5, headers }).then(response => {
+			let updated: CacheEntry = {
+				uri,
+				etag: getHeader(response, 'etag'),
+				lastModified: getHeader(response, 'last-modified'),
+				fetched: Date.now(),
+				content: response.responseText
+			};
+			return writeEntry(directory, updated).then(() => updated.content, () => updated.content);
+		}, (response: XHRResponse) => {
+			if (entry && response.status === 304) {
+				entry.fetched = Date.now();
+				return writeEntry(directory, entry).then(() => entry.content, () => entry.content);
+			}
+			// a response without headers is a connection failure
+			if (entry && (!response.headers || response.status >= 500)) {
+				// the server is unreachable, the outdated copy is better than nothing
+				return entry.content;
+			}
+			return Promise.reject(getErrorMessage(response));
+		});
+	};
+
+	let request = (uri: string, force: boolean): Thenable<string> => {
+		let pending = pendingRequests[uri];
+		if (pending && !force) {
+			return pending;
+		}
+		let directory = settings.directory;
+		let result = readEntry(directory, uri).then(entry => {
+			if (!force) {
+				if (settings.offline) {
+					return entry ? entry.content : Promise.reject(localize('schemaCache.notCached', 'The schema is not available offline. Download it with the command "TOML: Download Schemas for Offline Use".'));
+				}
+				if (entry && Date.now() - entry.fetched < settings.ttl * 1000) {
+					return entry.content;
+				}
+			}
+			return download(uri, entry);
+		});
+		pendingRequests[uri] = result;
+		let done = () => {
+			if (pendingRequests[uri] === result) {
+				delete pendingRequests[uri];
+			}
+		};
+		result.then(done, done);
+		return result;
+	};
+
+	return {
+		configure(newSettings: SchemaCacheSettings): void {
+			settings = newSettings;
+		},
+		request(uri: string): Thenable<string> {
+			return request(uri, false);
+		},
+		prefetch(uris: string[]): Thenable<string[]> {
+			let stored: string[] = [];
+			let seen: string[] = [];
+			let fetch = (uri: string): Thenable<void> => {
+				if (seen.indexOf(uri) !== -1) {
+					return Promise.resolve();
+				}
+				seen.push(uri);
+				return request(uri, true).then(content => {
+					stored.push(uri);
+					return Promise.all(getReferencedSchemas(uri, content).map(fetch)).then(() => void 0);
+				}, () => void 0);
+			};
+			return Promise.all(uris.filter(uri => /^https?:/.test(uri)).map(fetch)).then(() => stored);
+		},
+		clear(): Thenable<void> {
+			let directory = settings.directory;
+			return new Promise<void>(c => {
+				fs.readdir(directory, (err, files) => {
+					let entries = err ? [] : files.filter(file => file.endsWith(entryExtension));
+					let remaining = entries.length;
+					if (remaining === 0) {
+						c();
+					}
+					entries.forEach(file => fs.unlink(path.join(directory, file), () => {
+						if (--remaining === 0) {
+							c();
+						}
+					}));
+				});
+			});
+		}
+	};
+}
@@ -0,0 +1,343 @@
+'use strict';
+
+import { CodeAction, CodeActionKind, Diagnostic, TextEdit, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { JSONSchema, ASTNode, ObjectASTNode, ErrorCode } from 'vscode-json-languageservice';
+import { TOMLDocument, ParseErrorCode } from '../parser/tomlParser';
+import { TOMLNode, TableNode, ArrayOfTablesNode, KeyValueNode, KeySegmentNode, InlineTableNode, EntryNode } from '../parser/tomlNodes';
+import { getNodePath, getSchemasAtPath, getPropertySchemas, expandSchemas, formatKey, toTOMLValue, getPlaceholderValue } from './tomlSchema';
+import { lintSource } from './tomlLint';
+import { parserSource, MissingPropertyData } from '../tomlLanguageService';
+import { getEOL, getLineStart, getLineEnd, getNextLineStart, getIndentation } from '../utils/strings';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+const bareKey = /^[A-Za-z0-9_-]+$/;
+
+const maxEnumSuggestions = 5;
+
+function getDistance(a: string, b: string): number {
+	let previous: number[] = [];
+	for (let j = 0; j <= b.length; j++) {
+		previous.push(j);
+	}
+	for (let i = 1; i <= a.length; i++) {
+		let current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1)));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+function getLastKeyValue(entries: EntryNode[]): KeyValueNode {
+	for (let i = entries.length - 1; i >= 0; i--) {
+		let entry = entries[i];
+		if (entry.type === 'keyValue') {
+			return entry;
+		}
+	}
+	return void 0;
+}
+
+/**
+ * Returns the end of the text before the offset, skipping white space, line breaks and comments.
+ */
+function getContentEnd(text: string, tomlDocument: TOMLDocument, offset: number): number {
+	let end = offset;
+	while (true) {
+		while (end > 0 && /\s/.test(text.charAt(end - 1))) {
+			end--;
+		}
+		let comment = tomlDocument.comments.filter(comment => comment.offset + comment.length === end)[0];
+		if (!comment) {
+			return end;
+		}
+		end = comment.offset;
+	}
+}
+
+/**
+ * Returns the JSON object a key/value pair defines its last key segment in.
+ */
+function getParentObject(tomlDocument: TOMLDocument, keyValue: KeyValueNode): ASTNode {
+	let segments = keyValue.key.segments;
+	if (segments.length > 1) {
+		let property = tomlDocument.getJSONNode(segments[segments.length - 2]);
+		return property && property.type === 'property' ? property.valueNode : void 0;
+	}
+	let parent = keyValue.parent;
+	return parent.type === 'document' ? tomlDocument.jsonRoot : tomlDocument.getJSONNode(parent);
+}
+
+/**
+ * Creates the quick fixes for the diagnostics of the parser, the lint rules and the schema validation.
+ */
+export function getCodeActions(document: TextDocument, tomlDocument: TOMLDocument, diagnostics: Diagnostic[], schemas: JSONSchema[]): CodeAction[] {
+	let text = document.getText();
+	let eol = getEOL(text);
+	let result: CodeAction[] = [];
+
+	let addFix = (title: string, diagnostic: Diagnostic, edits: TextEdit[], isPreferred?: boolean): void => {
+		let action = CodeAction.create(title, { changes: { [document.uri]: edits } }, CodeActionKind.QuickFix);
+		action.diagnostics = [diagnostic];
+		if (isPreferred) {
+			action.isPreferred = true;
+		}
+		result.push(action);
+	};
+
+	let insert = (offset: number, content: string): TextEdit => TextEdit.insert(document.positionAt(offset), content);
+
+	let replace = (offset: number, length: number, content: string): TextEdit => TextEdit.replace(Range.create(document.positionAt(offset), document.positionAt(offset + length)), content);
+
+	let remove = (offset: number, end: number): TextEdit => TextEdit.del(Range.create(document.positionAt(offset), document.positionAt(end)));
+
+	let getSegment = (diagnostic: Diagnostic): KeySegmentNode => {
+		let node = tomlDocument.getNodeFromOffset(document.offsetAt(diagnostic.range.start));
+		return node && node.type === 'keySegment' ? node : void 0;
+	};
+
+	let fixUnterminatedString = (diagnostic: Diagnostic): void => {
+		let start = document.offsetAt(diagnostic.range.start);
+		let end = document.offsetAt(diagnostic.range.end);
+		let quote = /^("""|'''|"|')/.exec(text.substr(start, 3));
+		if (quote) {
+			addFix(localize('codeAction.closeString', 'Add the closing {0}', quote[1]), diagnostic, [insert(end, quote[1])], true);
+		}
+	};
+
+	// a missing bracket is added after the last content before the unexpected token, if that token is on a later line
+	let fixClosingBracket = (diagnostic: Diagnostic, bracket: string): void => {
+		let offset = document.offsetAt(diagnostic.range.start);
+		let end = getContentEnd(text, tomlDocument, offset);
+		let atEndOfLine = offset === document.offsetAt(diagnostic.range.end) || text.substring(end, offset).indexOf('\n') !== -1;
+		if (!atEndOfLine || end === 0) {
+			return;
+		}
+		if (bracket === ']]' && text.charAt(end - 1) === ']') {
+			bracket = ']';
+		}
+		let content = bracket === '}' && text.charAt(end - 1) !== '{' ? ' }' : bracket;
+		addFix(localize('codeAction.closeBracket', 'Add the missing {0}', bracket), diagnostic, [insert(end, content)], true);
+	};
+
+	let isArrayOfTablesHeader = (offset: number): boolean => {
+		let end = getContentEnd(text, tomlDocument, offset);
+		return /^\s*\[\[/.test(text.substring(getLineStart(text, end), end));
+	};
+
+	let fixInvalidKey = (diagnostic: Diagnostic): void => {
+		let offset = document.offsetAt(diagnostic.range.start);
+		let lineStart = getLineStart(text, offset);
+		let line = text.substring(lineStart, getLineEnd(text, offset));
+		let equals = line.indexOf('=');
+		let keyStart = /^[ \t]*/.exec(line)[0].length;
+		let key = line.substring(keyStart, equals).trim();
+		if (equals === -1 || offset - lineStart > equals || key.length === 0 || /["'#\[]/.test(key)) {
+			return;
+		}
+		let segments = key.split('.').map(segment => segment.trim());
+		if (segments.every(segment => bareKey.test(segment))) {
+			return;
+		}
+		let quoted = segments.map(segment => bareKey.test(segment) ? segment : JSON.stringify(segment)).join('.');
+		addFix(localize('codeAction.quoteKey', 'Change the key to {0}', quoted), diagnostic, [replace(lineStart + keyStart, key.length, quoted)], true);
+	};
+
+	let fixDuplicateKey = (diagnostic: Diagnostic): void => {
+		let segment = getSegment(diagnostic);
+		let keyValue = segment && segment.parent && <TOMLNode>segment.parent.parent;
+		if (!keyValue || keyValue.type !== 'keyValue') {
+			return;
+		}
+		let object = getParentObject(tomlDocument, keyValue);
+		let keys = object && object.type === 'object' ? object.properties.map(property => property.keyNode.value) : [];
+		let index = 2;
+		while (keys.indexOf(segment.value + '_' + index) !== -1) {
+			index++;
+		}
+		let name = segment.value + '_' + index;
+		addFix(localize('codeAction.renameKey', 'Rename the key to "{0}"', name), diagnostic, [replace(segment.offset, segment.length, formatKey(name))]);
+
+		let end = keyValue.offset + keyValue.length;
+		let parent = keyValue.parent;
+		let edit: TextEdit;
+		if (parent.type === 'inlineTable') {
+			// the comma before the entry, or after the entry if it is the first one
+			let entries = parent.entries;
+			let index = entries.indexOf(keyValue);
+			if (index > 0) {
+				let previous = entries[index - 1];
+				edit = remove(previous.offset + previous.length, end);
+			} else {
+				edit = remove(keyValue.offset, entries.length > 1 ? entries[1].offset : end);
+			}
+		} else if (getIndentation(text, keyValue.offset).length === keyValue.offset - getLineStart(text, keyValue.offset)) {
+			// the whole line, with the comment at its end
+			edit = remove(getLineStart(text, keyValue.offset), getNextLineStart(text, end));
+		} else {
+			edit = remove(keyValue.offset, end);
+		}
+		addFix(localize('codeAction.removeKey', 'Remove the duplicate key "{0}"', segment.value), diagnostic, [edit]);
+	};
+
+	// the entries of the second table move to the end of the first one
+	let fixDuplicateTable = (diagnostic: Diagnostic): void => {
+		let segment = getSegment(diagnostic);
+		let duplicate = segment && segment.parent && <TOMLNode>segment.parent.parent;
+		if (!duplicate || duplicate.type !== 'table') {
+			return;
+		}
+		let property = tomlDocument.getJSONNode(segment);
+		let object = property && property.type === 'property' ? property.valueNode : void 0;
+		let original = <TableNode>tomlDocument.root.tables.filter(table => table !== duplicate && table.type === 'table' && tomlDocument.getJSONNode(table) === object)[0];
+		if (!original) {
+			return;
+		}
+		let edits: TextEdit[] = [];
+		let end = duplicate.offset + duplicate.length;
+		if (duplicate.body.length > 0) {
+			let bodyStart = getLineStart(text, duplicate.body[0].offset);
+			let last = getLastKeyValue(original.body);
+			let offset = getLineEnd(text, last ? last.offset + last.length : original.offset + original.headerLength);
+			edits.push(insert(offset, eol + text.substring(bodyStart, end)));
+		}
+		edits.push(remove(getLineStart(text, duplicate.offset), getNextLineStart(text, end)));
+		let name = duplicate.key.segments.map(segment => segment.value).join('.');
+		addFix(localize('codeAction.mergeTable', 'Merge with the first [{0}] table', name), diagnostic, edits, true);
+	};
+
+	// a missing property of a schema is added with its default value, or an empty value of its type
+	let fixMissingProperty = (diagnostic: Diagnostic, key: string): void => {
+		let offset = document.offsetAt(diagnostic.range.start);
+		let objects: ObjectASTNode[] = [];
+		let collect = (node: ASTNode) => {
+			if (node.type === 'object') {
+				let parent = node.parent;
+				let anchor = parent && parent.type === 'property' ? parent.keyNode.offset : node.offset;
+				if (anchor === offset) {
+					objects.push(node);
+				}
+			}
+			node.children.forEach(collect);
+		};
+		collect(tomlDocument.jsonRoot);
+		for (let object of objects) {
+			let objectSchemas = getSchemasAtPath(schemas, getNodePath(object));
+			let isMissing = object.properties.every(property => property.keyNode.value !== key);
+			if (!isMissing || !objectSchemas.some(schema => Array.isArray(schema.required) && schema.required.indexOf(key) !== -1)) {
+				continue;
+			}
+			let entry = formatKey(key) + ' = ' + getPlaceholderValue(expandSchemas([].concat(...objectSchemas.map(schema => getPropertySchemas(schema, key)))));
+			let edit = insertEntry(object, entry);
+			if (edit) {
+				addFix(localize('codeAction.addProperty', 'Add the missing key "{0}"', key), diagnostic, [edit], true);
+				return;
+			}
+		}
+	};
+
+	// adds a key/value pair to the table, inline table or top level that defines the object
+	let insertEntry = (object: ObjectASTNode, entry: string): TextEdit => {
+		let insertAfter = (entries: EntryNode[], fallback: number): TextEdit => {
+			let last = getLastKeyValue(entries);
+			if (last) {
+				return insert(getLineEnd(text, last.offset + last.length), eol + getIndentation(text, last.offset) + entry);
+			}
+			return fallback !== void 0 ? insert(getLineEnd(text, fallback), eol + entry) : void 0;
+		};
+		if (object === tomlDocument.jsonRoot) {
+			let root = tomlDocument.root;
+			if (getLastKeyValue(root.body) || root.tables.length === 0) {
+				return insertAfter(root.body, text.length) || insert(text.length, entry + eol);
+			}
+			return insert(getLineStart(text, root.tables[0].offset), entry + eol + eol);
+		}
+		let table = <TableNode | ArrayOfTablesNode | InlineTableNode>[].concat(tomlDocument.root.tables, collectInlineTables()).filter(node => tomlDocument.getJSONNode(node) === object)[0];
+		if (!table) {
+			// tables that are only defined by dotted keys or by the headers of their sub-tables
+			return void 0;
+		}
+		if (table.type === 'inlineTable') {
+			let entries = table.entries;
+			if (entries.length > 0) {
+				let last = entries[entries.length - 1];
+				return insert(last.offset + last.length, ', ' + entry);
+			}
+			return replace(table.offset, table.length, '{ ' + entry + ' }');
+		}
+		return insertAfter(table.body, table.offset + table.headerLength);
+	};
+
+	let collectInlineTables = (): InlineTableNode[] => {
+		let inlineTables: InlineTableNode[] = [];
+		tomlDocument.visit(node => {
+			if (node.type === 'inlineTable') {
+				inlineTables.push(node);
+			}
+			return true;
+		});
+		return inlineTables;
+	};
+
+	// the allowed values closest to the current value are suggested
+	let fixEnumValue = (diagnostic: Diagnostic): void => {
+		let offset = document.offsetAt(diagnostic.range.start);
+		let node = tomlDocument.getNodeFromOffset(offset);
+		let jsonNode = node && node.offset === offset && tomlDocument.getJSONNode(node);
+		if (!jsonNode) {
+			return;
+		}
+		let current = text.substr(node.offset, node.length);
+		let candidates: string[] = [];
+		getSchemasAtPath(schemas, getNodePath(jsonNode)).forEach(schema => {
+			let values = Array.isArray(schema.enum) ? schema.enum : schema.const !== void 0 ? [schema.const] : [];
+			values.map(toTOMLValue).forEach(value => value !== void 0 && value !== current && candidates.indexOf(value) === -1 && candidates.push(value));
+		});
+		candidates.sort((a, b) => getDistance(current, a) - getDistance(current, b));
+		candidates.slice(0, maxEnumSuggestions).forEach((value, index) => {
+			addFix(localize('codeAction.changeValue', 'Change the value to {0}', value), diagnostic, [replace(node.offset, node.length, value)], index === 0);
+		});
+	};
+
+	for (let diagnostic of diagnostics) {
+		if (diagnostic.source === parserSource) {
+			switch (diagnostic.code) {
+				case ParseErrorCode.UnexpectedEndOfString:
+					fixUnterminatedString(diagnostic);
+					break;
+				case ParseErrorCode.CloseBracketExpected:
+					fixClosingBracket(diagnostic, isArrayOfTablesHeader(document.offsetAt(diagnostic.range.start)) ? ']]' : ']');
+					break;
+				case ParseErrorCode.CommaOrCloseBracketExpected:
+					fixClosingBracket(diagnostic, ']');
+					break;
+				case ParseErrorCode.CommaOrCloseBraceExpected:
+					fixClosingBracket(diagnostic, '}');
+					break;
+				case ParseErrorCode.InvalidSymbol:
+				case ParseErrorCode.KeyExpected:
+				case ParseErrorCode.EqualsExpected:
+					fixInvalidKey(diagnostic);
+					break;
+			}
+		} else if (diagnostic.source === lintSource) {
+			switch (diagnostic.code) {
+				case 'duplicateKey':
+					fixDuplicateKey(diagnostic);
+					break;
+				case 'duplicateTable':
+					fixDuplicateTable(diagnostic);
+					break;
+			}
+		} else if (diagnostic.code === ErrorCode.EnumValueMismatch) {
+			fixEnumValue(diagnostic);
+		} else if (diagnostic.data && typeof (<MissingPropertyData>diagnostic.data).missingProperty === 'string') {
+			fixMissingProperty(diagnostic, (<MissingPropertyData>diagnostic.data).missingProperty);
+		}
+	}
+	return result;
+}
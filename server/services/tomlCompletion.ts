@@ -0,0 +1,428 @@
+'use strict';
+
+import { CompletionList, CompletionItem, CompletionItemKind, InsertTextFormat, MarkupKind, MarkupContent, Range, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { JSONSchema, ASTNode } from 'vscode-json-languageservice';
+import { createScanner, SyntaxKind } from '../parser/tomlScanner';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TableNode, ArrayOfTablesNode } from '../parser/tomlNodes';
+import { TOMLPath, expandSchemas, getSchemasAtPath, getObjectSchemas, getSchemaTypes, getTypeLabel, isObjectSchema, isArraySchema, getItemSchemas, formatKey, toTOMLValue } from './tomlSchema';
+
+interface CompletionContext {
+	kind: 'key' | 'value' | 'table' | 'arrayOfTables';
+	/**
+	 * The path of the table the key is completed in, or the path of the completed value.
+	 */
+	path: TOMLPath;
+	/**
+	 * The start of the key or value that is being completed.
+	 */
+	offset: number;
+	/**
+	 * The keys that are already defined next to the completed key, if they are known while scanning.
+	 */
+	keys?: string[];
+	/**
+	 * The JSON object of the table the scan started in, for a key or a value directly in that table.
+	 */
+	object?: ASTNode;
+}
+
+function isKeyToken(token: SyntaxKind): boolean {
+	return token === SyntaxKind.BareKeyToken || token === SyntaxKind.BasicStringToken || token === SyntaxKind.LiteralStringToken;
+}
+
+function isValueToken(token: SyntaxKind): boolean {
+	return token === SyntaxKind.LiteralToken || token === SyntaxKind.BasicStringToken || token === SyntaxKind.LiteralStringToken
+		|| token === SyntaxKind.MultilineBasicStringToken || token === SyntaxKind.MultilineLiteralStringToken;
+}
+
+/**
+ * Finds out what is completed at the offset. The text from the start of the current table up
+ * to the offset is scanned, the text the user is typing is usually not valid TOML yet, so the
+ * syntax tree does not know about it.
+ */
+function getCompletionContext(text: string, offset: number, tomlDocument: TOMLDocument): CompletionContext {
+	let table: TableNode | ArrayOfTablesNode = void 0;
+	for (let candidate of tomlDocument.root.tables) {
+		if (candidate.offset < offset) {
+			table = candidate;
+		}
+	}
+	let scanner = createScanner(text.substring(0, offset));
+	scanner.setPosition(table ? table.offset : 0);
+
+	let tablePath: TOMLPath = [];
+	let tableObject: ASTNode = table ? void 0 : tomlDocument.jsonRoot;
+	// set when the scan reached the offset, `null` if there is nothing to complete there
+	let result: CompletionContext | null = void 0;
+	let failed = false;
+
+	// the token touches the offset, it is the start of the word that is completed
+	let isAtOffset = () => scanner.getPosition() === offset && scanner.getTokenLength() > 0;
+
+	function scanKey(token: SyntaxKind, onPartial: (segments: string[], partialOffset: number) => CompletionContext): string[] {
+		let segments: string[] = [];
+		while (true) {
+			if (token === SyntaxKind.EOF) {
+				result = onPartial(segments, offset);
+				return void 0;
+			}
+			if (!isKeyToken(token)) {
+				failed = true;
+				return void 0;
+			}
+			if (isAtOffset()) {
+				result = onPartial(segments, scanner.getTokenOffset());
+				return void 0;
+			}
+			segments.push(scanner.getTokenValue());
+			if (scanner.scan() !== SyntaxKind.DotToken) {
+				return segments;
+			}
+			token = scanner.scan();
+		}
+	}
+
+	// scans a value starting with the given token, the scanner stays on the last token of the value
+	function scanValue(token: SyntaxKind, path: TOMLPath): void {
+		if (token === SyntaxKind.EOF) {
+			result = { kind: 'value', path, offset };
+		} else if (isValueToken(token)) {
+			if (isAtOffset()) {
+				result = { kind: 'value', path, offset: scanner.getTokenOffset() };
+			}
+		} else if (token === SyntaxKind.OpenBracketToken) {
+			scanArray(path);
+		} else if (token === SyntaxKind.OpenBraceToken) {
+			scanInlineTable(path);
+		} else {
+			failed = true;
+		}
+	}
+
+	function scanArray(path: TOMLPath): void {
+		let index = 0;
+		while (true) {
+			let token = scanner.scanValue();
+			while (token === SyntaxKind.LineBreakToken || token === SyntaxKind.CommentToken) {
+				token = scanner.scanValue();
+			}
+			if (token === SyntaxKind.CloseBracketToken) {
+				return;
+			}
+			scanValue(token, path.concat(index));
+			if (result !== void 0 || failed) {
+				return;
+			}
+			token = scanner.scan();
+			while (token === SyntaxKind.LineBreakToken || token === SyntaxKind.CommentToken) {
+				token = scanner.scan();
+			}
+			if (token === SyntaxKind.CloseBracketToken) {
+				return;
+			}
+			if (token === SyntaxKind.EOF) {
+				result = null;
+				return;
+			}
+			if (token !== SyntaxKind.CommaToken) {
+				failed = true;
+				return;
+			}
+			index++;
+		}
+	}
+
+	function scanInlineTable(path: TOMLPath): void {
+		let keys: string[][] = [];
+		while (true) {
+			let token = scanner.scan();
+			if (token === SyntaxKind.CloseBraceToken) {
+				return;
+			}
+			let segments = scanKey(token, (completed, partialOffset) => {
+				let siblings = keys.filter(key => key.length > completed.length && completed.every((segment, i) => key[i] === segment));
+				return { kind: 'key', path: path.concat(completed), offset: partialOffset, keys: siblings.map(key => key[completed.length]) };
+			});
+			if (!segments) {
+				return;
+			}
+			keys.push(segments);
+			if (scanner.getToken() !== SyntaxKind.EqualsToken) {
+				if (scanner.getToken() === SyntaxKind.EOF) {
+					result = null;
+				} else {
+					failed = true;
+				}
+				return;
+			}
+			scanValue(scanner.scanValue(), path.concat(segments));
+			if (result !== void 0 || failed) {
+				return;
+			}
+			token = scanner.scan();
+			if (token === SyntaxKind.CloseBraceToken) {
+				return;
+			}
+			if (token === SyntaxKind.EOF) {
+				result = null;
+				return;
+			}
+			if (token !== SyntaxKind.CommaToken) {
+				failed = true;
+				return;
+			}
+		}
+	}
+
+	function scanTableHeader(): void {
+		let start = scanner.getTokenOffset();
+		let token = scanner.scan();
+		let isArrayOfTables = token === SyntaxKind.OpenBracketToken && scanner.getTokenOffset() === start + 1;
+		if (isArrayOfTables) {
+			token = scanner.scan();
+		}
+		let segments = scanKey(token, (completed, partialOffset) => ({ kind: isArrayOfTables ? 'arrayOfTables' : 'table', path: completed, offset: partialOffset }));
+		if (!segments) {
+			return;
+		}
+		tablePath = segments;
+		tableObject = table && table.offset === start ? tomlDocument.getJSONNode(table) : void 0;
+		while (scanner.getToken() === SyntaxKind.CloseBracketToken) {
+			scanner.scan();
+		}
+		if (scanner.getToken() === SyntaxKind.EOF) {
+			result = null;
+		}
+	}
+
+	function scanKeyValue(token: SyntaxKind): void {
+		let segments = scanKey(token, (completed, partialOffset) => ({ kind: 'key', path: tablePath.concat(completed), offset: partialOffset, object: getObject(tableObject, completed) }));
+		if (!segments) {
+			return;
+		}
+		if (scanner.getToken() !== SyntaxKind.EqualsToken) {
+			if (scanner.getToken() === SyntaxKind.EOF) {
+				result = null;
+			} else {
+				failed = true;
+			}
+			return;
+		}
+		scanValue(scanner.scanValue(), tablePath.concat(segments));
+		if (result === void 0 && !failed && scanner.scan() === SyntaxKind.EOF) {
+			result = null;
+		}
+	}
+
+	let token = scanner.scan();
+	while (true) {
+		// at the start of a line
+		while (token === SyntaxKind.LineBreakToken) {
+			token = scanner.scan();
+		}
+		if (token === SyntaxKind.EOF) {
+			return { kind: 'key', path: tablePath, offset, object: tableObject };
+		}
+		failed = false;
+		if (token === SyntaxKind.OpenBracketToken) {
+			scanTableHeader();
+		} else if (token !== SyntaxKind.CommentToken) {
+			scanKeyValue(token);
+		}
+		if (result !== void 0) {
+			return result;
+		}
+		// continue with the next line, the rest of a broken line is skipped
+		token = scanner.getToken();
+		while (token !== SyntaxKind.LineBreakToken && token !== SyntaxKind.EOF) {
+			token = scanner.scan();
+		}
+		if (token === SyntaxKind.EOF) {
+			// the offset is behind an entry, in a comment or in a broken line
+			return null;
+		}
+		token = scanner.scan();
+	}
+}
+
+function getObject(object: ASTNode, segments: string[]): ASTNode {
+	for (let segment of segments) {
+		if (!object || object.type !== 'object') {
+			return void 0;
+		}
+		let property = object.properties.filter(p => p.keyNode.value === segment)[0];
+		object = property && property.valueNode;
+		if (object && object.type === 'array') {
+			object = object.items[object.items.length - 1];
+		}
+	}
+	return object;
+}
+
+function escapeSnippet(value: string): string {
+	return value.replace(/[\$\}\\]/g, '\\$&');
+}
+
+function getValueSnippet(schemas: JSONSchema[]): string {
+	for (let schema of schemas) {
+		let value = toTOMLValue(schema.default);
+		if (value !== void 0) {
+			return '${1:' + escapeSnippet(value) + '}';
+		}
+	}
+	let types = [].concat(...schemas.map(getSchemaTypes));
+	switch (types[0]) {
+		case 'string': return '"$1"';
+		case 'boolean': return '${1:false}';
+		case 'integer':
+		case 'number': return '${1:0}';
+		case 'array': return '[$1]';
+		case 'object': return '{ $1 }';
+	}
+	return '$1';
+}
+
+function getDocumentation(schema: JSONSchema): string | MarkupContent {
+	if (schema.markdownDescription) {
+		return { kind: MarkupKind.Markdown, value: schema.markdownDescription };
+	}
+	return schema.description;
+}
+
+/**
+ * Computes the completions at the position from the schemas associated with the document:
+ * the keys of the current table or inline table, the tables in `[` and `[[` headers and the
+ * values after `=`.
+ */
+export function doComplete(document: TextDocument, position: Position, tomlDocument: TOMLDocument, schemas: JSONSchema[]): CompletionList {
+	let result: CompletionList = { isIncomplete: false, items: [] };
+	if (schemas.length === 0) {
+		return result;
+	}
+	let text = document.getText();
+	let offset = document.offsetAt(position);
+	let context = getCompletionContext(text, offset, tomlDocument);
+	if (!context) {
+		return result;
+	}
+
+	// the word under the cursor is replaced completely, an auto-closed quote is replaced as well
+	let end = offset;
+	while (end < text.length && /[A-Za-z0-9_\-.:+]/.test(text.charAt(end)) && (context.kind === 'value' || text.charAt(end) !== '.')) {
+		end++;
+	}
+	let partial = text.substring(context.offset, offset);
+	if (/^["']/.test(partial) && text.charAt(end) === partial.charAt(0) && (partial.length === 1 || partial.charAt(partial.length - 1) !== partial.charAt(0))) {
+		end++;
+	}
+	let range = Range.create(document.positionAt(context.offset), document.positionAt(end));
+	let lineEnd = text.indexOf('\n', end);
+	let restOfLine = text.substring(end, lineEnd === -1 ? text.length : lineEnd).trim();
+
+	let seen: { [label: string]: boolean } = Object.create(null);
+	let add = (item: CompletionItem) => {
+		if (!seen[item.label]) {
+			seen[item.label] = true;
+			result.items.push(item);
+		}
+	};
+
+	let schemasAtPath = getSchemasAtPath(schemas, context.path);
+	if (context.kind !== 'value') {
+		schemasAtPath = getObjectSchemas(schemasAtPath);
+	}
+
+	if (context.kind === 'key') {
+		let existing = context.keys || [];
+		if (context.object && context.object.type === 'object') {
+			context.object.properties.forEach(property => {
+				let key = property.keyNode;
+				if (offset < key.offset || offset > key.offset + key.length) {
+					existing.push(key.value);
+				}
+			});
+		}
+		for (let schema of schemasAtPath) {
+			Object.keys(schema.properties || {}).forEach(key => {
+				let propertySchemas = expandSchemas([schema.properties[key]]);
+				if (existing.indexOf(key) !== -1 || propertySchemas.some(s => s.doNotSuggest)) {
+					return;
+				}
+				let label = formatKey(key);
+				let insertText = escapeSnippet(label);
+				if (restOfLine.length === 0) {
+					insertText += ' = ' + getValueSnippet(propertySchemas);
+				}
+				add({
+					label,
+					kind: CompletionItemKind.Property,
+					detail: getTypeLabel(propertySchemas),
+					documentation: propertySchemas.length > 0 ? getDocumentation(propertySchemas[0]) : void 0,
+					filterText: label,
+					insertTextFormat: InsertTextFormat.Snippet,
+					textEdit: { range, newText: insertText }
+				});
+			});
+		}
+	} else if (context.kind === 'table' || context.kind === 'arrayOfTables') {
+		let declared = tomlDocument.root.tables.filter(table => table.type === 'table').map(table => JSON.stringify(table.key.segments.map(segment => segment.value)));
+		let close = context.kind === 'table' ? ']' : ']]';
+		for (let schema of schemasAtPath) {
+			Object.keys(schema.properties || {}).forEach(key => {
+				let propertySchemas = expandSchemas([schema.properties[key]]);
+				let matches = context.kind === 'table'
+					? propertySchemas.some(isObjectSchema)
+					: propertySchemas.some(s => isArraySchema(s) && getItemSchemas(s).some(isObjectSchema));
+				if (!matches || propertySchemas.some(s => s.doNotSuggest)) {
+					return;
+				}
+				if (context.kind === 'table' && declared.indexOf(JSON.stringify(context.path.concat(key))) !== -1) {
+					return;
+				}
+				let label = formatKey(key);
+				add({
+					label,
+					kind: CompletionItemKind.Module,
+					detail: getTypeLabel(propertySchemas),
+					documentation: propertySchemas.length > 0 ? getDocumentation(propertySchemas[0]) : void 0,
+					filterText: label,
+					textEdit: { range, newText: restOfLine.indexOf(']') === -1 ? label + close : label }
+				});
+			});
+		}
+	} else {
+		// a value directly after `=` gets a separating space
+		let prefix = text.charAt(context.offset - 1) === '=' ? ' ' : '';
+		let addValue = (value: any, kind: CompletionItemKind, documentation?: string | MarkupContent) => {
+			let label = toTOMLValue(value);
+			if (label !== void 0) {
+				add({ label, kind, documentation, filterText: label, textEdit: { range, newText: prefix + label } });
+			}
+		};
+		for (let schema of schemasAtPath) {
+			(schema.enum || []).forEach((value, i) => {
+				let documentation: string | MarkupContent = void 0;
+				if (schema.markdownEnumDescriptions && schema.markdownEnumDescriptions[i]) {
+					documentation = { kind: MarkupKind.Markdown, value: schema.markdownEnumDescriptions[i] };
+				} else if (schema.enumDescriptions && schema.enumDescriptions[i]) {
+					documentation = schema.enumDescriptions[i];
+				}
+				addValue(value, CompletionItemKind.EnumMember, documentation);
+			});
+			if (schema.const !== void 0) {
+				addValue(schema.const, CompletionItemKind.Constant);
+			}
+			if (schema.default !== void 0) {
+				addValue(schema.default, CompletionItemKind.Value, getDocumentation(schema));
+			}
+			(schema.examples || []).forEach(value => addValue(value, CompletionItemKind.Value));
+			if (getSchemaTypes(schema).indexOf('boolean') !== -1) {
+				addValue(true, CompletionItemKind.Value);
+				addValue(false, CompletionItemKind.Value);
+			}
+		}
+	}
+	return result;
+}
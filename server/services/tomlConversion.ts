@@ -0,0 +1,321 @@
+'use strict';
+
+import { ResponseError, ErrorCodes } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ASTNode } from 'vscode-json-languageservice';
+import * as jsonc from 'jsonc-parser';
+import * as YAML from 'yaml';
+import { Scalar, YAMLMap, YAMLSeq, Alias } from 'yaml/types';
+import { Type } from 'yaml/util';
+import { TOMLDocument, parse, parseLiteral } from '../parser/tomlParser';
+import { getEOL } from '../utils/strings';
+import { TOMLData, TOMLTable, TOMLLiteral, toTOML } from './tomlSerializer';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+/*
+ * The values of TOML map to JSON and YAML as follows:
+ *
+ * - Integers are written with all their digits, also beyond 2^53 where JavaScript numbers lose
+ *   precision. Hexadecimal, octal and binary integers are written as decimal integers.
+ * - Floats always have a fraction or an exponent, so `1.0` comes back as a float. `inf`, `-inf`
+ *   and `nan` are the strings "inf", "-inf" and "nan" in JSON and `.inf`, `-.inf` and `.nan` in
+ *   YAML.
+ * - Date-times, dates and times are strings with the text of the TOML value. In YAML they are
+ *   plain scalars, while strings that look like a date are quoted.
+ *
+ * Back in TOML, JSON strings and plain YAML scalars that are a TOML date-time, date or time
+ * become date-times again. TOML has no null, null values are refused.
+ */
+
+export type DataFormat = 'json' | 'yaml';
+
+const yamlReservedWords = ['true', 'false', 'yes', 'no', 'on', 'off', 'y', 'n', 'null'];
+
+/**
+ * Converts the digits of an integer to decimal digits, as text because they may not fit into
+ * a number.
+ */
+function toDecimal(digits: string, radix: number): string {
+	// the decimal digits, least significant first
+	let result = [0];
+	for (let ch of digits) {
+		let carry = parseInt(ch, radix);
+		for (let i = 0; i < result.length; i++) {
+			let value = result[i] * radix + carry;
+			result[i] = value % 10;
+			carry = Math.floor(value / 10);
+		}
+		while (carry > 0) {
+			result.push(carry % 10);
+			carry = Math.floor(carry / 10);
+		}
+	}
+	return result.reverse().join('');
+}
+
+/**
+ * Returns the decimal text of the integer with the TOML text.
+ */
+function getDecimalInteger(text: string): string {
+	text = text.replace(/_/g, '');
+	let radix = { '0x': 16, '0o': 8, '0b': 2 }[text.substr(0, 2)];
+	if (radix) {
+		return toDecimal(text.substr(2), radix);
+	}
+	return text.charAt(0) === '-' ? '-' + text.substr(1) : text.replace(/^\+/, '');
+}
+
+function formatFloat(value: number): string {
+	let text = Object.is(value, -0) ? '-0' : String(value);
+	return /^-?\d+$/.test(text) ? text + '.0' : text;
+}
+
+function isDateTime(type: string): boolean {
+	return type === 'offsetDateTime' || type === 'localDateTime' || type === 'localDate' || type === 'localTime';
+}
+
+function toYAMLString(value: string): string {
+	if (/^[A-Za-z_][A-Za-z0-9_ .\/()-]*$/.test(value) && !/ $/.test(value) && yamlReservedWords.indexOf(value.toLowerCase()) === -1) {
+		return value;
+	}
+	return JSON.stringify(value).replace(/\u007F/g, '\\x7F');
+}
+
+/**
+ * Writes a string, number or boolean of the JSON view of a TOML document as JSON or YAML. The
+ * text is the TOML text the node points into.
+ */
+export function formatScalar(text: string, node: ASTNode, format: DataFormat): string {
+	switch (node.type) {
+		case 'string':
+			if (format === 'json') {
+				return JSON.stringify(node.value);
+			}
+			// the value of a date-time is not quoted in the TOML text
+			return /^["']/.test(text.charAt(node.offset)) ? toYAMLString(node.value) : node.value;
+		case 'number':
+			if (node.isInteger) {
+				return getDecimalInteger(text.substr(node.offset, node.length));
+			}
+			if (isFinite(node.value)) {
+				return formatFloat(node.value);
+			}
+			let name = isNaN(node.value) ? 'nan' : node.value > 0 ? 'inf' : '-inf';
+			return format === 'json' ? JSON.stringify(name) : name.replace(/[a-z]+/, '.$&');
+		case 'boolean':
+			return String(node.value);
+	}
+	return void 0;
+}
+
+/**
+ * Converts the TOML document to JSON or YAML. The document must not have errors, its data is
+ * not reliable otherwise.
+ */
+export function convertTOML(document: TextDocument, tomlDocument: TOMLDocument, format: DataFormat): string | ResponseError<void> {
+	if (tomlDocument.errors.length > 0) {
+		return new ResponseError<void>(ErrorCodes.InvalidRequest, localize('convert.errors', 'Documents with errors can not be converted.'));
+	}
+	let text = document.getText();
+	let eol = getEOL(text);
+
+	let writeJSON = (node: ASTNode, indent: string): string => {
+		let children = node.type === 'object' ? node.properties : node.type === 'array' ? node.items : void 0;
+		if (!children) {
+			return formatScalar(text, node, format);
+		}
+		let [open, close] = node.type === 'object' ? ['{', '}'] : ['[', ']'];
+		if (children.length === 0) {
+			return open + close;
+		}
+		let lines = children.map(child => indent + '  ' + (child.type === 'property' ? JSON.stringify(child.keyNode.value) + ': ' + writeJSON(child.valueNode, indent + '  ') : writeJSON(child, indent + '  ')));
+		return open + eol + lines.join(',' + eol) + eol + indent + close;
+	};
+
+	let isBlock = (node: ASTNode): boolean => node.type === 'object' && node.properties.length > 0 || node.type === 'array' && node.items.length > 0;
+	let writeInline = (node: ASTNode): string => node.type === 'object' ? '{}' : node.type === 'array' ? '[]' : formatScalar(text, node, format);
+
+	let writeYAML = (node: ASTNode, indent: string): string[] => {
+		let lines: string[] = [];
+		if (node.type === 'object') {
+			for (let property of node.properties) {
+				let key = toYAMLString(property.keyNode.value);
+				if (isBlock(property.valueNode)) {
+					lines.push(indent + key + ':', ...writeYAML(property.valueNode, indent + '  '));
+				} else {
+					lines.push(indent + key + ': ' + writeInline(property.valueNode));
+				}
+			}
+		} else if (node.type === 'array') {
+			for (let item of node.items) {
+				if (isBlock(item)) {
+					// the first line of the item follows the dash
+					let itemLines = writeYAML(item, indent + '  ');
+					itemLines[0] = indent + '- ' + itemLines[0].substr(indent.length + 2);
+					lines.push(...itemLines);
+				} else {
+					lines.push(indent + '- ' + writeInline(item));
+				}
+			}
+		}
+		return lines;
+	};
+
+	let root = tomlDocument.jsonRoot;
+	if (format === 'json') {
+		return writeJSON(root, '') + eol;
+	}
+	return isBlock(root) ? writeYAML(root, '').join(eol) + eol : '{}' + eol;
+}
+
+function getChildPath(path: string, key: string | number): string {
+	return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+function nullError(path: string): ResponseError<void> {
+	if (!path) {
+		return new ResponseError<void>(ErrorCodes.InvalidParams, localize('convert.notObject', 'Only objects can be converted to TOML documents.'));
+	}
+	return new ResponseError<void>(ErrorCodes.InvalidParams, localize('convert.null', 'TOML has no null value, "{0}" is null.', path));
+}
+
+/**
+ * Returns the TOML value of a string, a date-time if the string is a TOML date-time.
+ */
+function toTOMLString(value: string): TOMLData {
+	let literal = parseLiteral(value);
+	return literal && isDateTime(literal.type) ? new TOMLLiteral(value) : value;
+}
+
+function readJSON(text: string): TOMLData | ResponseError<void> {
+	let errors: jsonc.ParseError[] = [];
+	let root = jsonc.parseTree(text, errors);
+	if (errors.length > 0 || !root) {
+		let error = errors[0];
+		return new ResponseError<void>(ErrorCodes.InvalidParams, error
+			? localize('convert.invalidJSON', 'The JSON text is not valid: {0} at offset {1}.', jsonc.printParseErrorCode(error.error), error.offset)
+			: localize('convert.emptyJSON', 'The JSON text is empty.'));
+	}
+
+	let read = (node: jsonc.Node, path: string): TOMLData | ResponseError<void> => {
+		switch (node.type) {
+			case 'object': {
+				// without a prototype, so that a `__proto__` key is a key like any other
+				let table: TOMLTable = Object.create(null);
+				for (let property of node.children) {
+					let key = property.children[0].value;
+					let value = read(property.children[1], getChildPath(path, key));
+					if (value instanceof ResponseError) {
+						return value;
+					}
+					table[key] = value;
+				}
+				return table;
+			}
+			case 'array': {
+				let items: TOMLData[] = [];
+				for (let i = 0; i < node.children.length; i++) {
+					let item = read(node.children[i], getChildPath(path, i));
+					if (item instanceof ResponseError) {
+						return item;
+					}
+					items.push(item);
+				}
+				return items;
+			}
+			case 'string':
+				return toTOMLString(node.value);
+			case 'number':
+				// the JSON text keeps all digits of large integers, and JSON numbers are valid TOML numbers
+				return new TOMLLiteral(text.substr(node.offset, node.length));
+			case 'boolean':
+				return node.value;
+		}
+		return nullError(path);
+	};
+	return read(root, '');
+}
+
+function readYAML(text: string): TOMLData | ResponseError<void> {
+	let document = YAML.parseDocument(text);
+	if (document.errors.length > 0) {
+		return new ResponseError<void>(ErrorCodes.InvalidParams, localize('convert.invalidYAML', 'The YAML text is not valid: {0}', document.errors[0].message));
+	}
+
+	let read = (node: any, path: string): TOMLData | ResponseError<void> => {
+		if (node instanceof Alias) {
+			return read(node.source, path);
+		}
+		if (node instanceof YAMLMap) {
+			let table: TOMLTable = Object.create(null);
+			for (let pair of node.items) {
+				let key = pair.key instanceof Scalar ? pair.key.value : pair.key;
+				if (key === null || typeof key === 'object') {
+					return new ResponseError<void>(ErrorCodes.InvalidParams, localize('convert.complexKey', 'TOML keys are strings, "{0}" has a key that is not a string.', path));
+				}
+				let value = read(pair.value, getChildPath(path, String(key)));
+				if (value instanceof ResponseError) {
+					return value;
+				}
+				table[String(key)] = value;
+			}
+			return table;
+		}
+		if (node instanceof YAMLSeq) {
+			let items: TOMLData[] = [];
+			for (let i = 0; i < node.items.length; i++) {
+				let item = read(node.items[i], getChildPath(path, i));
+				if (item instanceof ResponseError) {
+					return item;
+				}
+				items.push(item);
+			}
+			return items;
+		}
+		if (node instanceof Scalar) {
+			let value = node.value;
+			if (typeof value === 'string') {
+				// quoted scalars stay strings
+				return node.type === Type.PLAIN ? toTOMLString(value) : value;
+			}
+			if (typeof value === 'boolean') {
+				return value;
+			}
+			if (typeof value === 'number') {
+				// integers are taken from the text, they may not fit into a number
+				let image = node.range ? text.substring(node.range[0], node.range[1]) : '';
+				if (/^[-+]?[0-9]+$/.test(image)) {
+					return new TOMLLiteral(image.replace(/^\+/, '').replace(/^(-?)0+(?=\d)/, '$1'));
+				}
+				if (/^0o[0-7]+$|^0x[0-9A-Fa-f]+$/.test(image)) {
+					return new TOMLLiteral(image);
+				}
+				return new TOMLLiteral(isFinite(value) ? formatFloat(value) : isNaN(value) ? 'nan' : value > 0 ? 'inf' : '-inf');
+			}
+		}
+		return nullError(path);
+	};
+	return read(document.contents, '');
+}
+
+/**
+ * Converts a JSON or YAML text to a TOML document. The text must describe an object.
+ */
+export function convertToTOML(text: string, format: DataFormat): string | ResponseError<void> {
+	let data = format === 'json' ? readJSON(text) : readYAML(text);
+	if (data instanceof ResponseError) {
+		return data;
+	}
+	if (!data || typeof data !== 'object' || Array.isArray(data) || data instanceof TOMLLiteral) {
+		return new ResponseError<void>(ErrorCodes.InvalidParams, localize('convert.notObject', 'Only objects can be converted to TOML documents.'));
+	}
+	let result = toTOML(data, getEOL(text));
+	// values TOML can't hold, like integers beyond 64 bit, make the result invalid
+	let error = parse(result).errors[0];
+	if (error) {
+		return new ResponseError<void>(ErrorCodes.InvalidParams, localize('convert.invalidTOML', 'The data can not be written as TOML: {0}', error.message));
+	}
+	return result;
+}
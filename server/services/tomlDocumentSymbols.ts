@@ -0,0 +1,230 @@
+'use strict';
+
+import { SymbolInformation, DocumentSymbol, SymbolKind, Range, Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TableNode, ArrayOfTablesNode, KeyValueNode, KeySegmentNode, ValueNode, EntryNode } from '../parser/tomlNodes';
+
+/**
+ * A symbol of the outline. The outline follows the structure of the TOML data, not the
+ * order of the document: `[a.b]` shows up as child of `a`, even if `a` is never declared.
+ */
+interface OutlineEntry {
+	name: string;
+	kind: SymbolKind;
+	detail?: string;
+	offset: number;
+	end: number;
+	selectionOffset: number;
+	selectionEnd: number;
+	children: OutlineEntry[];
+	/**
+	 * Set for `[[array.of.tables]]`, the children are the elements of the array.
+	 */
+	isArrayOfTables?: boolean;
+}
+
+function getValueKind(value: ValueNode): SymbolKind {
+	switch (value.type) {
+		case 'string': return SymbolKind.String;
+		case 'integer':
+		case 'float': return SymbolKind.Number;
+		case 'boolean': return SymbolKind.Boolean;
+		case 'dateTime': return SymbolKind.Constant;
+		case 'array': return SymbolKind.Array;
+		case 'inlineTable': return SymbolKind.Object;
+	}
+	return SymbolKind.Variable;
+}
+
+function createEntry(name: string, kind: SymbolKind, offset: number, end: number, segment: { offset: number, length: number }): OutlineEntry {
+	return {
+		name,
+		kind,
+		offset,
+		end,
+		selectionOffset: segment.offset,
+		selectionEnd: segment.offset + segment.length,
+		children: []
+	};
+}
+
+function include(entry: OutlineEntry, offset: number, end: number): void {
+	entry.offset = Math.min(entry.offset, offset);
+	entry.end = Math.max(entry.end, end);
+}
+
+function findEntry(entries: OutlineEntry[], name: string): OutlineEntry {
+	for (let i = entries.length - 1; i >= 0; i--) {
+		if (entries[i].name === name) {
+			return entries[i];
+		}
+	}
+	return void 0;
+}
+
+/**
+ * Returns the entries that keys below the given entry are added to. Keys below an array
+ * of tables belong to its last element.
+ */
+function getChildEntries(entry: OutlineEntry): OutlineEntry[] {
+	if (entry.isArrayOfTables && entry.children.length > 0) {
+		return entry.children[entry.children.length - 1].children;
+	}
+	return entry.children;
+}
+
+/**
+ * Walks the dotted key up to the last segment, the tables implied by the segments are created on the way.
+ */
+function getParentEntries(entries: OutlineEntry[], segments: KeySegmentNode[], offset: number, end: number): OutlineEntry[] {
+	for (let i = 0; i < segments.length - 1; i++) {
+		let entry = findEntry(entries, segments[i].value);
+		if (!entry) {
+			entry = createEntry(segments[i].value, SymbolKind.Object, offset, end, segments[i]);
+			entries.push(entry);
+		}
+		entries = getChildEntries(entry);
+	}
+	return entries;
+}
+
+function addValueChildren(entry: OutlineEntry, value: ValueNode): void {
+	if (value.type === 'inlineTable') {
+		value.entries.forEach(keyValue => addKeyValue(entry.children, keyValue));
+	} else if (value.type === 'array') {
+		// only list the items with a structure, the outline would be flooded by the scalars
+		value.items.forEach((item, index) => {
+			if (item.type === 'inlineTable' || item.type === 'array') {
+				let child = createEntry(String(index), getValueKind(item), item.offset, item.offset + item.length, item);
+				addValueChildren(child, item);
+				entry.children.push(child);
+			}
+		});
+	}
+}
+
+function addKeyValue(entries: OutlineEntry[], keyValue: KeyValueNode): void {
+	let segments = keyValue.key.segments;
+	if (segments.length === 0 || !keyValue.value) {
+		return;
+	}
+	let end = keyValue.offset + keyValue.length;
+	entries = getParentEntries(entries, segments, keyValue.offset, end);
+	let last = segments[segments.length - 1];
+	let entry = createEntry(last.value, getValueKind(keyValue.value), keyValue.offset, end, last);
+	addValueChildren(entry, keyValue.value);
+	entries.push(entry);
+}
+
+function addBody(entries: OutlineEntry[], body: EntryNode[]): void {
+	body.forEach(entry => {
+		if (entry.type === 'keyValue') {
+			addKeyValue(entries, entry);
+		}
+	});
+}
+
+/**
+ * The `name` of an array of tables element, shown as detail to tell the elements apart.
+ */
+function getElementDetail(table: ArrayOfTablesNode): string {
+	for (let entry of table.body) {
+		if (entry.type === 'keyValue' && entry.key.segments.length === 1 && entry.key.segments[0].value === 'name' && entry.value && entry.value.type === 'string') {
+			return entry.value.value;
+		}
+	}
+	return void 0;
+}
+
+function addTable(entries: OutlineEntry[], table: TableNode | ArrayOfTablesNode): void {
+	let segments = table.key.segments;
+	if (segments.length === 0) {
+		return;
+	}
+	let end = table.offset + table.length;
+	entries = getParentEntries(entries, segments, table.offset, end);
+	let last = segments[segments.length - 1];
+	let entry = findEntry(entries, last.value);
+	if (table.type === 'table') {
+		if (entry) {
+			include(entry, table.offset, end);
+		} else {
+			entry = createEntry(last.value, SymbolKind.Object, table.offset, end, last);
+			entries.push(entry);
+		}
+		addBody(getChildEntries(entry), table.body);
+	} else {
+		if (entry && entry.isArrayOfTables) {
+			include(entry, table.offset, end);
+		} else {
+			entry = createEntry(last.value, SymbolKind.Array, table.offset, end, last);
+			entry.isArrayOfTables = true;
+			entries.push(entry);
+		}
+		let element = createEntry(String(entry.children.length), SymbolKind.Object, table.offset, end, last);
+		element.detail = getElementDetail(table);
+		entry.children.push(element);
+		addBody(element.children, table.body);
+	}
+}
+
+/**
+ * Grows the entries so that they span their children, an implicit table
+ * like `a` of `[a.b]` only gets a range from its children.
+ */
+function includeChildren(entries: OutlineEntry[]): void {
+	entries.forEach(entry => {
+		includeChildren(entry.children);
+		entry.children.forEach(child => include(entry, child.offset, child.end));
+	});
+}
+
+function getOutline(tomlDocument: TOMLDocument): OutlineEntry[] {
+	let root = tomlDocument.root;
+	let entries: OutlineEntry[] = [];
+	addBody(entries, root.body);
+	root.tables.forEach(table => addTable(entries, table));
+	includeChildren(entries);
+	return entries;
+}
+
+function getName(entry: OutlineEntry): string {
+	// the client rejects symbols without a name, `"" = 1` is a valid key though
+	return entry.name.length > 0 ? entry.name : '""';
+}
+
+function getRange(document: TextDocument, offset: number, end: number): Range {
+	return Range.create(document.positionAt(offset), document.positionAt(end));
+}
+
+/**
+ * Returns the tables, arrays of tables and keys of the document as a flat list. The
+ * symbols refer to their parent table by the container name.
+ */
+export function findDocumentSymbols(document: TextDocument, tomlDocument: TOMLDocument): SymbolInformation[] {
+	let result: SymbolInformation[] = [];
+	let collect = (entries: OutlineEntry[], containerName: string) => {
+		entries.forEach(entry => {
+			let name = getName(entry);
+			let location = Location.create(document.uri, getRange(document, entry.offset, entry.end));
+			result.push({ name, kind: entry.kind, location, containerName });
+			collect(entry.children, name);
+		});
+	};
+	collect(getOutline(tomlDocument), void 0);
+	return result;
+}
+
+/**
+ * Returns the tables, arrays of tables and keys of the document as a tree. Every
+ * element of an array of tables is a symbol of its own.
+ */
+export function findDocumentSymbols2(document: TextDocument, tomlDocument: TOMLDocument): DocumentSymbol[] {
+	let toDocumentSymbol = (entry: OutlineEntry): DocumentSymbol => {
+		let range = getRange(document, entry.offset, entry.end);
+		let selectionRange = getRange(document, entry.selectionOffset, entry.selectionEnd);
+		return DocumentSymbol.create(getName(entry), entry.detail, entry.kind, range, selectionRange, entry.children.map(toDocumentSymbol));
+	};
+	return getOutline(tomlDocument).map(toDocumentSymbol);
+}
@@ -0,0 +1,99 @@
+'use strict';
+
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TableNode, ArrayOfTablesNode } from '../parser/tomlNodes';
+
+export interface FoldingSettings {
+	/**
+	 * Folds the sub-tables of a table, like `[a.b]` below `[a]`, together with the table.
+	 */
+	hierarchical?: boolean;
+}
+
+export const defaultFoldingSettings: FoldingSettings = {
+	hierarchical: false
+};
+
+function isSubTable(table: TableNode | ArrayOfTablesNode, parent: TableNode | ArrayOfTablesNode): boolean {
+	let segments = table.key.segments;
+	let parentSegments = parent.key.segments;
+	return segments.length > parentSegments.length && parentSegments.every((segment, index) => segments[index].value === segment.value);
+}
+
+/**
+ * Returns the folding ranges of the tables, the multi-line arrays, inline tables and strings,
+ * and the runs of comment lines. A table folds up to the comments directly above the next
+ * header, they belong to that header.
+ */
+export function getFoldingRanges(document: TextDocument, tomlDocument: TOMLDocument, settings: FoldingSettings, rangeLimit?: number): FoldingRange[] {
+	let text = document.getText();
+	let ranges: FoldingRange[] = [];
+
+	let getLine = (offset: number): number => document.positionAt(offset).line;
+	let getLineText = (line: number): string => text.substring(document.offsetAt({ line, character: 0 }), document.offsetAt({ line: line + 1, character: 0 }));
+	let isCommentLine = (line: number): boolean => /^[ \t]*#/.test(getLineText(line));
+	let isBlankLine = (line: number): boolean => /^\s*$/.test(getLineText(line));
+
+	let addRange = (startLine: number, endLine: number, kind?: string) => {
+		if (endLine > startLine) {
+			ranges.push(FoldingRange.create(startLine, endLine, void 0, void 0, kind));
+		}
+	};
+
+	let tables = tomlDocument.root.tables;
+	tables.forEach((table, index) => {
+		let next = index + 1;
+		if (settings.hierarchical) {
+			while (next < tables.length && isSubTable(tables[next], table)) {
+				next++;
+			}
+		}
+		let startLine = getLine(table.offset);
+		let endLine = document.lineCount - 1;
+		if (next < tables.length) {
+			endLine = getLine(tables[next].offset) - 1;
+			while (endLine > startLine && isCommentLine(endLine)) {
+				endLine--;
+			}
+		}
+		while (endLine > startLine && isBlankLine(endLine)) {
+			endLine--;
+		}
+		addRange(startLine, endLine);
+	});
+
+	tomlDocument.visit(node => {
+		if (node.type === 'array' || node.type === 'inlineTable') {
+			let endLine = getLine(node.offset + node.length - 1);
+			// the closing bracket stays visible when it starts its line
+			if (/^[ \t]*[\]}]/.test(getLineText(endLine))) {
+				endLine--;
+			}
+			addRange(getLine(node.offset), endLine);
+		} else if (node.type === 'string' && (node.style === 'multilineBasic' || node.style === 'multilineLiteral')) {
+			addRange(getLine(node.offset), getLine(node.offset + node.length));
+		}
+		return true;
+	});
+
+	let commentStart = -2;
+	let commentEnd = -2;
+	for (let comment of tomlDocument.comments) {
+		let line = getLine(comment.offset);
+		if (!isCommentLine(line)) {
+			continue;
+		}
+		if (line !== commentEnd + 1) {
+			addRange(commentStart, commentEnd, FoldingRangeKind.Comment);
+			commentStart = line;
+		}
+		commentEnd = line;
+	}
+	addRange(commentStart, commentEnd, FoldingRangeKind.Comment);
+
+	// the editor folds one range per line, the outer range of values that start on the same line
+	ranges = ranges.sort((a, b) => a.startLine - b.startLine).filter((range, index) => index === 0 || ranges[index - 1].startLine !== range.startLine);
+	return rangeLimit !== void 0 && ranges.length > rangeLimit ? ranges.slice(0, rangeLimit) : ranges;
+}
@@ -0,0 +1,413 @@
+'use strict';
+
+import { TextEdit, Range, Position, FormattingOptions } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TOMLNode, TableNode, ArrayOfTablesNode, KeyValueNode, KeyNode, KeySegmentNode, ValueNode, StringNode, ArrayNode, InlineTableNode, EntryNode } from '../parser/tomlNodes';
+import { toBasicString } from './tomlSerializer';
+
+export type QuoteStyle = 'preserve' | 'double' | 'single';
+
+export interface FormatSettings {
+	enable?: boolean;
+	/**
+	 * Pads the keys of consecutive lines so that their `=` signs line up.
+	 */
+	alignEquals?: boolean;
+	/**
+	 * Indents a table by one level for every parent table that is declared in the document.
+	 */
+	indentTables?: boolean;
+	/**
+	 * Puts arrays that exceed the column width on multiple lines and arrays that fit on a single line.
+	 */
+	reflowArrays?: boolean;
+	columnWidth?: number;
+	trimTrailingWhitespace?: boolean;
+	/**
+	 * Separates a table header, including the comments directly above it, by exactly one blank line.
+	 */
+	blankLineBetweenTables?: boolean;
+	quoteStyle?: QuoteStyle;
+}
+
+export const defaultFormatSettings: FormatSettings = {
+	enable: true,
+	alignEquals: false,
+	indentTables: false,
+	reflowArrays: true,
+	columnWidth: 80,
+	trimTrailingWhitespace: true,
+	blankLineBetweenTables: true,
+	quoteStyle: 'preserve'
+};
+
+interface Region {
+	offset: number;
+	end: number;
+}
+
+interface Edit {
+	offset: number;
+	length: number;
+	content: string;
+	/**
+	 * The text area that was formatted, the edit only covers the part of it that changed.
+	 */
+	region: Region;
+}
+
+function intersects(a: Region, b: Region): boolean {
+	return a.offset < b.end && b.offset < a.end || a.offset === b.offset;
+}
+
+function isMultilineString(node: TOMLNode): boolean {
+	return node.type === 'string' && (node.style === 'multilineBasic' || node.style === 'multilineLiteral');
+}
+
+function containsMultilineString(node: TOMLNode): boolean {
+	return isMultilineString(node) || node.children.some(containsMultilineString);
+}
+
+function canBeLiteralString(value: string): boolean {
+	// literal strings have no escapes, so they can not contain the quote or control characters
+	return !/['\u0000-\u0008\u000A-\u001F\u007F]/.test(value);
+}
+
+/**
+ * Computes the edits that format the document, or the lines of the given range. The lines
+ * of syntax errors are never changed, entries of a broken document are formatted nonetheless.
+ */
+export function format(document: TextDocument, tomlDocument: TOMLDocument, range: Range, options: FormattingOptions, settings: FormatSettings): TextEdit[] {
+	let text = document.getText();
+	let eol = text.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+	let indentUnit = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+
+	let edits: Edit[] = [];
+	// the text areas that have been formatted as a whole
+	let covered: Region[] = [];
+
+	function lineStart(offset: number): number {
+		while (offset > 0 && text.charAt(offset - 1) !== '\n') {
+			offset--;
+		}
+		return offset;
+	}
+
+	function lineEnd(offset: number): number {
+		while (offset < text.length && text.charAt(offset) !== '\n') {
+			offset++;
+		}
+		return offset > 0 && text.charAt(offset - 1) === '\r' ? offset - 1 : offset;
+	}
+
+	function previousLineStart(offset: number): number {
+		return offset === 0 ? -1 : lineStart(offset - 1);
+	}
+
+	function lineText(offset: number): string {
+		return text.substring(offset, lineEnd(offset));
+	}
+
+	function getText(node: TOMLNode): string {
+		return text.substr(node.offset, node.length);
+	}
+
+	function getWidth(value: string): number {
+		let width = 0;
+		for (let i = value.lastIndexOf('\n') + 1; i < value.length; i++) {
+			width += value.charAt(i) === '\t' ? options.tabSize : 1;
+		}
+		return width;
+	}
+
+	function addEdit(offset: number, end: number, content: string): void {
+		let region = { offset, end };
+		covered.push(region);
+		let original = text.substring(offset, end);
+		if (original === content) {
+			return;
+		}
+		// only replace the part that changed
+		let originalEnd = original.length;
+		let contentEnd = content.length;
+		while (originalEnd > 0 && contentEnd > 0 && original.charAt(originalEnd - 1) === content.charAt(contentEnd - 1)) {
+			originalEnd--;
+			contentEnd--;
+		}
+		let start = 0;
+		while (start < originalEnd && start < contentEnd && original.charAt(start) === content.charAt(start)) {
+			start++;
+		}
+		edits.push({ offset: offset + start, length: originalEnd - start, content: content.substring(start, contentEnd), region });
+	}
+
+	function hasComment(node: TOMLNode): boolean {
+		let end = node.offset + node.length;
+		return tomlDocument.comments.some(comment => comment.offset > node.offset && comment.offset < end);
+	}
+
+	function trimLines(value: string): string {
+		return settings.trimTrailingWhitespace ? value.replace(/[ \t]+(?=\r?\n)/g, '') : value;
+	}
+
+	function formatString(node: StringNode): string {
+		let value = getText(node);
+		if (settings.quoteStyle === 'double' && node.style === 'literal') {
+			return toBasicString(node.value);
+		}
+		if (settings.quoteStyle === 'single' && node.style === 'basic' && canBeLiteralString(node.value)) {
+			return '\'' + node.value + '\'';
+		}
+		return value;
+	}
+
+	function formatKeySegment(segment: KeySegmentNode): string {
+		if (settings.quoteStyle === 'double' && segment.style === 'literal') {
+			return toBasicString(segment.value);
+		}
+		if (settings.quoteStyle === 'single' && segment.style === 'basic' && canBeLiteralString(segment.value)) {
+			return '\'' + segment.value + '\'';
+		}
+		return text.substr(segment.offset, segment.length);
+	}
+
+	function formatKey(key: KeyNode): string {
+		return key.segments.map(formatKeySegment).join('.');
+	}
+
+	function formatInlineTable(node: InlineTableNode, indent: string): string {
+		if (node.entries.length === 0) {
+			return '{}';
+		}
+		// inline tables have to stay on one line
+		let entries = node.entries.map(entry => formatKey(entry.key) + ' = ' + formatValue(entry.value, indent, 0, false));
+		return '{ ' + entries.join(', ') + ' }';
+	}
+
+	function formatArray(node: ArrayNode, indent: string, column: number, canExpand: boolean): string {
+		let original = getText(node);
+		if (hasComment(node) || containsMultilineString(node)) {
+			// the layout of the array is kept, moving its comments around would change their meaning
+			return containsMultilineString(node) ? original : trimLines(original);
+		}
+		let isMultiline = original.indexOf('\n') !== -1;
+		if (isMultiline && !settings.reflowArrays) {
+			return trimLines(original);
+		}
+		let collapsed = '[' + node.items.map(item => formatValue(item, indent, 0, false)).join(', ') + ']';
+		if (!settings.reflowArrays || !canExpand || node.items.length === 0) {
+			return collapsed;
+		}
+		if (collapsed.indexOf('\n') === -1 && column + getWidth(collapsed) <= settings.columnWidth) {
+			return collapsed;
+		}
+		let itemIndent = indent + indentUnit;
+		let items = node.items.map(item => itemIndent + formatValue(item, itemIndent, getWidth(itemIndent), true) + ',');
+		return '[' + eol + items.join(eol) + eol + indent + ']';
+	}
+
+	function formatValue(node: ValueNode, indent: string, column: number, canExpand: boolean): string {
+		switch (node.type) {
+			case 'string':
+				return formatString(node);
+			case 'array':
+				return formatArray(node, indent, column, canExpand);
+			case 'inlineTable':
+				return formatInlineTable(node, indent);
+		}
+		return getText(node);
+	}
+
+	// replaces the whitespace between the start of the line and the node, returns false if the node does not start the line
+	function formatIndent(node: TOMLNode, indent: string): boolean {
+		let start = lineStart(node.offset);
+		if (!/^[ \t]*$/.test(text.substring(start, node.offset))) {
+			return false;
+		}
+		addEdit(start, node.offset, indent);
+		return true;
+	}
+
+	function formatHeader(table: TableNode | ArrayOfTablesNode, indent: string): void {
+		let start = lineStart(table.offset);
+		let key = formatKey(table.key);
+		let header = table.type === 'table' ? '[' + key + ']' : '[[' + key + ']]';
+		addEdit(start, table.offset + table.headerLength, indent + header);
+	}
+
+	function formatBody(body: EntryNode[], indent: string, commentIndents: Map<TOMLNode, string>): void {
+		let keyValues = body.filter(entry => entry.type === 'keyValue') as KeyValueNode[];
+		let keyWidths = new Map<KeyValueNode, number>();
+		if (settings.alignEquals) {
+			// key/value pairs on consecutive lines form a group
+			let group: KeyValueNode[] = [];
+			let alignGroup = () => {
+				let width = Math.max(...group.map(entry => formatKey(entry.key).length));
+				group.forEach(entry => keyWidths.set(entry, width));
+				group = [];
+			};
+			let previousEnd = -1;
+			for (let entry of keyValues) {
+				if (group.length > 0 && document.positionAt(entry.offset).line !== document.positionAt(previousEnd).line + 1) {
+					alignGroup();
+				}
+				group.push(entry);
+				previousEnd = entry.offset + entry.length;
+			}
+			if (group.length > 0) {
+				alignGroup();
+			}
+		}
+
+		for (let entry of body) {
+			if (entry.type === 'comment') {
+				if (!formatIndent(entry, commentIndents.has(entry) ? commentIndents.get(entry) : indent) && !/[ \t]/.test(text.charAt(entry.offset - 1))) {
+					// a comment behind an entry is separated by at least one space
+					addEdit(entry.offset, entry.offset, ' ');
+				}
+				continue;
+			}
+			let start = lineStart(entry.offset);
+			if (!/^[ \t]*$/.test(text.substring(start, entry.offset))) {
+				continue;
+			}
+			let key = formatKey(entry.key);
+			if (keyWidths.has(entry)) {
+				key += ' '.repeat(keyWidths.get(entry) - key.length);
+			}
+			let prefix = indent + key + ' = ';
+			addEdit(start, entry.offset + entry.length, prefix + formatValue(entry.value, indent, getWidth(prefix), true));
+		}
+	}
+
+	function getTableIndent(table: TableNode | ArrayOfTablesNode, declared: Set<string>): string {
+		if (!settings.indentTables) {
+			return '';
+		}
+		let level = 0;
+		let segments = table.key.segments.map(segment => segment.value);
+		for (let i = 1; i < segments.length; i++) {
+			if (declared.has(JSON.stringify(segments.slice(0, i)))) {
+				level++;
+			}
+		}
+		return indentUnit.repeat(level);
+	}
+
+	// the comments directly above a header belong to the header, they share its indentation and blank line
+	function formatTableSeparation(table: TableNode | ArrayOfTablesNode, indent: string, commentIndents: Map<TOMLNode, string>): void {
+		let blockStart = lineStart(table.offset);
+		let previous = previousLineStart(blockStart);
+		while (previous >= 0 && /^[ \t]*#/.test(lineText(previous))) {
+			blockStart = previous;
+			previous = previousLineStart(blockStart);
+		}
+		for (let comment of tomlDocument.comments) {
+			if (comment.offset >= blockStart && comment.offset < table.offset) {
+				commentIndents.set(comment, indent);
+			}
+		}
+		if (!settings.blankLineBetweenTables) {
+			return;
+		}
+		while (previous >= 0 && /^[ \t]*$/.test(lineText(previous))) {
+			previous = previousLineStart(previous);
+		}
+		if (previous >= 0) {
+			addEdit(lineEnd(previous), blockStart, eol + eol);
+		}
+	}
+
+	let root = tomlDocument.root;
+	let declared = new Set<string>();
+	root.tables.forEach(table => declared.add(JSON.stringify(table.key.segments.map(segment => segment.value))));
+
+	let commentIndents = new Map<TOMLNode, string>();
+	let indents = root.tables.map(table => getTableIndent(table, declared));
+	root.tables.forEach((table, i) => formatTableSeparation(table, indents[i], commentIndents));
+
+	formatBody(root.body, '', commentIndents);
+	root.tables.forEach((table, i) => {
+		formatHeader(table, indents[i]);
+		formatBody(table.body, indents[i], commentIndents);
+	});
+
+	if (settings.trimTrailingWhitespace) {
+		let start = 0;
+		while (start <= text.length) {
+			let end = lineEnd(start);
+			let trimStart = end;
+			while (trimStart > start && /[ \t]/.test(text.charAt(trimStart - 1))) {
+				trimStart--;
+			}
+			if (trimStart < end && !covered.some(region => trimStart >= region.offset && trimStart < region.end)) {
+				let node = tomlDocument.getNodeFromOffset(trimStart);
+				if (!node || node.type !== 'string') {
+					addEdit(trimStart, end, '');
+				}
+			}
+			let next = text.indexOf('\n', end);
+			if (next === -1) {
+				break;
+			}
+			start = next + 1;
+		}
+	}
+
+	// lines with syntax errors are left alone
+	let blocked: Region[] = tomlDocument.syntaxErrors.map(error => {
+		let tokens = [error.token].concat(error.resyncedTokens);
+		let offset = Math.min(...tokens.map(token => token.offset));
+		let end = Math.max(...tokens.map(token => token.offset + token.length));
+		return { offset: lineStart(offset), end: lineEnd(end) };
+	});
+	let formatRange: Region = { offset: 0, end: text.length };
+	if (range) {
+		let end = range.end;
+		if (end.character === 0 && end.line > range.start.line) {
+			// a selection of whole lines ends at the start of the next line
+			end = Position.create(end.line - 1, 0);
+		}
+		formatRange = { offset: lineStart(document.offsetAt(range.start)), end: lineEnd(document.offsetAt(Position.create(end.line, 0))) };
+	}
+
+	return edits
+		.filter(edit => edit.region.offset >= formatRange.offset && edit.region.end <= formatRange.end)
+		.filter(edit => !blocked.some(region => intersects(region, edit.region)))
+		.sort((a, b) => a.offset - b.offset)
+		.map(edit => TextEdit.replace(Range.create(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length)), edit.content));
+}
+
+/**
+ * Formats the entry that was completed by typing the given character: the line above a
+ * new line, or the table header or array closed by `]`.
+ */
+export function formatOnType(document: TextDocument, tomlDocument: TOMLDocument, position: Position, ch: string, options: FormattingOptions, settings: FormatSettings): TextEdit[] {
+	let line = ch === '\n' ? position.line - 1 : position.line;
+	if (line < 0) {
+		return [];
+	}
+	let start = document.offsetAt(Position.create(line, 0));
+	let text = document.getText();
+	let end = document.offsetAt(Position.create(line + 1, 0));
+	while (end > start && (text.charAt(end - 1) === '\n' || text.charAt(end - 1) === '\r')) {
+		end--;
+	}
+	let offset = ch === '\n' ? end : document.offsetAt(position);
+	while (offset > start && /\s/.test(text.charAt(offset - 1))) {
+		offset--;
+	}
+	// an entry can span several lines, e.g. a multi-line array
+	let node = tomlDocument.getNodeFromOffset(offset, true);
+	while (node && node.type !== 'table' && node.type !== 'arrayOfTables' && !(node.type === 'keyValue' && node.parent.type !== 'inlineTable')) {
+		node = node.parent;
+	}
+	if (node && node.type === 'keyValue') {
+		start = Math.min(start, node.offset);
+		end = Math.max(end, node.offset + node.length);
+	} else if (node && (node.type === 'table' || node.type === 'arrayOfTables') && offset <= node.offset + node.headerLength) {
+		start = Math.min(start, node.offset);
+	}
+	return format(document, tomlDocument, Range.create(document.positionAt(start), document.positionAt(end)), options, settings);
+}
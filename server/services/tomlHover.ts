@@ -0,0 +1,144 @@
+'use strict';
+
+import { Hover, MarkupKind, Range, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { JSONSchema } from 'vscode-json-languageservice';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TOMLNode } from '../parser/tomlNodes';
+import { getSchemasAtPath, getNodePath, getTypeLabel, toTOMLValue } from './tomlSchema';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+function isScalar(node: TOMLNode): boolean {
+	switch (node.type) {
+		case 'string':
+		case 'integer':
+		case 'float':
+		case 'boolean':
+		case 'dateTime':
+			return true;
+	}
+	return false;
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replace(/[\\*_\[\]<>]/g, '\\$&').replace(/\n/g, '\n\n');
+}
+
+function getDescription(schemas: JSONSchema[]): string {
+	for (let schema of schemas) {
+		if (schema.markdownDescription) {
+			return schema.markdownDescription;
+		}
+		if (schema.description) {
+			return escapeMarkdown(schema.description);
+		}
+	}
+	return void 0;
+}
+
+/**
+ * The description of the enum entry that equals the value.
+ */
+function getEnumDescription(schemas: JSONSchema[], value: any): string {
+	let json = JSON.stringify(value);
+	for (let schema of schemas) {
+		let index = (schema.enum || []).map(entry => JSON.stringify(entry)).indexOf(json);
+		if (index !== -1) {
+			if (schema.markdownEnumDescriptions && schema.markdownEnumDescriptions[index]) {
+				return schema.markdownEnumDescriptions[index];
+			}
+			if (schema.enumDescriptions && schema.enumDescriptions[index]) {
+				return escapeMarkdown(schema.enumDescriptions[index]);
+			}
+		}
+	}
+	return void 0;
+}
+
+function getAllowedValues(schemas: JSONSchema[]): string[] {
+	let result: string[] = [];
+	schemas.forEach(schema => (schema.enum || []).forEach(entry => {
+		let value = toTOMLValue(entry);
+		if (value !== void 0 && result.indexOf(value) === -1) {
+			result.push(value);
+		}
+	}));
+	return result;
+}
+
+function getDefaultValue(schemas: JSONSchema[]): string {
+	for (let schema of schemas) {
+		let value = toTOMLValue(schema.default);
+		if (value !== void 0) {
+			return value;
+		}
+	}
+	return void 0;
+}
+
+/**
+ * Describes the key, table header segment or value at the position with the schemas associated
+ * with the document: the title and description, the type, the default and the allowed values.
+ */
+export function doHover(document: TextDocument, position: Position, tomlDocument: TOMLDocument, schemas: JSONSchema[]): Hover {
+	if (schemas.length === 0) {
+		return null;
+	}
+	let node = tomlDocument.getNodeFromOffset(document.offsetAt(position));
+	if (!node || node.type !== 'keySegment' && node.type !== 'array' && node.type !== 'inlineTable' && !isScalar(node)) {
+		return null;
+	}
+	// keys that conflict with earlier definitions are not part of the JSON view
+	let jsonNode = tomlDocument.getJSONNode(node);
+	if (!jsonNode) {
+		return null;
+	}
+	let schemasAtPath = getSchemasAtPath(schemas, getNodePath(jsonNode));
+	if (schemasAtPath.length === 0) {
+		return null;
+	}
+
+	let paragraphs: string[] = [];
+	let title = schemasAtPath.filter(schema => !!schema.title).map(schema => schema.title)[0];
+	if (title) {
+		paragraphs.push('**' + escapeMarkdown(title) + '**');
+	}
+	let description = getDescription(schemasAtPath);
+	if (description) {
+		paragraphs.push(description);
+	}
+	if (isScalar(node) && jsonNode.type !== 'property') {
+		let enumDescription = getEnumDescription(schemasAtPath, jsonNode.value);
+		if (enumDescription) {
+			paragraphs.push('`' + toTOMLValue(jsonNode.value) + '`: ' + enumDescription);
+		}
+	}
+
+	let facts: string[] = [];
+	let type = getTypeLabel(schemasAtPath);
+	if (type) {
+		facts.push(localize('hover.type', 'Type: {0}', '`' + type + '`'));
+	}
+	let defaultValue = getDefaultValue(schemasAtPath);
+	if (defaultValue !== void 0) {
+		facts.push(localize('hover.default', 'Default: {0}', '`' + defaultValue + '`'));
+	}
+	let allowedValues = getAllowedValues(schemasAtPath);
+	if (allowedValues.length > 0) {
+		facts.push(localize('hover.allowedValues', 'Allowed values: {0}', allowedValues.map(value => '`' + value + '`').join(', ')));
+	}
+	if (facts.length > 0) {
+		// two trailing spaces keep the facts on separate lines
+		paragraphs.push(facts.join('  \n'));
+	}
+
+	if (paragraphs.length === 0) {
+		return null;
+	}
+	return {
+		contents: { kind: MarkupKind.Markdown, value: paragraphs.join('\n\n') },
+		range: Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length))
+	};
+}
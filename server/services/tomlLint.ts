@@ -0,0 +1,248 @@
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument, ParseError, ParseErrorCode } from '../parser/tomlParser';
+import { KeyNode, KeySegmentNode, ValueNode, EntryNode } from '../parser/tomlNodes';
+import { SortSettings, defaultSortSettings, getKeyComparator } from './tomlSort';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+export type LintSeverity = 'error' | 'warning' | 'info' | 'hint' | 'ignore';
+
+export type LintRule = 'duplicateKey' | 'duplicateTable' | 'dottedTableRedefinition' | 'mixedTypeArray' | 'emptyTable' | 'unnecessaryQuotes' | 'keyNaming' | 'unsortedKeys';
+
+/**
+ * `consistent` expects the style of the first key that contains a `_` or a `-`.
+ */
+export type KeyNamingStyle = 'consistent' | 'snake_case' | 'kebab-case';
+
+export interface LintSettings {
+	duplicateKey?: LintSeverity;
+	duplicateTable?: LintSeverity;
+	/**
+	 * A table defined by dotted keys and by a table header, which TOML 1.0 does not allow.
+	 */
+	dottedTableRedefinition?: LintSeverity;
+	/**
+	 * Arrays with items of different types, which TOML before 1.0 does not allow.
+	 */
+	mixedTypeArray?: LintSeverity;
+	emptyTable?: LintSeverity;
+	unnecessaryQuotes?: LintSeverity;
+	keyNaming?: LintSeverity;
+	keyNamingStyle?: KeyNamingStyle;
+	unsortedKeys?: LintSeverity;
+	/**
+	 * The names of the tables whose keys are checked by `unsortedKeys`, like `dependencies`.
+	 * The empty name stands for the top-level keys.
+	 */
+	sortedTables?: string[];
+}
+
+export const defaultLintSettings: LintSettings = {
+	duplicateKey: 'error',
+	duplicateTable: 'error',
+	dottedTableRedefinition: 'error',
+	mixedTypeArray: 'ignore',
+	emptyTable: 'ignore',
+	unnecessaryQuotes: 'ignore',
+	keyNaming: 'ignore',
+	keyNamingStyle: 'consistent',
+	unsortedKeys: 'ignore',
+	sortedTables: []
+};
+
+export const lintSource = 'TOML Lint';
+
+const lintErrorRules: { [code: number]: LintRule } = {
+	[ParseErrorCode.DuplicateKey]: 'duplicateKey',
+	[ParseErrorCode.DuplicateTable]: 'duplicateTable',
+	[ParseErrorCode.DottedTableRedefinition]: 'dottedTableRedefinition'
+};
+
+/**
+ * Returns whether an error of the document is reported by a lint rule instead of the parser.
+ */
+export function isLintError(error: ParseError): boolean {
+	return !!lintErrorRules[error.code];
+}
+
+const disableDirective = /^\s*toml-lint-disable(?:\s+(.*))?$/;
+const bareKey = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * The rules disabled by `# toml-lint-disable [rule...]` comments, by line. A comment after an
+ * entry disables the rules on its own line, a comment on a line of its own on the next line.
+ * Without rule names all rules are disabled.
+ */
+function getDisabledRules(document: TextDocument, tomlDocument: TOMLDocument): { [line: number]: string[] } {
+	let text = document.getText();
+	let result: { [line: number]: string[] } = {};
+	for (let comment of tomlDocument.comments) {
+		let match = disableDirective.exec(comment.value);
+		if (!match) {
+			continue;
+		}
+		let position = document.positionAt(comment.offset);
+		let lineStart = document.offsetAt({ line: position.line, character: 0 });
+		let line = text.substring(lineStart, comment.offset).trim().length > 0 ? position.line : position.line + 1;
+		let rules = match[1] ? match[1].split(/[\s,]+/).filter(rule => rule.length > 0) : [];
+		result[line] = rules.length > 0 && result[line] !== null ? (result[line] || []).concat(rules) : null;
+	}
+	return result;
+}
+
+function toDiagnosticSeverity(severity: LintSeverity): DiagnosticSeverity {
+	switch (severity) {
+		case 'error': return DiagnosticSeverity.Error;
+		case 'warning': return DiagnosticSeverity.Warning;
+		case 'info': return DiagnosticSeverity.Information;
+	}
+	return DiagnosticSeverity.Hint;
+}
+
+function getKeyName(key: KeyNode): string {
+	return key.segments.map(segment => segment.value).join('.');
+}
+
+function getKeySegments(key: KeyNode): string[] {
+	return key.segments.map(segment => segment.value);
+}
+
+function getValueType(value: ValueNode): string {
+	switch (value.type) {
+		case 'dateTime': return value.kind;
+		case 'inlineTable': return 'table';
+	}
+	return value.type;
+}
+
+/**
+ * Returns the naming style of a key, `mixed` when it contains both separators.
+ */
+function getKeyNamingStyle(key: string): KeyNamingStyle | 'mixed' {
+	let snake = key.indexOf('_') !== -1;
+	let kebab = key.indexOf('-') !== -1;
+	if (snake && kebab) {
+		return 'mixed';
+	}
+	return snake ? 'snake_case' : kebab ? 'kebab-case' : void 0;
+}
+
+/**
+ * Checks the parsed document against the lint rules. Rules with the severity `ignore` are skipped.
+ * `unsortedKeys` expects the order the sort commands produce with the sort settings.
+ */
+export function doLint(document: TextDocument, tomlDocument: TOMLDocument, settings: LintSettings, sortSettings: SortSettings = defaultSortSettings): Diagnostic[] {
+	settings = Object.assign({}, defaultLintSettings, settings);
+	let disabledRules = getDisabledRules(document, tomlDocument);
+	let diagnostics: Diagnostic[] = [];
+
+	let isEnabled = (rule: LintRule): boolean => settings[rule] && settings[rule] !== 'ignore';
+
+	let report = (rule: LintRule, offset: number, length: number, message: string): void => {
+		let range = Range.create(document.positionAt(offset), document.positionAt(offset + length));
+		let disabled = disabledRules[range.start.line];
+		if (disabled === null || disabled && disabled.indexOf(rule) !== -1) {
+			return;
+		}
+		diagnostics.push({ severity: toDiagnosticSeverity(<LintSeverity>settings[rule]), range, message, code: rule, source: lintSource });
+	};
+
+	let tables = tomlDocument.root.tables;
+	let segments: KeySegmentNode[] = [];
+	let arrays: ValueNode[] = [];
+	tomlDocument.visit(node => {
+		switch (node.type) {
+			case 'keySegment': segments.push(node); break;
+			case 'array': arrays.push(node); break;
+		}
+		return true;
+	});
+
+	for (let error of tomlDocument.errors) {
+		let rule = lintErrorRules[error.code];
+		if (rule && isEnabled(rule)) {
+			report(rule, error.token.offset, error.token.length, error.message);
+		}
+	}
+
+	if (isEnabled('mixedTypeArray')) {
+		for (let array of arrays) {
+			let items = array.type === 'array' ? array.items : [];
+			let type = items.length > 0 && getValueType(items[0]);
+			for (let item of items) {
+				if (getValueType(item) !== type) {
+					report('mixedTypeArray', item.offset, item.length, localize('lint.mixedTypeArray', 'Array items of different types ({0} and {1}) are only allowed since TOML 1.0', type, getValueType(item)));
+					break;
+				}
+			}
+		}
+	}
+
+	if (isEnabled('emptyTable')) {
+		for (let table of tables) {
+			let node = table.type === 'table' && tomlDocument.getJSONNode(table);
+			if (node && node.type === 'object' && node.properties.length === 0) {
+				report('emptyTable', table.offset, table.headerLength, localize('lint.emptyTable', 'Table "{0}" is empty', getKeyName(table.key)));
+			}
+		}
+	}
+
+	if (isEnabled('unnecessaryQuotes')) {
+		for (let segment of segments) {
+			if (segment.style !== 'bare' && bareKey.test(segment.value)) {
+				report('unnecessaryQuotes', segment.offset, segment.length, localize('lint.unnecessaryQuotes', 'Key "{0}" does not need quotes', segment.value));
+			}
+		}
+	}
+
+	if (isEnabled('keyNaming')) {
+		let expected: KeyNamingStyle | 'mixed' = settings.keyNamingStyle !== 'consistent' ? settings.keyNamingStyle : void 0;
+		// quoted keys are usually data, like the names of packages, and are not checked
+		for (let segment of segments.filter(segment => segment.style === 'bare').sort((a, b) => a.offset - b.offset)) {
+			let style = getKeyNamingStyle(segment.value);
+			if (!style) {
+				continue;
+			}
+			if (!expected && style !== 'mixed') {
+				expected = style;
+			}
+			if (style !== expected) {
+				report('keyNaming', segment.offset, segment.length, localize('lint.keyNaming', 'Key "{0}" is not written in {1}', segment.value, expected || 'snake_case'));
+			}
+		}
+	}
+
+	if (isEnabled('unsortedKeys') && settings.sortedTables) {
+		// the order of the sort commands
+		let checkSorted = (name: string, entries: EntryNode[]) => {
+			let compare = getKeyComparator(name, sortSettings);
+			let previous: KeyNode;
+			for (let entry of entries) {
+				if (entry.type !== 'keyValue') {
+					continue;
+				}
+				let key = entry.key;
+				if (previous && compare(getKeySegments(key), getKeySegments(previous)) < 0) {
+					report('unsortedKeys', key.offset, key.length, localize('lint.unsortedKeys', 'Key "{0}" is not sorted, it belongs before "{1}"', getKeyName(key), getKeyName(previous)));
+				} else {
+					previous = key;
+				}
+			}
+		};
+		if (settings.sortedTables.indexOf('') !== -1) {
+			checkSorted('', tomlDocument.root.body);
+		}
+		for (let table of tables) {
+			let name = getKeyName(table.key);
+			if (settings.sortedTables.indexOf(name) !== -1) {
+				checkSorted(name, table.body);
+			}
+		}
+	}
+
+	return diagnostics.sort((a, b) => document.offsetAt(a.range.start) - document.offsetAt(b.range.start));
+}
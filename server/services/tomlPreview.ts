@@ -0,0 +1,57 @@
+'use strict';
+
+import { Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ASTNode } from 'vscode-json-languageservice';
+import { TOMLDocument } from '../parser/tomlParser';
+import { formatScalar } from './tomlConversion';
+
+export interface PreviewNode {
+	/**
+	 * The key of a property or the index of an array item, `undefined` for the document.
+	 */
+	key?: string | number;
+	type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+	/**
+	 * The JSON text of strings, numbers and booleans.
+	 */
+	value?: string;
+	/**
+	 * The TOML text that defines the node: the key/value pair, the table or the value.
+	 */
+	range: Range;
+	children?: PreviewNode[];
+}
+
+export interface JSONPreview {
+	root: PreviewNode;
+	errors: { message: string, range: Range }[];
+}
+
+/**
+ * Returns the JSON view of the document with the TOML ranges of its nodes. A broken document
+ * shows its valid entries next to the errors.
+ */
+export function getJSONPreview(document: TextDocument, tomlDocument: TOMLDocument): JSONPreview {
+	let text = document.getText();
+	let getRange = (offset: number, length: number) => Range.create(document.positionAt(offset), document.positionAt(offset + length));
+
+	let toPreviewNode = (node: ASTNode, key: string | number, range: Range): PreviewNode => {
+		switch (node.type) {
+			case 'object':
+				return { key, type: 'object', range, children: node.properties.map(property => toPreviewNode(property.valueNode, property.keyNode.value, getRange(property.offset, property.length))) };
+			case 'array':
+				return { key, type: 'array', range, children: node.items.map((item, index) => toPreviewNode(item, index, getRange(item.offset, item.length))) };
+			case 'string':
+			case 'number':
+			case 'boolean':
+				return { key, type: node.type, range, value: formatScalar(text, node, 'json') };
+		}
+		return void 0;
+	};
+
+	return {
+		root: toPreviewNode(tomlDocument.jsonRoot, void 0, getRange(0, text.length)),
+		errors: tomlDocument.errors.map(error => ({ message: error.message, range: getRange(error.token.offset, error.token.length) }))
+	};
+}
@@ -0,0 +1,470 @@
+'use strict';
+
+import { CodeAction, CodeActionKind, TextEdit, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ASTNode } from 'vscode-json-languageservice';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TOMLNode, DocumentNode, TableNode, ArrayOfTablesNode, KeyValueNode, KeySegmentNode, InlineTableNode, EntryNode, CommentNode } from '../parser/tomlNodes';
+import { getEOL, getLineStart, getLineEnd, getNextLineStart, getIndentation } from '../utils/strings';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+/*
+ * A table can be written in three equivalent forms: with a `[table]` header, as inline table
+ * `table = { ... }` and with dotted keys `table.key = ...`. An array of tables can be written
+ * with `[[array]]` headers or as array of inline tables. The refactorings convert between the
+ * forms, the comments are kept on lines of their own where the new form has no place for them.
+ */
+
+type Container = DocumentNode | TableNode | ArrayOfTablesNode;
+
+/**
+ * A key/value pair of the converted table, the key is relative to the table.
+ */
+interface Member {
+	key: string;
+	value: string;
+	/**
+	 * The comments on the lines above the pair.
+	 */
+	comments: string[];
+	/**
+	 * The comment at the end of the line of the pair.
+	 */
+	comment?: string;
+}
+
+interface Section {
+	members: Member[];
+	/**
+	 * The comments after the last pair and the comment of the header line.
+	 */
+	comments: string[];
+}
+
+interface Edit {
+	offset: number;
+	end: number;
+	content: string;
+}
+
+const arrayIndentation = '    ';
+
+function isContainer(node: TOMLNode): node is Container {
+	return node.type === 'document' || node.type === 'table' || node.type === 'arrayOfTables';
+}
+
+function getLastKeyValue(entries: EntryNode[]): KeyValueNode {
+	for (let i = entries.length - 1; i >= 0; i--) {
+		let entry = entries[i];
+		if (entry.type === 'keyValue') {
+			return entry;
+		}
+	}
+	return void 0;
+}
+
+/**
+ * Returns whether the JSON node is the ancestor node or one of its descendants.
+ */
+function isInside(node: ASTNode, ancestor: ASTNode): boolean {
+	while (node) {
+		if (node === ancestor) {
+			return true;
+		}
+		node = node.parent;
+	}
+	return false;
+}
+
+/**
+ * Applies the edits, touching edits are applied in the given order.
+ */
+function applyEdits(text: string, edits: Edit[]): string {
+	let sorted = edits.map((edit, index) => ({ edit, index })).sort((a, b) => a.edit.offset - b.edit.offset || a.edit.end - b.edit.end || a.index - b.index);
+	let result = '';
+	let offset = 0;
+	for (let { edit } of sorted) {
+		result += text.substring(offset, Math.max(offset, edit.offset)) + edit.content;
+		offset = Math.max(offset, edit.end);
+	}
+	return result + text.substring(offset);
+}
+
+/**
+ * Returns the single edit that turns the text into the new text. Moving lines around leaves
+ * blank lines behind, more than one blank line in a row is reduced to one around the change.
+ */
+function getMinimalEdit(text: string, newText: string, eol: string): Edit {
+	let getChange = (): { start: number, end: number, newEnd: number } => {
+		let start = 0;
+		while (start < text.length && start < newText.length && text.charAt(start) === newText.charAt(start)) {
+			start++;
+		}
+		let end = text.length;
+		let newEnd = newText.length;
+		while (end > start && newEnd > start && text.charAt(end - 1) === newText.charAt(newEnd - 1)) {
+			end--;
+			newEnd--;
+		}
+		return { start, end, newEnd };
+	};
+	let change = getChange();
+	newText = newText.replace(/\n(?:[ \t]*\r?\n){2,}/g, (blankLines: string, offset: number) => {
+		return offset <= change.newEnd && offset + blankLines.length >= change.start ? '\n' + eol : blankLines;
+	});
+	if (change.start === 0) {
+		newText = newText.replace(/^(?:[ \t]*\r?\n)+/, '');
+	}
+	newText = newText.replace(/(?:\r?\n)+$/, trailing => trailing.length > eol.length && text.length - change.end <= trailing.length ? eol : trailing);
+	change = getChange();
+	return { offset: change.start, end: change.end, content: newText.substring(change.start, change.newEnd) };
+}
+
+/**
+ * Computes the refactorings of the table, inline table, dotted key or array of tables at the range.
+ */
+export function getRefactorings(document: TextDocument, tomlDocument: TOMLDocument, range: Range): CodeAction[] {
+	if (tomlDocument.errors.length > 0) {
+		// the structure of a broken document is not reliable enough to rewrite it
+		return [];
+	}
+	let text = document.getText();
+	let eol = getEOL(text);
+	let root = tomlDocument.root;
+	let result: CodeAction[] = [];
+
+	let getText = (node: { offset: number, length: number }): string => text.substr(node.offset, node.length);
+
+	let addRefactoring = (title: string, edits: Edit[]): void => {
+		let edit = getMinimalEdit(text, applyEdits(text, edits), eol);
+		let textEdit = TextEdit.replace(Range.create(document.positionAt(edit.offset), document.positionAt(edit.end)), edit.content);
+		result.push(CodeAction.create(title, { changes: { [document.uri]: [textEdit] } }, CodeActionKind.RefactorRewrite));
+	};
+
+	let getTrailingComment = (end: number): CommentNode => {
+		let lineEnd = getLineEnd(text, end);
+		return tomlDocument.comments.filter(comment => comment.offset >= end && comment.offset < lineEnd)[0];
+	};
+
+	// the end of a node including the comment at the end of its line
+	let getEntryEnd = (node: TOMLNode): number => {
+		let end = node.offset + node.length;
+		let comment = getTrailingComment(end);
+		return comment ? comment.offset + comment.length : end;
+	};
+
+	let getHeaderEnd = (table: TableNode | ArrayOfTablesNode): number => {
+		return getEntryEnd({ offset: table.offset, length: table.headerLength } as TOMLNode);
+	};
+
+	// the lines of a table header and its key/value pairs, without the comments after the last pair
+	let getBlockEnd = (table: TableNode | ArrayOfTablesNode): number => {
+		let last = getLastKeyValue(table.body);
+		return getNextLineStart(text, last ? getEntryEnd(last) : getHeaderEnd(table));
+	};
+
+	let removeLines = (offset: number, end: number): Edit => ({ offset: getLineStart(text, offset), end: getNextLineStart(text, end), content: '' });
+
+	// the comments on the lines right above a table header, they describe the table. A comment on
+	// the first line, like a `#:schema` directive, describes the document and stays.
+	let getLeadingComments = (table: TableNode | ArrayOfTablesNode): CommentNode[] => {
+		let comments: CommentNode[] = [];
+		let lineStart = getLineStart(text, table.offset);
+		for (let i = tomlDocument.comments.length - 1; i >= 0 && lineStart > 0; i--) {
+			let comment = tomlDocument.comments[i];
+			if (comment.offset >= lineStart) {
+				continue;
+			}
+			let previousStart = getLineStart(text, lineStart - 1);
+			if (previousStart === 0 || comment.offset + comment.length !== getLineEnd(text, previousStart) || text.substring(previousStart, comment.offset).trim().length > 0) {
+				break;
+			}
+			comments.unshift(comment);
+			lineStart = previousStart;
+		}
+		return comments;
+	};
+
+	let removeBlock = (table: TableNode | ArrayOfTablesNode): Edit => {
+		let comments = getLeadingComments(table);
+		return { offset: getLineStart(text, comments.length > 0 ? comments[0].offset : table.offset), end: getBlockEnd(table), content: '' };
+	};
+
+	let getSection = (entries: EntryNode[], getKey: (keyValue: KeyValueNode) => string, headerLine?: number): Section => {
+		let section: Section = { members: [], comments: [] };
+		let used: CommentNode[] = [];
+		for (let entry of entries) {
+			if (entry.type === 'keyValue') {
+				let comment = getTrailingComment(entry.offset + entry.length);
+				if (comment) {
+					used.push(comment);
+				}
+				section.members.push({ key: getKey(entry), value: getText(entry.value), comments: section.comments, comment: comment && getText(comment) });
+				section.comments = [];
+			} else if (used.indexOf(entry) === -1) {
+				if (headerLine !== void 0 && document.positionAt(entry.offset).line === headerLine) {
+					section.comments.unshift(getText(entry));
+				} else {
+					section.comments.push(getText(entry));
+				}
+			}
+		}
+		return section;
+	};
+
+	let getAllComments = (section: Section): string[] => {
+		let comments: string[] = [];
+		section.members.forEach(member => {
+			comments.push(...member.comments);
+			if (member.comment) {
+				comments.push(member.comment);
+			}
+		});
+		return comments.concat(section.comments);
+	};
+
+	let toInlineTable = (members: Member[]): string => {
+		if (members.length === 0) {
+			return '{}';
+		}
+		return '{ ' + members.map(member => member.key + ' = ' + member.value).join(', ') + ' }';
+	};
+
+	let toLines = (members: Member[], prefix: string, indentation: string): string[] => {
+		let lines: string[] = [];
+		for (let member of members) {
+			member.comments.forEach(comment => lines.push(indentation + comment));
+			lines.push(indentation + prefix + member.key + ' = ' + member.value + (member.comment ? ' ' + member.comment : ''));
+		}
+		return lines;
+	};
+
+	// the lines of a section start at a line start, so the text before needs a line break at its end
+	let insertLines = (offset: number, lines: string[]): Edit => {
+		let content = lines.map(line => line + eol).join('');
+		if (offset === text.length && offset > 0 && text.charAt(offset - 1) !== '\n') {
+			content = eol + content;
+		}
+		return { offset, end: offset, content };
+	};
+
+	// adds key/value pairs after the last pair of a table or the top level
+	let appendToBody = (container: Container, lines: string[]): Edit => {
+		let last = getLastKeyValue(container.body);
+		if (last) {
+			let indentation = getIndentation(text, last.offset);
+			return insertLines(getNextLineStart(text, getEntryEnd(last)), lines.map(line => indentation + line));
+		}
+		if (container.type !== 'document') {
+			return insertLines(getNextLineStart(text, getHeaderEnd(container)), lines);
+		}
+		if (root.tables.length > 0) {
+			return insertLines(getLineStart(text, root.tables[0].offset), lines.concat(''));
+		}
+		return insertLines(text.length, lines);
+	};
+
+	// adds a table after the pairs of a table, or before the first table for the top level
+	let appendSection = (container: Container, lines: string[]): Edit => {
+		if (container.type !== 'document') {
+			return insertLines(getBlockEnd(container), [''].concat(lines));
+		}
+		let last = getLastKeyValue(root.body);
+		if (root.tables.length > 0 && !last) {
+			return insertLines(getLineStart(text, root.tables[0].offset), lines.concat(''));
+		}
+		let offset = last ? getNextLineStart(text, getEntryEnd(last)) : text.length;
+		return insertLines(offset, [''].concat(lines, root.tables.length > 0 ? [''] : []));
+	};
+
+	let getTableName = (container: Container, key: string): string => {
+		return container.type === 'document' ? key : getText(container.key) + '.' + key;
+	};
+
+	// the table or top level that holds the header's table, and the key of the table relative to it
+	let findContainer = (table: TableNode | ArrayOfTablesNode): { container: Container, key: string } => {
+		let segments = table.key.segments;
+		let node = tomlDocument.getJSONNode(segments[segments.length - 1]);
+		for (let i = segments.length - 1; i >= 0 && node && node.type === 'property'; i--) {
+			let object = node.parent;
+			let key = text.substring(segments[i].offset, table.key.offset + table.key.length);
+			if (object === tomlDocument.jsonRoot) {
+				return { container: root, key };
+			}
+			let container = root.tables.filter(other => other !== table && tomlDocument.getJSONNode(other) === object)[0];
+			if (container) {
+				return { container, key };
+			}
+			node = object.parent;
+		}
+		return void 0;
+	};
+
+	let getSectionKey = (keyValue: KeyValueNode): string => getText(keyValue.key);
+
+	// an inline table is a single line, the comment of the line belongs to the key/value pair around it
+	let getInlineMembers = (inlineTable: InlineTableNode): Member[] => {
+		return inlineTable.entries.map(entry => ({ key: getText(entry.key), value: getText(entry.value), comments: [] }));
+	};
+
+	// [a.b] to `b = { ... }` or `b.key = ...` in [a]
+	let convertTable = (table: TableNode): void => {
+		let target = findContainer(table);
+		let object = tomlDocument.getJSONNode(table);
+		if (!target || !object || object.type !== 'object') {
+			return;
+		}
+		let end = getBlockEnd(table);
+		let section = getSection(table.body.filter(entry => entry.offset < end), getSectionKey, document.positionAt(table.offset).line);
+		let leadingComments = getLeadingComments(table).map(getText);
+		let name = getText(table.key);
+		// the keys of sub-tables and dotted keys elsewhere can't move into an inline table
+		if (object.properties.every(property => property.offset >= table.offset && property.offset < end)) {
+			let lines = leadingComments.concat(getAllComments(section), target.key + ' = ' + toInlineTable(section.members));
+			addRefactoring(localize('refactor.toInlineTable', 'Convert "{0}" to an inline table', name), [removeBlock(table), appendToBody(target.container, lines)]);
+		}
+		if (section.members.length > 0) {
+			let lines = leadingComments.concat(toLines(section.members, target.key + '.', ''), section.comments);
+			addRefactoring(localize('refactor.toDottedKeys', 'Convert "{0}" to dotted keys', name), [removeBlock(table), appendToBody(target.container, lines)]);
+		}
+	};
+
+	// `b = { ... }` in [a] to [a.b] or `b.key = ...`
+	let convertInlineTable = (keyValue: KeyValueNode, container: Container, inlineTable: InlineTableNode): void => {
+		let key = getText(keyValue.key);
+		let comment = getTrailingComment(keyValue.offset + keyValue.length);
+		let section: Section = { members: getInlineMembers(inlineTable), comments: [] };
+		let header = '[' + getTableName(container, key) + ']' + (comment ? ' ' + getText(comment) : '');
+		addRefactoring(localize('refactor.toTable', 'Convert "{0}" to a table header', key), [
+			removeLines(keyValue.offset, getEntryEnd(keyValue)),
+			appendSection(container, [header].concat(toLines(section.members, '', '')))
+		]);
+		if (section.members.length > 0) {
+			if (comment) {
+				section.members[0].comment = getText(comment);
+			}
+			let indentation = getIndentation(text, keyValue.offset);
+			let lines = toLines(section.members, key + '.', indentation);
+			addRefactoring(localize('refactor.toDottedKeys', 'Convert "{0}" to dotted keys', key), [{ offset: keyValue.offset, end: getEntryEnd(keyValue), content: lines.join(eol).substr(indentation.length) }]);
+		}
+	};
+
+	// `b.key = ...` in [a] to `b = { ... }` or [a.b]
+	let convertDottedKeys = (keyValue: KeyValueNode, container: Container): void => {
+		let first = keyValue.key.segments[0];
+		let group = container.body.filter(entry => entry.type === 'keyValue' && entry.key.segments.length > 1 && entry.key.segments[0].value === first.value) as KeyValueNode[];
+		let property = tomlDocument.getJSONNode(first);
+		let object = property && property.type === 'property' && property.valueNode;
+		if (!object || object.type !== 'object') {
+			return;
+		}
+		let getKey = (entry: KeyValueNode) => text.substring(entry.key.segments[1].offset, entry.key.offset + entry.key.length);
+		let members: Member[] = group.map(entry => {
+			let comment = getTrailingComment(entry.offset + entry.length);
+			return { key: getKey(entry), value: getText(entry.value), comments: [], comment: comment && getText(comment) };
+		});
+		let removals = group.map(entry => removeLines(entry.offset, getEntryEnd(entry)));
+		let isInGroup = (offset: number) => group.some(entry => offset >= entry.offset && offset < entry.offset + entry.length);
+		let key = getText(first);
+		if (object.properties.every(property => isInGroup(property.offset))) {
+			let indentation = getIndentation(text, group[0].offset);
+			let lines = getAllComments({ members, comments: [] }).concat(key + ' = ' + toInlineTable(members)).map(line => indentation + line);
+			addRefactoring(localize('refactor.toInlineTable', 'Convert "{0}" to an inline table', key), removals.concat(insertLines(getLineStart(text, group[0].offset), lines)));
+		}
+		if (!root.tables.some(table => tomlDocument.getJSONNode(table) === object)) {
+			let lines = ['[' + getTableName(container, key) + ']'].concat(toLines(members, '', ''));
+			addRefactoring(localize('refactor.toTable', 'Convert "{0}" to a table header', key), removals.concat(appendSection(container, lines)));
+		}
+	};
+
+	// `b = [{ ... }, { ... }]` in [a] to [[a.b]] blocks
+	let convertArray = (keyValue: KeyValueNode, container: Container, items: InlineTableNode[]): void => {
+		let array = keyValue.value;
+		let name = '[[' + getTableName(container, getText(keyValue.key)) + ']]';
+		let lines: string[] = [];
+		let comments = tomlDocument.comments.filter(comment => comment.offset > array.offset && comment.offset < array.offset + array.length);
+		let trailing = getTrailingComment(keyValue.offset + keyValue.length);
+		if (trailing) {
+			comments.unshift(trailing);
+		}
+		items.forEach((item, index) => {
+			if (index > 0) {
+				lines.push('');
+			}
+			// the comments before an item go above its header
+			comments.filter(comment => comment.offset < item.offset).forEach(comment => lines.push(getText(comment)));
+			comments = comments.filter(comment => comment.offset > item.offset);
+			lines.push(name);
+			lines.push(...toLines(getInlineMembers(item), '', ''));
+		});
+		lines.push(...comments.map(getText));
+		addRefactoring(localize('refactor.toArrayOfTables', 'Convert "{0}" to an array of tables', getText(keyValue.key)), [
+			removeLines(keyValue.offset, getEntryEnd(keyValue)),
+			appendSection(container, lines)
+		]);
+	};
+
+	// [[a.b]] blocks to `b = [{ ... }, { ... }]` in [a]
+	let convertArrayOfTables = (table: ArrayOfTablesNode): void => {
+		let segments = table.key.segments;
+		let property = tomlDocument.getJSONNode(segments[segments.length - 1]);
+		let array = property && property.type === 'property' && property.valueNode;
+		let target = findContainer(table);
+		if (!array || array.type !== 'array' || !target) {
+			return;
+		}
+		let items = array.items;
+		let blocks = root.tables.filter(other => other.type === 'arrayOfTables' && items.indexOf(tomlDocument.getJSONNode(other)) !== -1) as ArrayOfTablesNode[];
+		// sub-tables of the elements can't move into inline tables
+		let isInBlock = (offset: number) => blocks.some(block => offset >= block.offset && offset < getBlockEnd(block));
+		let hasSubTables = root.tables.some(other => blocks.indexOf(<ArrayOfTablesNode>other) === -1 && isInside(tomlDocument.getJSONNode(other), array));
+		if (hasSubTables || !items.every(item => item.type === 'object' && item.properties.every(property => isInBlock(property.offset)))) {
+			return;
+		}
+		let lines = [target.key + ' = ['];
+		for (let block of blocks) {
+			let end = getBlockEnd(block);
+			let section = getSection(block.body.filter(entry => entry.offset < end), getSectionKey, document.positionAt(block.offset).line);
+			getLeadingComments(block).map(getText).concat(getAllComments(section)).forEach(comment => lines.push(arrayIndentation + comment));
+			lines.push(arrayIndentation + toInlineTable(section.members) + ',');
+		}
+		lines.push(']');
+		let edits = blocks.map(removeBlock);
+		edits.push(appendToBody(target.container, lines));
+		addRefactoring(localize('refactor.toArrayOfInlineTables', 'Convert "{0}" to an array of inline tables', getText(table.key)), edits);
+	};
+
+	let offset = document.offsetAt(range.start);
+	let header = root.tables.filter(table => offset >= table.offset && offset <= table.offset + table.headerLength)[0];
+	if (header) {
+		if (header.type === 'table') {
+			convertTable(header);
+		} else {
+			convertArrayOfTables(header);
+		}
+		return result;
+	}
+
+	// the key/value pair of a table or of the top level at the offset
+	let node = tomlDocument.getNodeFromOffset(offset, true);
+	while (node && !(node.type === 'keyValue' && isContainer(node.parent))) {
+		node = node.parent;
+	}
+	if (!node || node.type !== 'keyValue' || !node.value) {
+		return result;
+	}
+	let keyValue = node;
+	let container = <Container>keyValue.parent;
+	let value = keyValue.value;
+	if (keyValue.key.segments.length > 1) {
+		convertDottedKeys(keyValue, container);
+	}
+	if (value.type === 'inlineTable') {
+		convertInlineTable(keyValue, container, value);
+	} else if (value.type === 'array' && value.items.length > 0 && value.items.every(item => item.type === 'inlineTable')) {
+		convertArray(keyValue, container, <InlineTableNode[]>value.items);
+	}
+	return result;
+}
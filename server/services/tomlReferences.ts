@@ -0,0 +1,75 @@
+'use strict';
+
+import { Location, Range, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+import { KeySegmentNode } from '../parser/tomlNodes';
+import { TOMLPath, getNodePath } from './tomlSchema';
+
+/**
+ * Returns the path of the key a segment of a table header or of a key/value pair stands for.
+ * A segment that redefines a key has no path.
+ */
+export function getSegmentPath(tomlDocument: TOMLDocument, segment: KeySegmentNode): TOMLPath {
+	let property = tomlDocument.getJSONNode(segment);
+	return property && property.type === 'property' ? getNodePath(property) : void 0;
+}
+
+export function getSegmentAt(tomlDocument: TOMLDocument, offset: number): KeySegmentNode {
+	let node = tomlDocument.getNodeFromOffset(offset, true);
+	return node && node.type === 'keySegment' ? node : void 0;
+}
+
+export function isSamePath(a: TOMLPath, b: TOMLPath): boolean {
+	return a.length === b.length && a.every((key, index) => key === b[index]);
+}
+
+/**
+ * Returns the key segments of the document that stand for the key of the path, in document
+ * order. A table can be named by table headers, dotted keys and inline tables.
+ */
+export function findKeySegments(tomlDocument: TOMLDocument, path: TOMLPath): KeySegmentNode[] {
+	let result: KeySegmentNode[] = [];
+	tomlDocument.visit(node => {
+		if (node.type === 'keySegment') {
+			let segmentPath = getSegmentPath(tomlDocument, node);
+			if (segmentPath && isSamePath(segmentPath, path)) {
+				result.push(node);
+			}
+		}
+		return true;
+	});
+	return result.sort((a, b) => a.offset - b.offset);
+}
+
+export function getSegmentLocation(document: TextDocument, segment: KeySegmentNode): Location {
+	return Location.create(document.uri, Range.create(document.positionAt(segment.offset), document.positionAt(segment.offset + segment.length)));
+}
+
+/**
+ * Returns where the key at the position is defined first, for a table the first header,
+ * dotted key or inline table that names it.
+ */
+export function findDefinition(document: TextDocument, position: Position, tomlDocument: TOMLDocument): Location {
+	let segment = getSegmentAt(tomlDocument, document.offsetAt(position));
+	let path = segment && getSegmentPath(tomlDocument, segment);
+	if (!path) {
+		return void 0;
+	}
+	let definition = findKeySegments(tomlDocument, path)[0];
+	return definition && getSegmentLocation(document, definition);
+}
+
+/**
+ * Returns all places that name the fully qualified key at the position. The first place is the
+ * definition.
+ */
+export function findReferences(document: TextDocument, position: Position, tomlDocument: TOMLDocument, includeDeclaration: boolean): Location[] {
+	let segment = getSegmentAt(tomlDocument, document.offsetAt(position));
+	let path = segment && getSegmentPath(tomlDocument, segment);
+	if (!path) {
+		return [];
+	}
+	let segments = findKeySegments(tomlDocument, path);
+	return segments.slice(includeDeclaration ? 0 : 1).map(segment => getSegmentLocation(document, segment));
+}
@@ -0,0 +1,94 @@
+'use strict';
+
+import { WorkspaceEdit, TextEdit, Range, Position, ResponseError, ErrorCodes } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+import { KeySegmentNode } from '../parser/tomlNodes';
+import { TOMLPath, getValueAtPath } from './tomlSchema';
+import { getSegmentAt, getSegmentPath, findKeySegments } from './tomlReferences';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+const bareKey = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * The key a new name stands for, the name may be written as a quoted key.
+ */
+function parseKey(name: string): string {
+	if (/^".*"$/.test(name)) {
+		try {
+			return JSON.parse(name);
+		} catch (e) {
+			// not a valid basic string, the quotes are part of the key
+		}
+	}
+	if (/^'[^']*'$/.test(name)) {
+		return name.substring(1, name.length - 1);
+	}
+	return name;
+}
+
+/**
+ * Writes the key in the style of the segment it replaces: bare when possible, otherwise with
+ * the quotes of the segment.
+ */
+function formatKey(key: string, segment: KeySegmentNode): string {
+	if (bareKey.test(key)) {
+		return key;
+	}
+	if (segment.style === 'literal' && !/['\r\n]/.test(key)) {
+		return `'${key}'`;
+	}
+	return JSON.stringify(key);
+}
+
+/**
+ * Returns the key segment at the position with its path, or the reason why it can't be renamed.
+ */
+function getRenameTarget(document: TextDocument, position: Position, tomlDocument: TOMLDocument): { segment: KeySegmentNode, path: TOMLPath } | ResponseError<void> {
+	let segment = getSegmentAt(tomlDocument, document.offsetAt(position));
+	if (!segment) {
+		return new ResponseError<void>(ErrorCodes.InvalidRequest, localize('rename.noKey', 'Only keys can be renamed.'));
+	}
+	if (tomlDocument.errors.length > 0) {
+		// the places of a key are not reliable in a broken document
+		return new ResponseError<void>(ErrorCodes.InvalidRequest, localize('rename.errors', 'Keys can not be renamed in a document with errors.'));
+	}
+	let path = getSegmentPath(tomlDocument, segment);
+	return path ? { segment, path } : new ResponseError<void>(ErrorCodes.InvalidRequest, localize('rename.noKey', 'Only keys can be renamed.'));
+}
+
+export function prepareRename(document: TextDocument, position: Position, tomlDocument: TOMLDocument): { range: Range, placeholder: string } | ResponseError<void> {
+	let target = getRenameTarget(document, position, tomlDocument);
+	if (target instanceof ResponseError) {
+		return target;
+	}
+	let segment = target.segment;
+	return { range: Range.create(document.positionAt(segment.offset), document.positionAt(segment.offset + segment.length)), placeholder: segment.value };
+}
+
+/**
+ * Renames the key at the position in all table headers, dotted keys and inline tables that
+ * name it. A name that is already used in the same table is refused.
+ */
+export function doRename(document: TextDocument, position: Position, newName: string, tomlDocument: TOMLDocument): WorkspaceEdit | ResponseError<void> {
+	let target = getRenameTarget(document, position, tomlDocument);
+	if (target instanceof ResponseError) {
+		return target;
+	}
+	let path = target.path;
+	let key = parseKey(newName);
+	if (key === path[path.length - 1]) {
+		return { changes: {} };
+	}
+	let parent = getValueAtPath(tomlDocument.json, path.slice(0, -1));
+	if (parent && typeof parent === 'object' && Object.prototype.hasOwnProperty.call(parent, key)) {
+		return new ResponseError<void>(ErrorCodes.InvalidRequest, localize('rename.exists', 'The key "{0}" already exists in this table.', key));
+	}
+	let edits = findKeySegments(tomlDocument, path).map(segment => {
+		let range = Range.create(document.positionAt(segment.offset), document.positionAt(segment.offset + segment.length));
+		return TextEdit.replace(range, formatKey(key, segment));
+	});
+	return { changes: { [document.uri]: edits } };
+}
@@ -0,0 +1,199 @@
+'use strict';
+
+import { JSONSchema, ASTNode } from 'vscode-json-languageservice';
+
+type JSONSchemaRef = JSONSchema | boolean;
+
+/**
+ * A path into the TOML data: the keys of tables and the indexes of array items. A key that
+ * follows an array continues in the array items, as a `[table]` header below an
+ * `[[array.of.tables]]` header continues in the last table of the array.
+ */
+export type TOMLPath = (string | number)[];
+
+function isSchema(schema: JSONSchemaRef): schema is JSONSchema {
+	return !!schema && typeof schema === 'object';
+}
+
+/**
+ * Returns the schema together with the schemas it combines with `allOf`, `anyOf` and `oneOf`.
+ */
+export function expandSchemas(schemas: JSONSchemaRef[]): JSONSchema[] {
+	let result: JSONSchema[] = [];
+	let add = (schema: JSONSchemaRef) => {
+		if (isSchema(schema) && result.indexOf(schema) === -1) {
+			result.push(schema);
+			[schema.allOf, schema.anyOf, schema.oneOf].forEach(alternatives => (alternatives || []).forEach(add));
+		}
+	};
+	schemas.forEach(add);
+	return result;
+}
+
+export function getSchemaTypes(schema: JSONSchema): string[] {
+	if (Array.isArray(schema.type)) {
+		return schema.type;
+	}
+	return schema.type ? [schema.type] : [];
+}
+
+/**
+ * The types of the schemas, as shown next to keys: `string | boolean`.
+ */
+export function getTypeLabel(schemas: JSONSchema[]): string {
+	let types: string[] = [];
+	schemas.forEach(schema => getSchemaTypes(schema).forEach(type => types.indexOf(type) === -1 && types.push(type)));
+	return types.length > 0 ? types.join(' | ') : void 0;
+}
+
+export function isObjectSchema(schema: JSONSchema): boolean {
+	return getSchemaTypes(schema).indexOf('object') !== -1 || !schema.type && !!(schema.properties || schema.patternProperties || schema.additionalProperties);
+}
+
+export function isArraySchema(schema: JSONSchema): boolean {
+	return getSchemaTypes(schema).indexOf('array') !== -1 || !schema.type && !!schema.items;
+}
+
+export function getItemSchemas(schema: JSONSchema, index?: number): JSONSchema[] {
+	if (Array.isArray(schema.items)) {
+		if (index === void 0) {
+			return expandSchemas(schema.items);
+		}
+		return expandSchemas([index < schema.items.length ? schema.items[index] : schema.additionalItems]);
+	}
+	return expandSchemas([schema.items]);
+}
+
+export function getPropertySchemas(schema: JSONSchema, key: string): JSONSchema[] {
+	let result: JSONSchemaRef[] = [];
+	if (schema.properties && schema.properties.hasOwnProperty(key)) {
+		result.push(schema.properties[key]);
+	}
+	if (schema.patternProperties) {
+		Object.keys(schema.patternProperties).forEach(pattern => {
+			try {
+				if (new RegExp(pattern).test(key)) {
+					result.push(schema.patternProperties[pattern]);
+				}
+			} catch (e) {
+				// ignore patterns JavaScript does not understand
+			}
+		});
+	}
+	if (result.length === 0) {
+		result.push(schema.additionalProperties);
+	}
+	return expandSchemas(result);
+}
+
+/**
+ * Returns the schemas of the tables at a path: the schemas of objects, and the item schemas of
+ * arrays, the keys below an array of tables are added to its last table.
+ */
+export function getObjectSchemas(schemas: JSONSchema[]): JSONSchema[] {
+	let result: JSONSchema[] = [];
+	for (let schema of schemas) {
+		if (isArraySchema(schema) && !isObjectSchema(schema)) {
+			result.push(...getItemSchemas(schema));
+		} else {
+			result.push(schema);
+		}
+	}
+	return expandSchemas(result);
+}
+
+/**
+ * Follows the path through the schemas and returns the schemas that apply at its end.
+ */
+export function getSchemasAtPath(schemas: JSONSchema[], path: TOMLPath): JSONSchema[] {
+	let current = expandSchemas(schemas);
+	for (let segment of path) {
+		let next: JSONSchema[] = [];
+		for (let schema of current) {
+			if (typeof segment === 'number') {
+				next.push(...getItemSchemas(schema, segment));
+			} else if (isArraySchema(schema) && !isObjectSchema(schema)) {
+				let key = segment;
+				getItemSchemas(schema).forEach(item => next.push(...getPropertySchemas(item, key)));
+			} else {
+				next.push(...getPropertySchemas(schema, segment));
+			}
+		}
+		current = expandSchemas(next);
+	}
+	return current;
+}
+
+/**
+ * Returns the path of a node of the JSON view of a TOML document. A property stands for
+ * its key, the elements of an array of tables have their index in the path.
+ */
+export function getNodePath(node: ASTNode): TOMLPath {
+	let path: TOMLPath = [];
+	while (node && node.parent) {
+		let parent = node.parent;
+		if (node.type === 'property') {
+			path.unshift(node.keyNode.value);
+		} else if (parent.type === 'array') {
+			path.unshift(parent.items.indexOf(node));
+		}
+		node = parent;
+	}
+	return path;
+}
+
+/**
+ * Returns the value at the path of the plain JavaScript value of a TOML document.
+ */
+export function getValueAtPath(json: any, path: TOMLPath): any {
+	return path.reduce((value, key) => value !== null && typeof value === 'object' ? value[key] : void 0, json);
+}
+
+export function formatKey(key: string): string {
+	return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Writes a JSON value as TOML value. Returns `undefined` for `null`, TOML has no null.
+ */
+export function toTOMLValue(value: any): string {
+	if (value === null || value === void 0) {
+		return void 0;
+	}
+	if (typeof value === 'string') {
+		return JSON.stringify(value);
+	}
+	if (Array.isArray(value)) {
+		let items = value.map(toTOMLValue);
+		return items.some(item => item === void 0) ? void 0 : '[' + items.join(', ') + ']';
+	}
+	if (typeof value === 'object') {
+		let entries = Object.keys(value).map(key => [formatKey(key), toTOMLValue(value[key])]);
+		if (entries.some(entry => entry[1] === void 0)) {
+			return void 0;
+		}
+		return entries.length === 0 ? '{}' : '{ ' + entries.map(entry => entry[0] + ' = ' + entry[1]).join(', ') + ' }';
+	}
+	return String(value);
+}
+
+/**
+ * Returns a TOML value for a key of the schemas: the default value, or an empty value of the type.
+ */
+export function getPlaceholderValue(schemas: JSONSchema[]): string {
+	for (let schema of schemas) {
+		let value = toTOMLValue(schema.default);
+		if (value !== void 0) {
+			return value;
+		}
+	}
+	let types = [].concat(...schemas.map(getSchemaTypes));
+	switch (types[0]) {
+		case 'boolean': return 'false';
+		case 'integer':
+		case 'number': return '0';
+		case 'array': return '[]';
+		case 'object': return '{}';
+	}
+	return '""';
+}
@@ -0,0 +1,66 @@
+'use strict';
+
+import { DocumentLink, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+
+/**
+ * A schema named by the document itself, with a `#:schema <url>` comment on the first line or
+ * with a `$schema` key at the top level. The association overrides the `fileMatch` associations.
+ */
+export interface SchemaAssociation {
+	/**
+	 * The URL or path as written in the document, a path is relative to the document.
+	 */
+	reference: string;
+	offset: number;
+	length: number;
+}
+
+const directivePattern = /^#:schema[ \t]+(\S+)/;
+
+function findDirective(document: TextDocument, tomlDocument: TOMLDocument): SchemaAssociation {
+	let comment = tomlDocument.comments[0];
+	if (!comment || document.positionAt(comment.offset).line !== 0) {
+		return void 0;
+	}
+	let match = directivePattern.exec(document.getText().substr(comment.offset, comment.length));
+	if (!match) {
+		return void 0;
+	}
+	return { reference: match[1], offset: comment.offset + match[0].length - match[1].length, length: match[1].length };
+}
+
+function findSchemaKey(tomlDocument: TOMLDocument): SchemaAssociation {
+	for (let entry of tomlDocument.root.body) {
+		if (entry.type === 'keyValue' && entry.key.segments.length === 1 && entry.key.segments[0].value === '$schema') {
+			let value = entry.value;
+			if (value && value.type === 'string' && value.value.length > 0) {
+				// the quotes of a single-line string are not part of the reference
+				let quote = value.style === 'basic' || value.style === 'literal' ? 1 : 0;
+				return { reference: value.value, offset: value.offset + quote, length: value.length - 2 * quote };
+			}
+		}
+	}
+	return void 0;
+}
+
+/**
+ * Returns the schema the document names itself. The `#:schema` directive takes precedence over
+ * the `$schema` key.
+ */
+export function findSchemaAssociation(document: TextDocument, tomlDocument: TOMLDocument): SchemaAssociation {
+	return findDirective(document, tomlDocument) || findSchemaKey(tomlDocument);
+}
+
+/**
+ * Links the schema the document names itself to the resolved schema URL.
+ */
+export function findDocumentLinks(document: TextDocument, tomlDocument: TOMLDocument, resolve: (reference: string) => string): DocumentLink[] {
+	let association = findSchemaAssociation(document, tomlDocument);
+	if (!association) {
+		return [];
+	}
+	let range = Range.create(document.positionAt(association.offset), document.positionAt(association.offset + association.length));
+	return [DocumentLink.create(range, resolve(association.reference))];
+}
@@ -0,0 +1,78 @@
+'use strict';
+
+import { SelectionRange, Range, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TOMLNode } from '../parser/tomlNodes';
+
+function getQuoteLength(node: TOMLNode): number {
+	if (node.type === 'string') {
+		return node.style === 'multilineBasic' || node.style === 'multilineLiteral' ? 3 : 1;
+	}
+	if (node.type === 'keySegment') {
+		return node.style === 'bare' ? 0 : 1;
+	}
+	return 0;
+}
+
+/**
+ * Returns the selection ranges at the positions. The ranges grow along the syntax tree: the key
+ * segment, the key, the value, the key/value pair, the inline tables and arrays around it, the
+ * table header and the table, and the document. The content of a string or quoted key comes
+ * before the string itself.
+ */
+export function getSelectionRanges(document: TextDocument, positions: Position[], tomlDocument: TOMLDocument): SelectionRange[] {
+	let text = document.getText();
+
+	let getSelectionRange = (offset: number): SelectionRange => {
+		let ranges: { start: number, end: number }[] = [];
+		let add = (start: number, end: number) => {
+			let previous = ranges[ranges.length - 1];
+			if (offset < start || offset > end || previous && (start > previous.start || end < previous.end || start === previous.start && end === previous.end)) {
+				return;
+			}
+			ranges.push({ start, end });
+		};
+
+		for (let node = tomlDocument.getNodeFromOffset(offset, true); node; node = node.parent) {
+			let end = node.offset + node.length;
+			switch (node.type) {
+				case 'string':
+				case 'keySegment': {
+					let quoteLength = getQuoteLength(node);
+					if (quoteLength > 0 && node.length >= 2 * quoteLength) {
+						add(node.offset + quoteLength, end - quoteLength);
+					}
+					add(node.offset, end);
+					break;
+				}
+				case 'table':
+				case 'arrayOfTables': {
+					add(node.offset, node.offset + node.headerLength);
+					// the blank lines up to the next header are not part of the table
+					while (end > node.offset + node.headerLength && /\s/.test(text.charAt(end - 1))) {
+						end--;
+					}
+					add(node.offset, end);
+					break;
+				}
+				case 'document':
+					add(0, text.length);
+					break;
+				default:
+					add(node.offset, end);
+			}
+		}
+		if (ranges.length === 0) {
+			add(0, text.length);
+		}
+
+		let result: SelectionRange = void 0;
+		for (let i = ranges.length - 1; i >= 0; i--) {
+			result = SelectionRange.create(Range.create(document.positionAt(ranges[i].start), document.positionAt(ranges[i].end)), result);
+		}
+		return result;
+	};
+
+	return positions.map(position => getSelectionRange(document.offsetAt(position)));
+}
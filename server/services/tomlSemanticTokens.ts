@@ -0,0 +1,123 @@
+'use strict';
+
+import { SemanticTokens, SemanticTokensBuilder, SemanticTokensEdit, SemanticTokensLegend } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument } from '../parser/tomlParser';
+import { TOMLNode, KeyNode } from '../parser/tomlNodes';
+
+/*
+ * The token types are the standard types, except for `boolean` and `dateTime`. The extension
+ * declares them with `keyword` and `number` as super types, so themes without rules for them
+ * still color them. The modifiers tell the kinds of headers, strings, dates and numbers apart.
+ */
+
+const tokenTypes = ['namespace', 'property', 'string', 'number', 'boolean', 'dateTime'];
+
+const tokenModifiers = ['arrayOfTables', 'quoted', 'literal', 'multiline', 'offset', 'date', 'time', 'hexadecimal', 'octal', 'binary', 'float', 'nonFinite'];
+
+export const semanticTokensLegend: SemanticTokensLegend = { tokenTypes, tokenModifiers };
+
+function getModifiers(...modifiers: string[]): number {
+	return modifiers.reduce((result, modifier) => result | 1 << tokenModifiers.indexOf(modifier), 0);
+}
+
+/**
+ * Returns the tokens of the table headers, keys and values. The tokens of multi-line strings
+ * are split at the line breaks.
+ */
+export function getSemanticTokens(document: TextDocument, tomlDocument: TOMLDocument): SemanticTokens {
+	let text = document.getText();
+	let builder = new SemanticTokensBuilder();
+
+	let push = (node: TOMLNode, type: string, modifiers: number) => {
+		let offset = node.offset;
+		let end = node.offset + node.length;
+		while (offset < end) {
+			let lineEnd = text.indexOf('\n', offset);
+			let tokenEnd = lineEnd === -1 || lineEnd >= end ? end : lineEnd > offset && text.charAt(lineEnd - 1) === '\r' ? lineEnd - 1 : lineEnd;
+			if (tokenEnd > offset) {
+				let position = document.positionAt(offset);
+				builder.push(position.line, position.character, tokenEnd - offset, tokenTypes.indexOf(type), modifiers);
+			}
+			offset = lineEnd === -1 || lineEnd >= end ? end : lineEnd + 1;
+		}
+	};
+
+	let nodes: { node: TOMLNode, type: string, modifiers: number }[] = [];
+	let add = (node: TOMLNode, type: string, ...modifiers: string[]) => nodes.push({ node, type, modifiers: getModifiers(...modifiers) });
+
+	let addKey = (key: KeyNode, type: string, ...modifiers: string[]) => {
+		for (let segment of key.segments) {
+			add(segment, type, ...modifiers, ...(segment.style !== 'bare' ? ['quoted'] : []), ...(segment.style === 'literal' ? ['literal'] : []));
+		}
+	};
+
+	tomlDocument.visit(node => {
+		switch (node.type) {
+			case 'table':
+				addKey(node.key, 'namespace');
+				break;
+			case 'arrayOfTables':
+				addKey(node.key, 'namespace', 'arrayOfTables');
+				break;
+			case 'keyValue':
+				addKey(node.key, 'property');
+				break;
+			case 'string': {
+				let modifiers: string[] = [];
+				if (node.style === 'literal' || node.style === 'multilineLiteral') {
+					modifiers.push('literal');
+				}
+				if (node.style === 'multilineBasic' || node.style === 'multilineLiteral') {
+					modifiers.push('multiline');
+				}
+				add(node, 'string', ...modifiers);
+				break;
+			}
+			case 'integer': {
+				let prefix = text.substr(node.offset, 2);
+				add(node, 'number', ...(prefix === '0x' ? ['hexadecimal'] : prefix === '0o' ? ['octal'] : prefix === '0b' ? ['binary'] : []));
+				break;
+			}
+			case 'float':
+				add(node, 'number', 'float', ...(isFinite(node.value) ? [] : ['nonFinite']));
+				break;
+			case 'boolean':
+				add(node, 'boolean');
+				break;
+			case 'dateTime':
+				switch (node.kind) {
+					case 'offsetDateTime': add(node, 'dateTime', 'offset', 'date', 'time'); break;
+					case 'localDateTime': add(node, 'dateTime', 'date', 'time'); break;
+					case 'localDate': add(node, 'dateTime', 'date'); break;
+					case 'localTime': add(node, 'dateTime', 'time'); break;
+				}
+				break;
+		}
+		return true;
+	});
+
+	// the headers are visited after the entries before them, the builder needs document order
+	nodes.sort((a, b) => a.node.offset - b.node.offset).forEach(({ node, type, modifiers }) => push(node, type, modifiers));
+	return builder.build();
+}
+
+/**
+ * Returns the edit that turns the previous token data into the new data. The edits of the
+ * `SemanticTokensBuilder` are wrong when the unchanged start and end overlap, as in a document
+ * with repeated lines.
+ */
+export function getSemanticTokensEdits(previous: number[], data: number[]): SemanticTokensEdit[] {
+	let start = 0;
+	while (start < previous.length && start < data.length && previous[start] === data[start]) {
+		start++;
+	}
+	let end = 0;
+	while (end < previous.length - start && end < data.length - start && previous[previous.length - 1 - end] === data[data.length - 1 - end]) {
+		end++;
+	}
+	if (start === previous.length && start === data.length) {
+		return [];
+	}
+	return [{ start, deleteCount: previous.length - end - start, data: data.slice(start, data.length - end) }];
+}
@@ -0,0 +1,111 @@
+'use strict';
+
+/*
+ * Writes plain JavaScript values as a TOML document. Numbers and date-times are passed as
+ * `TOMLLiteral`s with the text they are written with, so integers keep all their digits and
+ * floats stay floats, even where a JavaScript number can't tell them apart.
+ */
+
+export class TOMLLiteral {
+	constructor(public readonly text: string) {
+	}
+}
+
+export type TOMLData = string | boolean | TOMLLiteral | TOMLData[] | TOMLTable;
+
+export interface TOMLTable {
+	[key: string]: TOMLData;
+}
+
+const bareKey = /^[A-Za-z0-9_-]+$/;
+
+export function toBasicString(value: string): string {
+	let result = '';
+	for (let i = 0; i < value.length; i++) {
+		let ch = value.charAt(i);
+		switch (ch) {
+			case '"': result += '\\"'; break;
+			case '\\': result += '\\\\'; break;
+			case '\b': result += '\\b'; break;
+			case '\n': result += '\\n'; break;
+			case '\f': result += '\\f'; break;
+			case '\r': result += '\\r'; break;
+			default:
+				let code = ch.charCodeAt(0);
+				if (code < 0x20 && ch !== '\t' || code === 0x7F) {
+					result += '\\u' + ('0000' + code.toString(16).toUpperCase()).substr(-4);
+				} else {
+					result += ch;
+				}
+		}
+	}
+	return '"' + result + '"';
+}
+
+function isTable(value: TOMLData): value is TOMLTable {
+	return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof TOMLLiteral);
+}
+
+function isArrayOfTables(value: TOMLData): value is TOMLTable[] {
+	return Array.isArray(value) && value.length > 0 && value.every(isTable);
+}
+
+function writeKey(key: string): string {
+	return bareKey.test(key) ? key : toBasicString(key);
+}
+
+function writeValue(value: TOMLData): string {
+	if (typeof value === 'string') {
+		return toBasicString(value);
+	}
+	if (value instanceof TOMLLiteral) {
+		return value.text;
+	}
+	if (Array.isArray(value)) {
+		return '[' + value.map(writeValue).join(', ') + ']';
+	}
+	if (isTable(value)) {
+		let keys = Object.keys(value);
+		return keys.length === 0 ? '{}' : '{ ' + keys.map(key => writeKey(key) + ' = ' + writeValue(value[key])).join(', ') + ' }';
+	}
+	return String(value);
+}
+
+/**
+ * Writes the key/value pairs of a table followed by its sub-tables and arrays of tables. The
+ * header of a table that only holds sub-tables is left out, the sub-table headers imply it.
+ */
+function writeTable(path: string[], table: TOMLTable, header: 'none' | 'table' | 'arrayOfTables', eol: string): string[] {
+	let keys = Object.keys(table);
+	let valueKeys = keys.filter(key => !isTable(table[key]) && !isArrayOfTables(table[key]));
+	let tableKeys = keys.filter(key => valueKeys.indexOf(key) === -1);
+	let name = path.map(writeKey).join('.');
+
+	let lines: string[] = [];
+	if (header === 'arrayOfTables') {
+		lines.push('[[' + name + ']]');
+	} else if (header === 'table' && (valueKeys.length > 0 || tableKeys.length === 0)) {
+		lines.push('[' + name + ']');
+	}
+	valueKeys.forEach(key => lines.push(writeKey(key) + ' = ' + writeValue(table[key])));
+
+	let blocks = lines.length > 0 ? [lines.join(eol)] : [];
+	for (let key of tableKeys) {
+		let value = table[key];
+		if (isTable(value)) {
+			blocks.push(...writeTable(path.concat(key), value, 'table', eol));
+		} else {
+			(<TOMLTable[]>value).forEach(item => blocks.push(...writeTable(path.concat(key), item, 'arrayOfTables', eol)));
+		}
+	}
+	return blocks;
+}
+
+/**
+ * Writes the table as a TOML document. Nested tables become `[table]` headers and arrays of
+ * tables `[[array]]` headers, the tables in other arrays are written as inline tables.
+ */
+export function toTOML(table: TOMLTable, eol: string = '\n'): string {
+	let blocks = writeTable([], table, 'none', eol);
+	return blocks.length > 0 ? blocks.join(eol + eol) + eol : '';
+}
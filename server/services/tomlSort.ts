@@ -0,0 +1,336 @@
+'use strict';
+
+import { CodeAction, TextEdit, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument, parse } from '../parser/tomlParser';
+import { DocumentNode, TableNode, ArrayOfTablesNode, KeyValueNode, KeyNode, EntryNode, CommentNode } from '../parser/tomlNodes';
+import { getLineStart, getLineEnd } from '../utils/strings';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+export interface SortSettings {
+	caseSensitive?: boolean;
+	/**
+	 * The keys that go first in the given order, by table name. The empty name stands for the
+	 * top-level keys, e.g. `{ "package": ["name", "version"] }`.
+	 */
+	pinnedKeys?: { [table: string]: string[] };
+	/**
+	 * Also sorts the tables when the whole document is sorted, a table moves with its subtables.
+	 */
+	tables?: boolean;
+}
+
+export const defaultSortSettings: SortSettings = {
+	caseSensitive: false,
+	pinnedKeys: {},
+	tables: false
+};
+
+/**
+ * `table` sorts the keys of the table at the start of the range, `selection` the keys on the
+ * lines of the range and `document` the keys of all tables.
+ */
+export type SortScope = 'table' | 'selection' | 'document';
+
+export const sortKeysActionKind = 'source.sortKeys';
+
+type Container = DocumentNode | TableNode | ArrayOfTablesNode;
+
+/**
+ * A key/value pair or a table that is moved together with its comments.
+ */
+interface Item {
+	/**
+	 * The key the item is sorted by, relative to the table that contains it.
+	 */
+	key: string[];
+	/**
+	 * The start of the line of the first comment that belongs to the item.
+	 */
+	offset: number;
+	/**
+	 * The end of the item including the comment at the end of its last line.
+	 */
+	end: number;
+}
+
+function getKeyName(key: KeyNode): string {
+	return key.segments.map(segment => segment.value).join('.');
+}
+
+function getKeySegments(key: KeyNode): string[] {
+	return key.segments.map(segment => segment.value);
+}
+
+function isPrefix(prefix: string[], key: string[]): boolean {
+	return prefix.length < key.length && prefix.every((segment, index) => key[index] === segment);
+}
+
+function compareStrings(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Returns the table whose header or body contains the offset, a table ends where the next begins.
+ */
+function findTable(tomlDocument: TOMLDocument, offset: number): TableNode | ArrayOfTablesNode {
+	return tomlDocument.root.tables.filter(table => offset >= table.offset && offset <= table.offset + table.length).pop();
+}
+
+/**
+ * Returns the order of the keys of a table, given as their segments relative to the table: the
+ * pinned keys of the table first, then the others alphabetically. The lint rule `unsortedKeys`
+ * expects the same order.
+ */
+export function getKeyComparator(table: string, settings: SortSettings): (a: string[], b: string[]) => number {
+	let pinnedKeys = settings.pinnedKeys && settings.pinnedKeys[table] || [];
+	let getRank = (key: string[]): number => {
+		let index = pinnedKeys.indexOf(key[0]);
+		return index === -1 ? pinnedKeys.length : index;
+	};
+	let compareSegments = (a: string, b: string): number => {
+		if (!settings.caseSensitive) {
+			return compareStrings(a.toLowerCase(), b.toLowerCase()) || compareStrings(a, b);
+		}
+		return compareStrings(a, b);
+	};
+	let compareKeys = (a: string[], b: string[]): number => {
+		for (let i = 0; i < a.length && i < b.length; i++) {
+			let result = compareSegments(a[i], b[i]);
+			if (result !== 0) {
+				return result;
+			}
+		}
+		return a.length - b.length;
+	};
+	return (a: string[], b: string[]) => getRank(a) - getRank(b) || compareKeys(a, b);
+}
+
+function sortItems(items: Item[], compare: (a: string[], b: string[]) => number): Item[] {
+	// the sort is stable, the elements of an array of tables keep their order
+	return items.slice().sort((a, b) => compare(a.key, b.key));
+}
+
+/**
+ * Puts the items in the new order. The text between the items, the line breaks and blank
+ * lines, stays where it is, so groups of keys separated by blank lines keep their sizes.
+ */
+function reorder(text: string, items: Item[], sorted: Item[]): string {
+	let result = '';
+	for (let i = 0; i < items.length; i++) {
+		result += text.substring(sorted[i].offset, sorted[i].end);
+		if (i < items.length - 1) {
+			result += text.substring(items[i].end, items[i + 1].offset);
+		}
+	}
+	return result;
+}
+
+/**
+ * Returns the edit that turns the text of the document into the new text, it only covers the
+ * part that changed.
+ */
+function getEdits(document: TextDocument, text: string, newText: string): TextEdit[] {
+	let start = 0;
+	while (start < text.length && start < newText.length && text.charAt(start) === newText.charAt(start)) {
+		start++;
+	}
+	if (start === text.length && start === newText.length) {
+		return [];
+	}
+	let end = text.length;
+	let newEnd = newText.length;
+	while (end > start && newEnd > start && text.charAt(end - 1) === newText.charAt(newEnd - 1)) {
+		end--;
+		newEnd--;
+	}
+	return [TextEdit.replace(Range.create(document.positionAt(start), document.positionAt(end)), newText.substring(start, newEnd))];
+}
+
+function sortKeyValues(text: string, tomlDocument: TOMLDocument, scope: SortScope, offset: number, end: number, settings: SortSettings): string {
+	let root = tomlDocument.root;
+
+	let isOwnLine = (comment: CommentNode): boolean => text.substring(getLineStart(text, comment.offset), comment.offset).trim().length === 0;
+
+	// the end of a node including the comment at the end of its line
+	let getEntryEnd = (keyValue: KeyValueNode): number => {
+		let end = keyValue.offset + keyValue.length;
+		let lineEnd = getLineEnd(text, end);
+		let comment = tomlDocument.comments.filter(comment => comment.offset >= end && comment.offset < lineEnd)[0];
+		return comment ? comment.offset + comment.length : end;
+	};
+
+	// the comments on the lines right above the first key/value pair belong to it, the
+	// comments between two pairs belong to the second pair
+	let getItems = (body: EntryNode[], keyValues: KeyValueNode[]): Item[] => {
+		let items: Item[] = [];
+		let comments: CommentNode[] = [];
+		let previous: KeyValueNode;
+		for (let entry of body) {
+			if (entry.type === 'comment') {
+				if (isOwnLine(entry)) {
+					comments.push(entry);
+				}
+				continue;
+			}
+			if (keyValues.indexOf(entry) !== -1) {
+				let start = getLineStart(text, entry.offset);
+				let leading = previous && keyValues.indexOf(previous) !== -1 ? comments : [];
+				if (leading.length === 0) {
+					for (let i = comments.length - 1; i >= 0 && getLineEnd(text, comments[i].offset) === start - (text.charAt(start - 2) === '\r' ? 2 : 1); i--) {
+						start = getLineStart(text, comments[i].offset);
+					}
+				} else {
+					start = getLineStart(text, leading[0].offset);
+				}
+				items.push({ key: getKeySegments(entry.key), offset: start, end: getEntryEnd(entry) });
+			}
+			comments = [];
+			previous = entry;
+		}
+		return items;
+	};
+
+	let containers: Container[] = [root, ...root.tables];
+	if (scope === 'table') {
+		containers = [findTable(tomlDocument, offset) || root];
+	}
+	let regions: { items: Item[], sorted: Item[] }[] = [];
+	for (let container of containers) {
+		let keyValues = <KeyValueNode[]>container.body.filter(entry => entry.type === 'keyValue');
+		if (scope === 'selection') {
+			let lineStart = getLineStart(text, offset);
+			keyValues = keyValues.filter(keyValue => keyValue.offset + keyValue.length > lineStart && keyValue.offset < Math.max(end, offset + 1));
+		}
+		if (keyValues.length < 2) {
+			continue;
+		}
+		let items = getItems(container.body, keyValues);
+		let name = container.type === 'document' ? '' : getKeyName(container.key);
+		regions.push({ items, sorted: sortItems(items, getKeyComparator(name, settings)) });
+	}
+
+	let result = '';
+	let position = 0;
+	for (let region of regions) {
+		let items = region.items;
+		result += text.substring(position, items[0].offset) + reorder(text, items, region.sorted);
+		position = items[items.length - 1].end;
+	}
+	return result + text.substring(position);
+}
+
+/**
+ * Sorts the tables of the document. A table moves with the comments on the lines right above
+ * its header and with its subtables, a subtable of an array of tables stays with its element.
+ */
+function sortTables(text: string, tomlDocument: TOMLDocument, settings: SortSettings): string {
+	let tables = tomlDocument.root.tables;
+	if (tables.length < 2) {
+		return text;
+	}
+
+	// the start of the line of the comments right above the header, the first line of the
+	// document describes the document and stays
+	let getTableStart = (table: TableNode | ArrayOfTablesNode): number => {
+		let start = getLineStart(text, table.offset);
+		let comments = tomlDocument.comments.filter(comment => comment.offset < start);
+		for (let i = comments.length - 1; i >= 0 && start > 0; i--) {
+			let previousStart = getLineStart(text, start - 1);
+			let comment = comments[i];
+			if (previousStart === 0 || comment.offset + comment.length !== getLineEnd(text, previousStart) || text.substring(previousStart, comment.offset).trim().length > 0) {
+				break;
+			}
+			start = previousStart;
+		}
+		return start;
+	};
+
+	interface Block extends Item {
+		name: string;
+		segments: string[];
+		children: Block[];
+	}
+
+	let root: Block = { key: [], name: '', segments: [], offset: 0, end: 0, children: [] };
+	let blocks: Block[] = [];
+	tables.forEach((table, index) => {
+		let next = tables[index + 1];
+		let offset = getTableStart(table);
+		let end = next ? getTableStart(next) : text.length;
+		// the blank lines after a table are the separator to the next table
+		while (end > offset && /\s/.test(text.charAt(end - 1))) {
+			end--;
+		}
+		let segments = getKeySegments(table.key);
+		// the parent is the last table with the longest key that starts the key of the table
+		let parent = root;
+		for (let block of blocks) {
+			if (isPrefix(block.segments, segments) && block.segments.length >= parent.segments.length) {
+				parent = block;
+			}
+		}
+		let block: Block = { key: segments.slice(parent.segments.length), name: getKeyName(table.key), segments, offset, end, children: [] };
+		parent.children.push(block);
+		blocks.push(block);
+	});
+
+	let sorted: Block[] = [];
+	let visit = (parent: Block) => {
+		for (let block of <Block[]>sortItems(parent.children, getKeyComparator(parent.name, settings))) {
+			sorted.push(block);
+			visit(block);
+		}
+	};
+	visit(root);
+
+	return text.substring(0, blocks[0].offset) + reorder(text, blocks, sorted) + text.substring(blocks[blocks.length - 1].end);
+}
+
+/**
+ * Sorts the keys of the scope. The comments on the lines above a key/value pair and at the end
+ * of its line move with it. Returns no edits for a document with errors.
+ */
+export function sortKeys(document: TextDocument, tomlDocument: TOMLDocument, range: Range, scope: SortScope, settings: SortSettings): TextEdit[] {
+	if (tomlDocument.errors.length > 0) {
+		// the structure of a broken document is not reliable enough to move its parts
+		return [];
+	}
+	settings = Object.assign({}, defaultSortSettings, settings);
+	let text = document.getText();
+	let newText = sortKeyValues(text, tomlDocument, scope, document.offsetAt(range.start), document.offsetAt(range.end), settings);
+	if (scope === 'document' && settings.tables) {
+		let sortedDocument = parse(newText);
+		if (sortedDocument.errors.length === 0) {
+			newText = sortTables(newText, sortedDocument, settings);
+		}
+	}
+	return getEdits(document, text, newText);
+}
+
+/**
+ * Computes the code actions that sort the keys of the selection, of the table at the range and
+ * of the document. An action is only offered when it changes the document.
+ */
+export function getSortActions(document: TextDocument, tomlDocument: TOMLDocument, range: Range, settings: SortSettings): CodeAction[] {
+	let result: CodeAction[] = [];
+	let add = (title: string, scope: SortScope) => {
+		let edits = sortKeys(document, tomlDocument, range, scope, settings);
+		if (edits.length > 0) {
+			result.push(CodeAction.create(title, { changes: { [document.uri]: edits } }, sortKeysActionKind));
+		}
+	};
+	if (range.start.line !== range.end.line) {
+		add(localize('sort.selection', 'Sort the selected keys'), 'selection');
+	}
+	let table = findTable(tomlDocument, document.offsetAt(range.start));
+	if (table) {
+		add(localize('sort.table', 'Sort the keys of "{0}"', getKeyName(table.key)), 'table');
+	} else {
+		add(localize('sort.topLevel', 'Sort the top-level keys'), 'table');
+	}
+	add(localize('sort.document', 'Sort all keys of the document'), 'document');
+	return result;
+}
@@ -0,0 +1,87 @@
+'use strict';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TOMLDocument, ParseError, ParseErrorCode } from '../parser/tomlParser';
+import { TOMLNode, ValueNode } from '../parser/tomlNodes';
+import { SyntaxKind } from '../parser/tomlScanner';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+/*
+ * The parser reads TOML 1.0. Documents written for an older version of TOML are checked for
+ * the constructs that version does not know: TOML 0.5 added dotted keys, hexadecimal, octal
+ * and binary integers, `inf` and `nan`, local dates and times and the space between the date
+ * and the time. TOML 1.0 allows arrays with items of different types.
+ */
+
+export type SpecVersion = '0.4' | '0.5' | '1.0';
+
+export const defaultSpecVersion: SpecVersion = '1.0';
+
+function getValueType(value: ValueNode): string {
+	switch (value.type) {
+		case 'dateTime': return value.kind;
+		case 'inlineTable': return 'table';
+	}
+	return value.type;
+}
+
+/**
+ * Returns the errors of the constructs the TOML version does not allow.
+ */
+export function getSpecVersionErrors(document: TextDocument, tomlDocument: TOMLDocument, specVersion: SpecVersion): ParseError[] {
+	let text = document.getText();
+	let errors: ParseError[] = [];
+
+	let report = (node: TOMLNode, kind: SyntaxKind, construct: string, version: SpecVersion) => {
+		errors.push({
+			code: ParseErrorCode.UnsupportedSyntax,
+			message: localize('error.unsupportedSyntax', '{0} require TOML {1}, the document is checked against TOML {2}', construct, version, specVersion),
+			token: { kind, offset: node.offset, length: node.length },
+			resyncedTokens: []
+		});
+	};
+
+	let before05 = specVersion === '0.4';
+	let before10 = before05 || specVersion === '0.5';
+
+	tomlDocument.visit(node => {
+		switch (node.type) {
+			case 'keyValue':
+				if (before05 && node.key.segments.length > 1) {
+					report(node.key, SyntaxKind.BareKeyToken, localize('spec.dottedKeys', 'Dotted keys'), '0.5');
+				}
+				break;
+			case 'integer':
+				if (before05 && /^0[xob]/.test(text.substr(node.offset, 2))) {
+					report(node, SyntaxKind.LiteralToken, localize('spec.prefixedIntegers', 'Hexadecimal, octal and binary integers'), '0.5');
+				}
+				break;
+			case 'float':
+				if (before05 && !isFinite(node.value)) {
+					report(node, SyntaxKind.LiteralToken, localize('spec.nonFiniteFloats', 'Infinity and NaN'), '0.5');
+				}
+				break;
+			case 'dateTime':
+				if (before05 && node.kind !== 'offsetDateTime') {
+					report(node, SyntaxKind.LiteralToken, localize('spec.localDateTimes', 'Local dates and times'), '0.5');
+				} else if (before05 && text.charAt(node.offset + 10) === ' ') {
+					report(node, SyntaxKind.LiteralToken, localize('spec.dateTimeSpace', 'Date-times with a space instead of "T"'), '0.5');
+				}
+				break;
+			case 'array':
+				if (before10) {
+					let type = node.items.length > 0 && getValueType(node.items[0]);
+					let item = node.items.filter(item => getValueType(item) !== type)[0];
+					if (item) {
+						report(item, SyntaxKind.LiteralToken, localize('spec.mixedTypeArrays', 'Arrays with items of different types'), '1.0');
+					}
+				}
+				break;
+		}
+		return true;
+	});
+
+	return errors.sort((a, b) => a.token.offset - b.token.offset);
+}
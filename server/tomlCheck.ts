@@ -0,0 +1,384 @@
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity, FormattingOptions, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { configure as configureHttpRequests } from 'request-light';
+import * as jsonc from 'jsonc-parser';
+import path = require('path');
+import fs = require('fs');
+import os = require('os');
+import URI from './utils/uri';
+import { getSchemaCache } from './schemaCache';
+import { getProjectConfigs, ProjectConfig, ProjectConfigs } from './projectConfig';
+import { defaultFormatSettings } from './services/tomlFormatter';
+import { defaultLintSettings } from './services/tomlLint';
+import { defaultSortSettings } from './services/tomlSort';
+import { defaultSpecVersion } from './services/tomlSpecVersion';
+import { Settings, workspaceContext, requestSchema, getLanguageSettings, getTomlLanguageService } from './tomlLanguageService';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+/*
+ * `toml-check`: the parser, schema validation, lint rules and formatter of the language server
+ * on the command line. The settings are read from the VS Code settings and the `.toml-tools.toml`
+ * files of the project, so that the editor and CI report the same problems.
+ */
+
+const usage = [
+	'Usage: toml-check check [options] [paths...]',
+	'       toml-check fmt --check|--write [options] [paths...]',
+	'',
+	'Checks or formats the given TOML files and the .toml files in the given folders, the current folder by default.',
+	'Exits with 1 when a file has errors or warnings or is not formatted.',
+	'',
+	'Options:',
+	'  --format text|json|sarif|github  How problems are reported, text by default',
+	'  --config <file>                  The settings file, .vscode/settings.json by default'
+].join('\n');
+
+type OutputFormat = 'text' | 'json' | 'sarif' | 'github';
+
+interface Options {
+	command: 'check' | 'fmt';
+	/**
+	 * Whether `fmt` reports unformatted files or rewrites them.
+	 */
+	mode?: 'check' | 'write';
+	format: OutputFormat;
+	config?: string;
+	paths: string[];
+}
+
+interface Project {
+	root: string;
+	settings: Partial<Settings>;
+	formattingOptions: FormattingOptions;
+	configs: ProjectConfigs;
+}
+
+interface Problem {
+	file: string;
+	diagnostic: Diagnostic;
+}
+
+/**
+ * Returns the options of the command line, or the message that tells what's wrong with it.
+ */
+function parseArguments(args: string[]): Options | string {
+	let command = args[0];
+	if (command !== 'check' && command !== 'fmt') {
+		return command ? `Unknown command '${command}'.` : 'Missing command.';
+	}
+	let options: Options = { command, format: 'text', paths: [] };
+	for (let i = 1; i < args.length; i++) {
+		let arg = args[i];
+		let match = /^(--[\w-]+)=(.*)$/.exec(arg);
+		let name = match ? match[1] : arg;
+		let value = () => match ? match[2] : args[++i];
+		switch (name) {
+			case '--check':
+			case '--write':
+				if (command !== 'fmt') {
+					return `'${name}' only applies to fmt.`;
+				}
+				options.mode = name === '--check' ? 'check' : 'write';
+				break;
+			case '--format':
+				let format = value();
+				if (['text', 'json', 'sarif', 'github'].indexOf(format) === -1) {
+					return `Unknown format '${format}'.`;
+				}
+				options.format = <OutputFormat>format;
+				break;
+			case '--config':
+				options.config = value();
+				if (!options.config) {
+					return `Missing file of '--config'.`;
+				}
+				break;
+			default:
+				if (arg[0] === '-') {
+					return `Unknown option '${arg}'.`;
+				}
+				options.paths.push(arg);
+		}
+	}
+	if (command === 'fmt' && !options.mode) {
+		return `fmt needs '--check' or '--write'.`;
+	}
+	return options;
+}
+
+function setSetting(target: any, keys: string[], value: any): void {
+	let key = keys[0];
+	if (keys.length > 1) {
+		target[key] = typeof target[key] === 'object' && target[key] !== null ? target[key] : {};
+		setSetting(target[key], keys.slice(1), value);
+	} else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+		Object.keys(value).forEach(name => setSetting(target, [key, name], value[name]));
+	} else {
+		target[key] = value;
+	}
+}
+
+/**
+ * Reads the `toml` and `http` settings of a VS Code settings file, written as dotted names like
+ * `"toml.lint.keyNaming"` or as objects, and the indentation of TOML files.
+ */
+function readProject(file: string, required: boolean): Project {
+	let root = path.dirname(path.resolve(file));
+	if (path.basename(root) === '.vscode') {
+		root = path.dirname(root);
+	}
+	let project: Project = { root, settings: {}, formattingOptions: { tabSize: 4, insertSpaces: true }, configs: getProjectConfigs() };
+	if (!fs.existsSync(file)) {
+		if (required) {
+			throw new Error(`The settings file '${file}' doesn't exist.`);
+		}
+		return project;
+	}
+	let errors: jsonc.ParseError[] = [];
+	let values = jsonc.parse(fs.readFileSync(file, 'utf8'), errors, { allowTrailingComma: true });
+	if (errors.length > 0 || typeof values !== 'object' || values === null) {
+		throw new Error(`The settings file '${file}' is not valid JSON.`);
+	}
+	Object.keys(values).forEach(name => {
+		let keys = name.split('.');
+		if (keys[0] === 'toml' || keys[0] === 'http') {
+			setSetting(project.settings, keys, values[name]);
+		}
+	});
+	let languageValues = values['[toml]'] || {};
+	let editorSetting = (name: string) => name in languageValues ? languageValues[name] : values[name];
+	if (typeof editorSetting('editor.tabSize') === 'number') {
+		project.formattingOptions.tabSize = editorSetting('editor.tabSize');
+	}
+	if (typeof editorSetting('editor.insertSpaces') === 'boolean') {
+		project.formattingOptions.insertSpaces = editorSetting('editor.insertSpaces');
+	}
+	return project;
+}
+
+function getProjectConfig(project: Project, file: string): ProjectConfig {
+	return project.configs.getConfig(URI.file(path.resolve(file)).toString(), project.root);
+}
+
+/**
+ * Returns the given files and the `.toml` files in the given folders, without the files the
+ * project configuration excludes. Hidden folders and `node_modules` are skipped.
+ */
+function collectFiles(paths: string[], project: Project): string[] {
+	let files: string[] = [];
+	let visit = (folder: string) => {
+		fs.readdirSync(folder).sort().forEach(name => {
+			let file = path.join(folder, name);
+			if (fs.statSync(file).isDirectory()) {
+				if (name[0] !== '.' && name !== 'node_modules') {
+					visit(file);
+				}
+			} else if (path.extname(name) === '.toml') {
+				files.push(file);
+			}
+		});
+	};
+	paths.forEach(file => {
+		if (!fs.existsSync(file)) {
+			throw new Error(`'${file}' doesn't exist.`);
+		}
+		fs.statSync(file).isDirectory() ? visit(file) : files.push(file);
+	});
+	return files.filter(file => {
+		let config = getProjectConfig(project, file);
+		return !config || !config.excluded;
+	});
+}
+
+function getLanguageService(project: Project) {
+	let toml = project.settings.toml || <Settings['toml']>{};
+	let http = project.settings.http || <Settings['http']>{};
+	configureHttpRequests(http.proxy, http.proxyStrictSSL);
+
+	let schemaCacheSettings = toml.schemaCache || {};
+	let schemaCache = getSchemaCache({
+		directory: schemaCacheSettings.directory || path.join(os.tmpdir(), 'vscode-toml-schemas'),
+		ttl: typeof schemaCacheSettings.ttl === 'number' ? schemaCacheSettings.ttl : 24 * 60 * 60,
+		offline: !!schemaCacheSettings.offline
+	});
+	let languageService = getTomlLanguageService({
+		schemaRequestService: uri => requestSchema(uri, schemaCache),
+		workspaceContext
+	}, uri => {
+		let config = project.configs.getConfig(uri, project.root);
+		return config && config.schema;
+	});
+	languageService.configure(getLanguageSettings(toml.schemas, void 0, URI.file(project.root)));
+	return languageService;
+}
+
+function readDocument(file: string): TextDocument {
+	return TextDocument.create(URI.file(path.resolve(file)).toString(), 'toml', 0, fs.readFileSync(file, 'utf8'));
+}
+
+function check(files: string[], project: Project): Thenable<Problem[]> {
+	let languageService = getLanguageService(project);
+	let toml = project.settings.toml || <Settings['toml']>{};
+	let lintSettings = Object.assign({}, defaultLintSettings, toml.lint);
+	let specVersion = toml.specVersion || defaultSpecVersion;
+	let sortSettings = Object.assign({}, defaultSortSettings, toml.sort);
+
+	return files.reduce((previous, file) => previous.then(problems => {
+		let document = readDocument(file);
+		if (document.getText().length === 0) {
+			return problems;
+		}
+		let tomlDocument = languageService.parseTOMLDocument(document);
+		let config = getProjectConfig(project, file);
+		let fileLintSettings = config ? Object.assign({}, lintSettings, config.lint) : lintSettings;
+		return languageService.doValidation(document, tomlDocument, fileLintSettings, config && config.specVersion || specVersion, sortSettings).then(diagnostics => {
+			return problems.concat(diagnostics.map(diagnostic => ({ file, diagnostic })));
+		});
+	}), Promise.resolve<Problem[]>([]));
+}
+
+/**
+ * Formats the files like the editor does. Returns the files that aren't formatted, or that have
+ * been rewritten with `--write`.
+ */
+function formatFiles(files: string[], project: Project, write: boolean): string[] {
+	let languageService = getLanguageService(project);
+	let formatSettings = Object.assign({}, defaultFormatSettings, project.settings.toml && project.settings.toml.format);
+
+	return files.filter(file => {
+		let document = readDocument(file);
+		let config = getProjectConfig(project, file);
+		let fileFormatSettings = config ? Object.assign({}, formatSettings, config.format) : formatSettings;
+		let edits = languageService.doFormat(document, languageService.parseTOMLDocument(document), void 0, project.formattingOptions, fileFormatSettings);
+		let text = TextDocument.applyEdits(document, edits);
+		if (text === document.getText()) {
+			return false;
+		}
+		if (write) {
+			fs.writeFileSync(file, text);
+		}
+		return true;
+	});
+}
+
+function getSeverityName(severity: DiagnosticSeverity): string {
+	switch (severity) {
+		case DiagnosticSeverity.Warning: return 'warning';
+		case DiagnosticSeverity.Information: return 'info';
+		case DiagnosticSeverity.Hint: return 'hint';
+	}
+	return 'error';
+}
+
+function toSlashes(file: string): string {
+	return file.split(path.sep).join('/');
+}
+
+/// GitHub workflow commands escape the message and, in addition, the separators of the properties
+function escapeWorkflowCommand(value: string, isProperty: boolean): string {
+	value = value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+	return isProperty ? value.replace(/:/g, '%3A').replace(/,/g, '%2C') : value;
+}
+
+function writeProblems(problems: Problem[], format: OutputFormat): string {
+	let locations = problems.map(problem => {
+		let range = problem.diagnostic.range;
+		return { file: toSlashes(problem.file), line: range.start.line + 1, column: range.start.character + 1, endLine: range.end.line + 1, endColumn: range.end.character + 1 };
+	});
+	switch (format) {
+		case 'json':
+			return JSON.stringify(problems.map((problem, i) => Object.assign(locations[i], {
+				severity: getSeverityName(problem.diagnostic.severity),
+				message: problem.diagnostic.message,
+				code: problem.diagnostic.code,
+				source: problem.diagnostic.source
+			})), null, 2);
+		case 'sarif':
+			let levels = ['error', 'error', 'warning', 'note', 'note'];
+			return JSON.stringify({
+				$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+				version: '2.1.0',
+				runs: [{
+					tool: { driver: { name: 'toml-check', informationUri: 'https://github.com/bungcip/better-toml' } },
+					results: problems.map((problem, i) => ({
+						ruleId: problem.diagnostic.code !== undefined ? String(problem.diagnostic.code) : problem.diagnostic.source,
+						level: levels[problem.diagnostic.severity || DiagnosticSeverity.Error],
+						message: { text: problem.diagnostic.message },
+						locations: [{
+							physicalLocation: {
+								artifactLocation: { uri: locations[i].file },
+								region: { startLine: locations[i].line, startColumn: locations[i].column, endLine: locations[i].endLine, endColumn: locations[i].endColumn }
+							}
+						}]
+					}))
+				}]
+			}, null, 2);
+		case 'github':
+			return problems.map((problem, i) => {
+				let command = ['error', 'error', 'warning', 'notice', 'notice'][problem.diagnostic.severity || DiagnosticSeverity.Error];
+				let location = locations[i];
+				let properties = `file=${escapeWorkflowCommand(location.file, true)},line=${location.line},col=${location.column},endLine=${location.endLine},endColumn=${location.endColumn}`;
+				if (problem.diagnostic.source) {
+					properties += ',title=' + escapeWorkflowCommand(problem.diagnostic.source, true);
+				}
+				return `::${command} ${properties}::${escapeWorkflowCommand(problem.diagnostic.message, false)}`;
+			}).join('\n');
+	}
+	return problems.map((problem, i) => {
+		let location = locations[i];
+		let source = problem.diagnostic.source ? ` (${problem.diagnostic.source})` : '';
+		return `${location.file}:${location.line}:${location.column}: ${getSeverityName(problem.diagnostic.severity)}: ${problem.diagnostic.message}${source}`;
+	}).join('\n');
+}
+
+/**
+ * Runs the command and returns the exit code: 1 when an error or a warning has been found, like
+ * a schema violation, 0 otherwise. Lint rules set to `info` or `hint` don't fail the check.
+ */
+function run(options: Options): Thenable<number> {
+	let project = readProject(options.config || path.join('.vscode', 'settings.json'), !!options.config);
+	let files = collectFiles(options.paths.length > 0 ? options.paths : ['.'], project);
+
+	let result: Thenable<Problem[]>;
+	if (options.command === 'check') {
+		result = check(files, project);
+	} else {
+		let changed = formatFiles(files, project, options.mode === 'write');
+		if (options.mode === 'write') {
+			if (options.format === 'text') {
+				changed.forEach(file => console.log(localize('check.formatted', 'Formatted {0}', toSlashes(file))));
+			}
+			changed = [];
+		}
+		let start = { line: 0, character: 0 };
+		result = Promise.resolve(changed.map(file => ({
+			file,
+			diagnostic: { range: Range.create(start, start), severity: DiagnosticSeverity.Error, message: localize('check.notFormatted', 'The file is not formatted'), source: 'toml-check' }
+		})));
+	}
+	return result.then(problems => {
+		let output = writeProblems(problems, options.format);
+		if (output || options.format === 'json' || options.format === 'sarif') {
+			console.log(output);
+		}
+		return problems.some(problem => (problem.diagnostic.severity || DiagnosticSeverity.Error) <= DiagnosticSeverity.Warning) ? 1 : 0;
+	});
+}
+
+let options = parseArguments(process.argv.slice(2));
+if (typeof options === 'string') {
+	console.error(options);
+	console.error(usage);
+	process.exitCode = 2;
+} else {
+	new Promise<number>(c => c(run(<Options>options))).then(code => {
+		process.exitCode = code;
+	}, error => {
+		console.error(error.message || String(error));
+		process.exitCode = 2;
+	});
+}
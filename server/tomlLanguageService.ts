@@ -0,0 +1,322 @@
+'use strict';
+
+import {
+	Diagnostic, DiagnosticSeverity, SymbolInformation, DocumentSymbol, TextEdit, Range, Position, FormattingOptions,
+	CompletionList, Hover, DocumentLink, CodeAction, CodeActionContext, Location, WorkspaceEdit, ResponseError,
+	SemanticTokens, FoldingRange, SelectionRange
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { xhr, XHRResponse, getErrorStatusDescription } from 'request-light';
+import path = require('path');
+import fs = require('fs');
+import * as URL from 'url';
+import URI from './utils/uri';
+import Strings = require('./utils/strings');
+import { JSONDocument, JSONSchema, LanguageSettings, LanguageServiceParams, ErrorCode, MatchingSchema, getLanguageService } from 'vscode-json-languageservice';
+import { getDefaultSchemas } from './defaultSchemas';
+import { SchemaCache, SchemaCacheSettings } from './schemaCache';
+import { parse, TOMLDocument } from './parser/tomlParser';
+import { findDocumentSymbols, findDocumentSymbols2 } from './services/tomlDocumentSymbols';
+import { format, formatOnType, FormatSettings } from './services/tomlFormatter';
+import { doComplete } from './services/tomlCompletion';
+import { doHover } from './services/tomlHover';
+import { findSchemaAssociation, findDocumentLinks } from './services/tomlSchemaAssociation';
+import { doLint, isLintError, LintSettings } from './services/tomlLint';
+import { getCodeActions } from './services/tomlCodeActions';
+import { getRefactorings } from './services/tomlRefactorings';
+import { findDefinition, findReferences } from './services/tomlReferences';
+import { prepareRename, doRename } from './services/tomlRename';
+import { getSemanticTokens } from './services/tomlSemanticTokens';
+import { getFoldingRanges, FoldingSettings } from './services/tomlFolding';
+import { getSelectionRanges } from './services/tomlSelectionRanges';
+import { convertTOML, convertToTOML, DataFormat } from './services/tomlConversion';
+import { getJSONPreview, JSONPreview } from './services/tomlPreview';
+import { getSpecVersionErrors, SpecVersion } from './services/tomlSpecVersion';
+import { sortKeys, getSortActions, SortSettings, SortScope } from './services/tomlSort';
+
+/*
+ * The language service of the server without the connection, shared with the `toml-check`
+ * command line tool.
+ */
+
+// The settings interface describes the server relevant settings part
+export interface Settings {
+	toml: {
+		schemas: JSONSchemaSettings[];
+		specVersion: SpecVersion;
+		format: FormatSettings;
+		schemaCache: Partial<SchemaCacheSettings>;
+		lint: LintSettings;
+		sort: SortSettings;
+		folding: FoldingSettings;
+	};
+	http: {
+		proxy: string;
+		proxyStrictSSL: boolean;
+	};
+}
+
+export interface JSONSchemaSettings {
+	fileMatch?: string[];
+	url?: string;
+	schema?: JSONSchema;
+}
+
+export interface ISchemaAssociations {
+	[pattern: string]: string[];
+}
+
+export const workspaceContext = {
+	resolveRelativePath: (relativePath: string, resource: string) => {
+		return URL.resolve(resource, relativePath);
+	}
+};
+
+/// loads a schema from disk, remote schemas go through the schema cache
+export function requestSchema(uri: string, schemaCache: SchemaCache): Thenable<string> {
+	if (Strings.startsWith(uri, 'file://')) {
+		let fsPath = URI.parse(uri).fsPath;
+		return new Promise<string>((c, e) => {
+			fs.readFile(fsPath, 'UTF-8', (err, result) => {
+				err ? e(err.message) : c(result.toString());
+			});
+		});
+	}
+	if (/^https?:\/\//.test(uri)) {
+		return schemaCache.request(uri);
+	}
+	return xhr({ url: uri, followRedirects: 5 }).then(response => {
+		return response.responseText;
+	}, (error: XHRResponse) => {
+		return Promise.reject(error.responseText || getErrorStatusDescription(error.status) || error.toString());
+	});
+}
+
+/// the schemas of the `toml.schemas` setting and of the `jsonValidation` contributions, together
+/// with the default schemas of well-known files
+export function getLanguageSettings(tomlConfigurationSettings: JSONSchemaSettings[], schemaAssociations: ISchemaAssociations, workspaceRoot: URI): LanguageSettings {
+	let languageSettings: LanguageSettings = {
+		validate: true,
+		allowComments: true,
+		schemas: []
+	};
+	let userFileMatch: string[] = [];
+	if (tomlConfigurationSettings) {
+		tomlConfigurationSettings.forEach(schema => userFileMatch.push(...(schema.fileMatch || [])));
+	}
+	languageSettings.schemas.push(...getDefaultSchemas(userFileMatch));
+	if (schemaAssociations) {
+		for (var pattern in schemaAssociations) {
+			let association = schemaAssociations[pattern];
+			if (Array.isArray(association)) {
+				association.forEach(uri => {
+					languageSettings.schemas.push({ uri, fileMatch: [pattern] });
+				});
+			}
+		}
+	}
+	if (tomlConfigurationSettings) {
+		tomlConfigurationSettings.forEach(schema => {
+			let uri = schema.url;
+			if (!uri && schema.schema) {
+				uri = schema.schema.id;
+			}
+			if (!uri && schema.fileMatch) {
+				uri = 'vscode://schemas/custom/' + encodeURIComponent(schema.fileMatch.join('&'));
+			}
+			if (uri) {
+				if (uri[0] === '.' && workspaceRoot) {
+					// workspace relative path
+					uri = URI.file(path.normalize(path.join(workspaceRoot.fsPath, uri))).toString();
+				}
+				languageSettings.schemas.push({ uri, fileMatch: schema.fileMatch, schema: schema.schema });
+			}
+		});
+	}
+	return languageSettings;
+}
+
+/// the source of the diagnostics of parse errors, their code is the `ParseErrorCode`
+export const parserSource = 'Toml Parser';
+
+/// the data of a schema diagnostic for a missing required property, the quick fix adds the key
+export interface MissingPropertyData {
+	missingProperty: string;
+}
+
+/// the JSON language service gives the diagnostic of a missing required property no code. It is
+/// the one without a code at the key of an object that misses the property, and whose message
+/// names it. It gets the property as its data, so the quick fix doesn't depend on the language of
+/// the message
+function markMissingProperties(document: TextDocument, diagnostics: Diagnostic[], matchingSchemas: MatchingSchema[]): void {
+	for (let { node, schema } of matchingSchemas) {
+		if (node.type !== 'object' || !Array.isArray(schema.required)) {
+			continue;
+		}
+		let anchor = node.parent && node.parent.type === 'property' ? node.parent.keyNode.offset : node.offset;
+		for (let key of schema.required) {
+			if (node.properties.some(property => property.keyNode.value === key)) {
+				continue;
+			}
+			let diagnostic = diagnostics.filter(diagnostic => diagnostic.code === void 0 && diagnostic.data === void 0 && document.offsetAt(diagnostic.range.start) === anchor && diagnostic.message.indexOf(key) !== -1)[0];
+			if (diagnostic) {
+				diagnostic.data = <MissingPropertyData>{ missingProperty: key };
+			}
+		}
+	}
+}
+
+export interface TomlLanguageService {
+	configure(settings: LanguageSettings): void;
+	resetSchema(uri: string): boolean;
+    parseTOMLDocument(document: TextDocument): TOMLDocument; 
+    doValidation(textDocument: TextDocument, tomlDocument: TOMLDocument, settings: LintSettings, specVersion: SpecVersion, sortSettings?: SortSettings): Thenable<Diagnostic[]>;
+	doComplete(document: TextDocument, position: Position, tomlDocument: TOMLDocument): Thenable<CompletionList>;
+	doHover(document: TextDocument, position: Position, tomlDocument: TOMLDocument): Thenable<Hover>;
+	doCodeActions(document: TextDocument, range: Range, context: CodeActionContext, tomlDocument: TOMLDocument, sortSettings: SortSettings): Thenable<CodeAction[]>;
+	doSortKeys(document: TextDocument, tomlDocument: TOMLDocument, range: Range, scope: SortScope, settings: SortSettings): TextEdit[];
+	convertTOML(document: TextDocument, tomlDocument: TOMLDocument, format: DataFormat): string | ResponseError<void>;
+	convertToTOML(text: string, format: DataFormat): string | ResponseError<void>;
+	getJSONPreview(document: TextDocument, tomlDocument: TOMLDocument): JSONPreview;
+	findDefinition(document: TextDocument, position: Position, tomlDocument: TOMLDocument): Location;
+	findReferences(document: TextDocument, position: Position, tomlDocument: TOMLDocument, includeDeclaration: boolean): Location[];
+	prepareRename(document: TextDocument, position: Position, tomlDocument: TOMLDocument): { range: Range, placeholder: string } | ResponseError<void>;
+	doRename(document: TextDocument, position: Position, newName: string, tomlDocument: TOMLDocument): WorkspaceEdit | ResponseError<void>;
+	getSemanticTokens(document: TextDocument, tomlDocument: TOMLDocument): SemanticTokens;
+	getFoldingRanges(document: TextDocument, tomlDocument: TOMLDocument, settings: FoldingSettings, rangeLimit?: number): FoldingRange[];
+	getSelectionRanges(document: TextDocument, positions: Position[], tomlDocument: TOMLDocument): SelectionRange[];
+	findDocumentSymbols(document: TextDocument, tomlDocument: TOMLDocument): SymbolInformation[];
+	findDocumentSymbols2(document: TextDocument, tomlDocument: TOMLDocument): DocumentSymbol[];
+	doFormat(document: TextDocument, tomlDocument: TOMLDocument, range: Range, options: FormattingOptions, settings: FormatSettings): TextEdit[];
+	doFormatOnType(document: TextDocument, tomlDocument: TOMLDocument, position: Position, ch: string, options: FormattingOptions, settings: FormatSettings): TextEdit[];
+	findDocumentLinks(document: TextDocument, tomlDocument: TOMLDocument): DocumentLink[];
+}
+
+/// parse TOML for vs code text
+/// the parser recovers from errors, so the document also holds the valid parts of a broken text
+function parseTOML(input: string): TOMLDocument {
+	return parse(input);
+}
+
+/// helper function to get language service, `getProjectSchema` returns the schema a project
+/// configuration file associates with a document
+export function getTomlLanguageService(params: LanguageServiceParams, getProjectSchema?: (uri: string) => string): TomlLanguageService {
+    /// setup toml ls
+    let jsonLs = getLanguageService(params);
+
+	/// the JSON AST of a TOML document. Its nodes carry the offsets of the TOML keys and
+	/// values, so the results of the JSON language service land on the TOML text
+	let getJSONDocument = (tomlDocument: TOMLDocument): JSONDocument => jsonLs.newJSONDocument(tomlDocument.jsonRoot);
+
+	/// a schema reference of the document is a URL or a path relative to the document
+	let resolveSchemaReference = (reference: string, document: TextDocument): string => {
+		if (/^\w[\w\d+.-]*:/.test(reference)) {
+			return reference;
+		}
+		return params.workspaceContext.resolveRelativePath(reference, document.uri);
+	};
+
+	/// the schema named by a `#:schema` directive or a `$schema` key, or else by the project
+	/// configuration. It is handed to the JSON language service in place of the `fileMatch`
+	/// associations. The id keeps a single handle per schema, the referenced schema is loaded
+	/// and cached like an associated schema
+	let getDocumentSchema = (document: TextDocument, tomlDocument: TOMLDocument): JSONSchema => {
+		let association = findSchemaAssociation(document, tomlDocument);
+		let uri = association ? resolveSchemaReference(association.reference, document) : getProjectSchema && getProjectSchema(document.uri);
+		if (!uri) {
+			return void 0;
+		}
+		return { id: 'toml://schemaAssociation/' + encodeURIComponent(uri), $ref: uri };
+	};
+
+	/// the schemas associated with the document
+	let getSchemas = (document: TextDocument, tomlDocument: TOMLDocument): Thenable<JSONSchema[]> => {
+		let root = tomlDocument.jsonRoot;
+		return jsonLs.getMatchingSchemas(document, getJSONDocument(tomlDocument), getDocumentSchema(document, tomlDocument)).then(matchingSchemas => {
+			return matchingSchemas.filter(matchingSchema => matchingSchema.node === root).map(matchingSchema => matchingSchema.schema);
+		});
+	};
+
+	return {
+		configure: (settings: LanguageSettings) => jsonLs.configure(settings),
+		resetSchema: (uri: string) => jsonLs.resetSchema(uri),
+        parseTOMLDocument: (document: TextDocument) => parseTOML(document.getText()),
+		doValidation: (textDocument: TextDocument, tomlDocument: TOMLDocument, settings: LintSettings, specVersion: SpecVersion, sortSettings?: SortSettings) => {
+			/// duplicate keys and tables are reported by the lint rules, with the configured severity
+			let lintDiagnostics = doLint(textDocument, tomlDocument, settings, sortSettings);
+
+            /// validate toml first, one diagnostic per parse error and per construct the TOML version does not allow
+			let errors = tomlDocument.errors.filter(error => !isLintError(error)).concat(getSpecVersionErrors(textDocument, tomlDocument, specVersion));
+            if(errors.length > 0){
+				let diagnostics: Diagnostic[] = errors.map(error => ({
+					severity: DiagnosticSeverity.Error,
+					range: {
+						start: textDocument.positionAt(error.token.offset),
+						end: textDocument.positionAt(error.token.offset + error.token.length)
+					},
+					message: error.message,
+					code: error.code,
+					source: parserSource
+				}));
+
+                return Promise.resolve(diagnostics.concat(lintDiagnostics));
+			}
+
+			/// validate against the associated JSON schema
+			let association = findSchemaAssociation(textDocument, tomlDocument);
+			let jsonDocument = getJSONDocument(tomlDocument);
+			let schema = getDocumentSchema(textDocument, tomlDocument);
+			return Promise.all([jsonLs.doValidation(textDocument, jsonDocument, void 0, schema), jsonLs.getMatchingSchemas(textDocument, jsonDocument, schema)]).then(([diagnostics, matchingSchemas]) => {
+				if (association) {
+					/// a schema that can not be loaded is reported at the reference of the document
+					let range = Range.create(textDocument.positionAt(association.offset), textDocument.positionAt(association.offset + association.length));
+					diagnostics.filter(diagnostic => diagnostic.code === ErrorCode.SchemaResolveError).forEach(diagnostic => diagnostic.range = range);
+				}
+				/// an element of an array of tables has no key of its own, its diagnostics cover the first character only and are widened to the header
+				diagnostics.forEach(diagnostic => {
+					let offset = textDocument.offsetAt(diagnostic.range.start);
+					let table = textDocument.offsetAt(diagnostic.range.end) === offset + 1 && tomlDocument.root.tables.filter(table => table.type === 'arrayOfTables' && table.offset === offset)[0];
+					if (table) {
+						diagnostic.range.end = textDocument.positionAt(offset + table.headerLength);
+					}
+				});
+				markMissingProperties(textDocument, diagnostics, matchingSchemas);
+				return lintDiagnostics.concat(diagnostics);
+			});
+        },
+		doComplete: (document: TextDocument, position: Position, tomlDocument: TOMLDocument) => {
+			return getSchemas(document, tomlDocument).then(schemas => doComplete(document, position, tomlDocument, schemas));
+		},
+		doHover: (document: TextDocument, position: Position, tomlDocument: TOMLDocument) => {
+			return getSchemas(document, tomlDocument).then(schemas => doHover(document, position, tomlDocument, schemas));
+		},
+		doCodeActions: (document: TextDocument, range: Range, context: CodeActionContext, tomlDocument: TOMLDocument, sortSettings: SortSettings) => {
+			return getSchemas(document, tomlDocument).then(schemas => {
+				let actions = getCodeActions(document, tomlDocument, context.diagnostics, schemas).concat(getRefactorings(document, tomlDocument, range), getSortActions(document, tomlDocument, range, sortSettings));
+				/// the client may ask for some kinds only, like the refactorings
+				if (context.only) {
+					actions = actions.filter(action => context.only.some(kind => action.kind === kind || action.kind.indexOf(kind + '.') === 0));
+				}
+				return actions;
+			});
+		},
+		doSortKeys: sortKeys,
+		convertTOML,
+		convertToTOML,
+		getJSONPreview,
+		findDefinition,
+		findReferences,
+		prepareRename,
+		doRename,
+		getSemanticTokens,
+		getFoldingRanges,
+		getSelectionRanges,
+		findDocumentSymbols,
+		findDocumentSymbols2,
+		doFormat: format,
+		doFormatOnType: formatOnType,
+		findDocumentLinks: (document: TextDocument, tomlDocument: TOMLDocument) => {
+			return findDocumentLinks(document, tomlDocument, reference => resolveSchemaReference(reference, document));
+		}
+	};
+}
@@ -5,50 +5,100 @@
 'use strict';
 
 import {
-    IPCMessageReader, IPCMessageWriter,
-	createConnection, IConnection,
-	TextDocuments, TextDocument, InitializeParams, InitializeResult, NotificationType, RequestType,
-    DiagnosticSeverity, Diagnostic
-} from 'vscode-languageserver';
+	createConnection, Connection,
+	TextDocuments, TextDocumentSyncKind, InitializeParams, InitializeResult, NotificationType, RequestType, RequestType0,
+	TextEdit, Range, CodeActionKind, Location, SemanticTokens
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 
-import { xhr, XHRResponse, configure as configureHttpRequests, getErrorStatusDescription } from 'request-light';
+import { configure as configureHttpRequests } from 'request-light';
 import path = require('path');
 import fs = require('fs');
+import os = require('os');
 import URI from './utils/uri';
-import * as URL from 'url';
 import Strings = require('./utils/strings');
-import { JSONDocument, JSONSchema, LanguageSettings, LanguageServiceParams, LanguageService, getLanguageService } from 'vscode-json-languageservice';
 // import { CargoTOMLContribution } from './tomlcontributions/cargoTOMLContribution';
 // import { ProjectJSONContribution } from './jsoncontributions/projectJSONContribution';
 // import { GlobPatternContribution } from './jsoncontributions/globPatternContribution';
 import { FileAssociationContribution } from './jsoncontributions/fileAssociationContribution';
 import { getLanguageModelCache } from './languageModelCache';
+import { getSchemaCache } from './schemaCache';
+import { TOMLDocument } from './parser/tomlParser';
+import { FormatSettings, defaultFormatSettings } from './services/tomlFormatter';
+import { LintSettings, defaultLintSettings } from './services/tomlLint';
+import { getSemanticTokensEdits, semanticTokensLegend } from './services/tomlSemanticTokens';
+import { FoldingSettings, defaultFoldingSettings } from './services/tomlFolding';
+import { Manifest, isCargoManifest, findWorkspaceDefinition, findWorkspaceReferences } from './cargoWorkspace';
+import { DataFormat } from './services/tomlConversion';
+import { JSONPreview } from './services/tomlPreview';
+import { SpecVersion, defaultSpecVersion } from './services/tomlSpecVersion';
+import { sortKeysActionKind, SortSettings, SortScope, defaultSortSettings } from './services/tomlSort';
+import { getProjectConfigs, ProjectConfig } from './projectConfig';
+import { Settings, JSONSchemaSettings, ISchemaAssociations, workspaceContext, requestSchema, getLanguageSettings, getTomlLanguageService } from './tomlLanguageService';
 
-import * as bombadil from '@sgarciac/bombadil';
-import * as ct from 'ct';
+namespace SchemaAssociationNotification {
+	export const type: NotificationType<ISchemaAssociations> = new NotificationType('json/schemaAssociations');
+}
 
-interface ISchemaAssociations {
-	[pattern: string]: string[];
+namespace VSCodeContentRequest {
+	export const type: RequestType<string, string, any> = new RequestType('vscode/content');
 }
 
-namespace SchemaAssociationNotification {
-	export const type: NotificationType<ISchemaAssociations, any> = new NotificationType('json/schemaAssociations');
+namespace ClearSchemaCacheRequest {
+	export const type: RequestType0<void, any> = new RequestType0('toml/clearSchemaCache');
 }
 
-namespace VSCodeContentRequest {
-	export const type: RequestType<string, string, any, any> = new RequestType('vscode/content');
+namespace PrefetchSchemasRequest {
+	export const type: RequestType0<string[], any> = new RequestType0('toml/prefetchSchemas');
+}
+
+interface SortKeysParams {
+	uri: string;
+	range: Range;
+	scope: SortScope;
+}
+
+namespace SortKeysRequest {
+	export const type: RequestType<SortKeysParams, TextEdit[], any> = new RequestType('toml/sortKeys');
+}
+
+interface ConvertParams {
+	uri: string;
+	format: DataFormat;
+}
+
+namespace ConvertRequest {
+	export const type: RequestType<ConvertParams, string, any> = new RequestType('toml/convert');
+}
+
+interface ConvertToTOMLParams {
+	text: string;
+	format: DataFormat;
+}
+
+namespace ConvertToTOMLRequest {
+	export const type: RequestType<ConvertToTOMLParams, string, any> = new RequestType('toml/convertToTOML');
+}
+
+interface JSONPreviewParams {
+	uri: string;
+}
+
+namespace JSONPreviewRequest {
+	export const type: RequestType<JSONPreviewParams, JSONPreview, any> = new RequestType('toml/jsonPreview');
 }
 
 
-// Create a connection for the server. The connection uses Node's IPC as a transport
-let connection: IConnection = createConnection(new IPCMessageReader(process), new IPCMessageWriter(process));
+// Create a connection for the server. The transport is picked by the command line: VS Code starts
+// the server with --node-ipc, other editors with --stdio or --socket=<port>
+let connection: Connection = createConnection();
 
 console.log = connection.console.log.bind(connection.console);
 console.error = connection.console.error.bind(connection.console);
 
 // Create a simple text document manager. The text document manager
 // supports full document sync only
-let documents: TextDocuments = new TextDocuments();
+let documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
@@ -58,38 +108,54 @@ const filesAssociationContribution = new FileAssociationContribution();
 // After the server has started the client sends an initilize request. The server receives
 // in the passed params the rootPath of the workspace plus the client capabilities.
 let workspaceRoot: URI;
+let hierarchicalDocumentSymbolSupport = false;
+let configurationSupport = false;
+let foldingRangeLimit: number = void 0;
+let defaultSchemaCacheDirectory = path.join(os.tmpdir(), 'vscode-toml-schemas');
+// the settings of a client that can't be asked for them
+let initialSettings: Partial<Settings> = {};
 connection.onInitialize((params: InitializeParams): InitializeResult => {
-	workspaceRoot = URI.parse(params.rootPath);
+	workspaceRoot = params.rootUri ? URI.parse(params.rootUri) : params.rootPath ? URI.file(params.rootPath) : void 0;
+	let textDocumentCapabilities = params.capabilities.textDocument;
+	hierarchicalDocumentSymbolSupport = !!(textDocumentCapabilities && textDocumentCapabilities.documentSymbol && textDocumentCapabilities.documentSymbol.hierarchicalDocumentSymbolSupport);
+	configurationSupport = !!(params.capabilities.workspace && params.capabilities.workspace.configuration);
+	foldingRangeLimit = textDocumentCapabilities && textDocumentCapabilities.foldingRange && textDocumentCapabilities.foldingRange.rangeLimit;
 	if (params.initializationOptions) {
 		filesAssociationContribution.setLanguageIds(params.initializationOptions.languageIds);
+		if (params.initializationOptions.storagePath) {
+			defaultSchemaCacheDirectory = path.join(params.initializationOptions.storagePath, 'schemas');
+		}
+		initialSettings = params.initializationOptions.settings || {};
 	}
 	return {
 		capabilities: {
 			// Tell the client that the server works in FULL text document sync mode
-			textDocumentSync: documents.syncKind,
-			completionProvider: { resolveProvider: true, triggerCharacters: ['"', '='] },
+			textDocumentSync: TextDocumentSyncKind.Full,
+			completionProvider: { triggerCharacters: ['.', '[', '=', '"', '{'] },
 			hoverProvider: true,
+			definitionProvider: true,
+			referencesProvider: true,
+			renameProvider: { prepareProvider: true },
+			semanticTokensProvider: { legend: semanticTokensLegend, full: { delta: true } },
+			foldingRangeProvider: true,
+			selectionRangeProvider: true,
 			documentSymbolProvider: true,
-			// documentRangeFormattingProvider: !params.initializationOptions || params.initializationOptions['format.enable']
+			documentLinkProvider: { resolveProvider: false },
+			codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix, CodeActionKind.RefactorRewrite, sortKeysActionKind] },
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			documentOnTypeFormattingProvider: { firstTriggerCharacter: '\n', moreTriggerCharacter: [']'] }
 		}
 	};
 });
 
-let workspaceContext = {
-	resolveRelativePath: (relativePath: string, resource: string) => {
-		return URL.resolve(resource, relativePath);
-	}
-};
+const defaultSchemaCacheTTL = 24 * 60 * 60;
+
+// remote schemas are stored on disk, the location is known once the settings arrive
+let schemaCache = getSchemaCache({ directory: defaultSchemaCacheDirectory, ttl: defaultSchemaCacheTTL, offline: false });
 
 let schemaRequestService = (uri: string): Thenable<string> => {
-	if (Strings.startsWith(uri, 'file://')) {
-		let fsPath = URI.parse(uri).fsPath;
-		return new Promise<string>((c, e) => {
-			fs.readFile(fsPath, 'UTF-8', (err, result) => {
-				err ? e('') : c(result.toString());
-			});
-		});
-	} else if (Strings.startsWith(uri, 'vscode://')) {
+	if (Strings.startsWith(uri, 'vscode://')) {
 		return connection.sendRequest(VSCodeContentRequest.type, uri).then(responseText => {
 			return responseText;
 		}, error => {
@@ -104,98 +170,11 @@ let schemaRequestService = (uri: string): Thenable<string> => {
 			}
 		});
 	}
-	return xhr({ url: uri, followRedirects: 5 }).then(response => {
-		return response.responseText;
-	}, (error: XHRResponse) => {
-		return Promise.reject(error.responseText || getErrorStatusDescription(error.status) || error.toString());
-	});
+	return requestSchema(uri, schemaCache);
 };
 
-
-type TOMLDocument = {
-    json: Object,
-	errors: [bombadil.TomlError]
-};
-
-interface TomlLanguageService extends LanguageService {
-    parseTOMLDocument(document: TextDocument): TOMLDocument; 
-    doValidation(textDocument: TextDocument, tomlDocument: TOMLDocument): Thenable<Diagnostic[]>;
-}
-
-/// parse TOML for vs code text
-function parseTOML(input: string): TOMLDocument {
-    let tomlDocument = {};
-
-		let reader = new bombadil.TomlReader;
-		reader.readToml(input);
-
-	if(reader.result != null){
-        tomlDocument['json'] = reader.result;
-        tomlDocument['errors'] = [];
-    }else{
-        tomlDocument['json'] = {};
-        tomlDocument['errors'] = reader.errors;
-    }
-
-    return tomlDocument as TOMLDocument;
-}
-
-/// helper function to get language service
-function getTomlLanguageService(params: LanguageServiceParams): TomlLanguageService {
-    /// setup toml ls
-    let jsonLs = getLanguageService(params);
-	let tomlLs = Object.assign({}, jsonLs, {
-        parseTOMLDocument: (document: TextDocument) => parseTOML(document.getText()),
-		doValidation: (textDocument: TextDocument, tomlDocument: TOMLDocument) => {
-            let diagnostics = [];
-
-            /// validate toml first
-            if(tomlDocument.errors.length > 0){
-				let ex = tomlDocument.errors[0];
-				let start = {line: 0, column: 0};
-				let end = {line:0, column: 1};
-				let message = ex.message;
-
-				if(ex.hasOwnProperty('line')){
-					// toml parser give position in one based, but languageserver used zero based
-					// so we must convert it before send the position
-					start = {line: ex['line'] - 1, column: ex['column'] - 1};
-					end = {line: ex['line'] - 1, column: ex['column'] + ex['length']};
-				}else if (ex.hasOwnProperty('token')){
-					let token = ex['token'];
-					start = {line: token.line - 1, column: token.column - 1};
-					end = {line: token.line - 1, column: token.column - 1 + token.length};
-				}else {
-
-				}
-
-				diagnostics.push({
-					severity: DiagnosticSeverity.Error,
-					range: {start, end},
-					message: message,
-					source: 'Toml Parser'
-				});
-
-
-                return Promise.resolve(diagnostics);
-			}
-			
-			return Promise.resolve();
-
-            // /// convert to json string because we want to use json schema validation...
-            // /// basically we convert TOML -> JS Object -> JSON String -> JSON AST
-            // let jsonString = JSON.stringify(tomlDocument.json);
-            // let facade = {
-            //     getText: () => jsonString
-            // };
-            // let jsonDocument = jsonLs.parseJSONDocument(facade as TextDocument);
-
-            // return jsonLs.doValidation(textDocument, jsonDocument);
-        },
-	});
-    
-    return tomlLs;
-}
+// the `.toml-tools.toml` files of the workspace
+let projectConfigs = getProjectConfigs();
 
 // create the JSON language service
 let languageService = getTomlLanguageService({
@@ -207,35 +186,62 @@ let languageService = getTomlLanguageService({
 		// filesAssociationContribution
 		// new CargoTOMLContribution()
 	]
+}, uri => {
+	let config = getProjectConfig(uri);
+	return config && config.schema;
 });
 
-// The settings interface describes the server relevant settings part
-interface Settings {
-	toml: {
-		schemas: JSONSchemaSettings[];
-	};
-	http: {
-		proxy: string;
-		proxyStrictSSL: boolean;
-	};
-}
-
-interface JSONSchemaSettings {
-	fileMatch?: string[];
-	url?: string;
-	schema?: JSONSchema;
-}
-
 let tomlConfigurationSettings: JSONSchemaSettings[] = void 0;
 let schemaAssociations: ISchemaAssociations = void 0;
-
-// The settings have changed. Is send on server activation as well.
-connection.onDidChangeConfiguration((change) => {
-	var settings = <Settings>change.settings;
+let specVersion: SpecVersion = defaultSpecVersion;
+let formatSettings: FormatSettings = defaultFormatSettings;
+let lintSettings: LintSettings = defaultLintSettings;
+let sortSettings: SortSettings = defaultSortSettings;
+let foldingSettings: FoldingSettings = defaultFoldingSettings;
+let associatedSchemaUris: string[] = [];
+
+function applySettings(settings: Partial<Settings>) {
 	configureHttpRequests(settings.http && settings.http.proxy, settings.http && settings.http.proxyStrictSSL);
 
 	tomlConfigurationSettings = settings.toml && settings.toml.schemas;
+	specVersion = settings.toml && settings.toml.specVersion || defaultSpecVersion;
+	formatSettings = Object.assign({}, defaultFormatSettings, settings.toml && settings.toml.format);
+	lintSettings = Object.assign({}, defaultLintSettings, settings.toml && settings.toml.lint);
+	sortSettings = Object.assign({}, defaultSortSettings, settings.toml && settings.toml.sort);
+	foldingSettings = Object.assign({}, defaultFoldingSettings, settings.toml && settings.toml.folding);
+	let schemaCacheSettings = settings.toml && settings.toml.schemaCache || {};
+	schemaCache.configure({
+		directory: schemaCacheSettings.directory || defaultSchemaCacheDirectory,
+		ttl: typeof schemaCacheSettings.ttl === 'number' ? schemaCacheSettings.ttl : defaultSchemaCacheTTL,
+		offline: !!schemaCacheSettings.offline
+	});
 	updateConfiguration();
+}
+
+// asks the client for the 'toml' and 'http' sections, the initialization options fill in the sections it doesn't know
+function requestSettings() {
+	connection.workspace.getConfiguration([{ section: 'toml' }, { section: 'http' }]).then(([toml, http]) => {
+		applySettings({ toml: toml || initialSettings.toml, http: http || initialSettings.http });
+	}, () => applySettings(initialSettings));
+}
+
+connection.onInitialized(() => {
+	if (configurationSupport) {
+		requestSettings();
+	} else {
+		applySettings(initialSettings);
+	}
+});
+
+// The settings have changed. VS Code sends the synchronized sections, other clients may send
+// nothing and expect the server to ask for them.
+connection.onDidChangeConfiguration((change) => {
+	let settings = <Settings>change.settings;
+	if (settings && settings.toml) {
+		applySettings(settings);
+	} else if (configurationSupport) {
+		requestSettings();
+	}
 });
 
 // The jsonValidation extension configuration has changed
@@ -245,45 +251,34 @@ connection.onNotification(SchemaAssociationNotification.type, associations => {
 });
 
 function updateConfiguration() {
-	let languageSettings: LanguageSettings = {
-		validate: true,
-		allowComments: true,
-		schemas: []
-	};
-	if (schemaAssociations) {
-		for (var pattern in schemaAssociations) {
-			let association = schemaAssociations[pattern];
-			if (Array.isArray(association)) {
-				association.forEach(uri => {
-					languageSettings.schemas.push({ uri, fileMatch: [pattern] });
-				});
-			}
-		}
-	}
-	if (tomlConfigurationSettings) {
-		tomlConfigurationSettings.forEach(schema => {
-			let uri = schema.url;
-			if (!uri && schema.schema) {
-				uri = schema.schema.id;
-			}
-			if (!uri && schema.fileMatch) {
-				uri = 'vscode://schemas/custom/' + encodeURIComponent(schema.fileMatch.join('&'));
-			}
-			if (uri) {
-				if (uri[0] === '.' && workspaceRoot) {
-					// workspace relative path
-					uri = URI.file(path.normalize(path.join(workspaceRoot.fsPath, uri))).toString();
-				}
-				languageSettings.schemas.push({ uri, fileMatch: schema.fileMatch, schema: schema.schema });
-			}
-		});
-	}
+	let languageSettings = getLanguageSettings(tomlConfigurationSettings, schemaAssociations, workspaceRoot);
 	languageService.configure(languageSettings);
+	associatedSchemaUris = languageSettings.schemas.map(schema => schema.uri);
 
 	// Revalidate any open text documents
 	documents.all().forEach(triggerValidation);
 }
 
+connection.onRequest(ClearSchemaCacheRequest.type, () => {
+	return schemaCache.clear();
+});
+
+// downloads the associated schemas and the schemas the open documents name themselves
+connection.onRequest(PrefetchSchemasRequest.type, () => {
+	let uris = associatedSchemaUris.slice();
+	documents.all().forEach(document => {
+		languageService.findDocumentLinks(document, getTOMLDocument(document)).forEach(link => uris.push(link.target));
+	});
+	return schemaCache.prefetch(uris).then(stored => {
+		let hasChanges = false;
+		stored.forEach(uri => hasChanges = languageService.resetSchema(uri) || hasChanges);
+		if (hasChanges) {
+			documents.all().forEach(triggerValidation);
+		}
+		return stored;
+	});
+});
+
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
 documents.onDidChangeContent((change) => {
@@ -293,6 +288,8 @@ documents.onDidChangeContent((change) => {
 // a document has closed: clear all diagnostics
 documents.onDidClose(event => {
 	cleanPendingValidation(event.document);
+	tomlDocuments.onDocumentRemoved(event.document);
+	delete semanticTokens[event.document.uri];
 	connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
 });
 
@@ -322,16 +319,25 @@ function validateTextDocument(textDocument: TextDocument): void {
 		return;
 	}
 
+	let config = getProjectConfig(textDocument.uri);
+	if (config && config.excluded) {
+		connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: [] });
+		return;
+	}
+
 	let tomlDocument = getTOMLDocument(textDocument);
-	languageService.doValidation(textDocument, tomlDocument).then(diagnostics => {
+	let documentLintSettings = config ? Object.assign({}, lintSettings, config.lint) : lintSettings;
+	Promise.resolve(languageService.doValidation(textDocument, tomlDocument, documentLintSettings, config && config.specVersion || specVersion, sortSettings)).then(diagnostics => {
 		// Send the computed diagnostics to VSCode.
 		connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+	}).catch(error => {
+		connection.console.error(`Validation of ${textDocument.uri} failed: ${error instanceof Error ? error.stack : error}`);
 	});
 }
 
 connection.onDidChangeWatchedFiles((change) => {
 	// Monitored files have changed in VSCode
-	let hasChanges = false;
+	let hasChanges = projectConfigs.reset(change.changes.map(c => c.uri));
 	change.changes.forEach(c => {
 		if (languageService.resetSchema(c.uri)) {
 			hasChanges = true;
@@ -344,36 +350,216 @@ connection.onDidChangeWatchedFiles((change) => {
 
 let tomlDocuments = getLanguageModelCache<TOMLDocument>(10, 60, document => languageService.parseTOMLDocument(document));
 
+connection.onShutdown(() => {
+	tomlDocuments.dispose();
+});
+
 /// TOML
 function getTOMLDocument(document: TextDocument): TOMLDocument {
 	return tomlDocuments.get(document);
 }
 
+/// the configuration of the project files that apply to a file, they override the settings
+function getProjectConfig(uri: string): ProjectConfig {
+	if (URI.parse(uri).scheme !== 'file') {
+		return void 0;
+	}
+	return projectConfigs.getConfig(uri, workspaceRoot && workspaceRoot.fsPath);
+}
+
+/// a file left out by the project configuration is not formatted
+function getFormatSettings(document: TextDocument): FormatSettings {
+	let config = getProjectConfig(document.uri);
+	if (!config) {
+		return formatSettings;
+	}
+	return Object.assign({}, formatSettings, config.format, config.excluded ? { enable: false } : {});
+}
+
 connection.onCompletion(textDocumentPosition => {
 	let document = documents.get(textDocumentPosition.textDocument.uri);
 	let tomlDocument = getTOMLDocument(document);
 	return languageService.doComplete(document, textDocumentPosition.position, tomlDocument);
 });
 
-connection.onCompletionResolve(completionItem => {
-	return languageService.doResolve(completionItem);
-});
-
 connection.onHover(textDocumentPositionParams => {
 	let document = documents.get(textDocumentPositionParams.textDocument.uri);
 	let tomlDocument = getTOMLDocument(document);
 	return languageService.doHover(document, textDocumentPositionParams.position, tomlDocument);
 });
 
+/// the open document of a manifest or else the file on disk
+function loadManifest(uri: string): Thenable<Manifest> {
+	let document = documents.get(uri);
+	if (document) {
+		return Promise.resolve({ document, tomlDocument: getTOMLDocument(document) });
+	}
+	return new Promise<Manifest>(c => {
+		fs.readFile(URI.parse(uri).fsPath, 'utf8', (err, text) => {
+			if (err) {
+				c(void 0);
+				return;
+			}
+			let document = TextDocument.create(uri, 'toml', 0, text);
+			c({ document, tomlDocument: languageService.parseTOMLDocument(document) });
+		});
+	});
+}
+
+function isSameLocation(a: Location, b: Location): boolean {
+	return a.uri === b.uri && a.range.start.line === b.range.start.line && a.range.start.character === b.range.start.character;
+}
+
+connection.onDefinition(definitionParams => {
+	let document = documents.get(definitionParams.textDocument.uri);
+	let tomlDocument = getTOMLDocument(document);
+	let definition = languageService.findDefinition(document, definitionParams.position, tomlDocument);
+	if (!isCargoManifest(document.uri)) {
+		return definition;
+	}
+	/// a key inherited with `workspace = true` is defined in the workspace manifest
+	return findWorkspaceDefinition({ document, tomlDocument }, document.offsetAt(definitionParams.position), loadManifest).then(location => location || definition);
+});
+
+connection.onReferences(referenceParams => {
+	let document = documents.get(referenceParams.textDocument.uri);
+	let tomlDocument = getTOMLDocument(document);
+	let includeDeclaration = referenceParams.context.includeDeclaration;
+	let references = languageService.findReferences(document, referenceParams.position, tomlDocument, includeDeclaration);
+	if (!isCargoManifest(document.uri)) {
+		return references;
+	}
+	/// the keys of the workspace manifest are also referenced by the members that inherit them
+	return findWorkspaceReferences({ document, tomlDocument }, document.offsetAt(referenceParams.position), loadManifest).then(locations => {
+		if (locations.length === 0) {
+			return references;
+		}
+		let result = includeDeclaration ? locations.slice(0, 1) : [];
+		let declaration = locations[0];
+		references.concat(locations.slice(1)).forEach(location => {
+			if (!isSameLocation(location, declaration) && !result.some(other => isSameLocation(location, other))) {
+				result.push(location);
+			}
+		});
+		return result;
+	});
+});
+
+connection.onPrepareRename(prepareRenameParams => {
+	let document = documents.get(prepareRenameParams.textDocument.uri);
+	return languageService.prepareRename(document, prepareRenameParams.position, getTOMLDocument(document));
+});
+
+connection.onRenameRequest(renameParams => {
+	let document = documents.get(renameParams.textDocument.uri);
+	return languageService.doRename(document, renameParams.position, renameParams.newName, getTOMLDocument(document));
+});
+
+/// the last tokens sent for a document, a delta request only gets the changes
+let semanticTokens: { [uri: string]: SemanticTokens } = {};
+
+connection.languages.semanticTokens.on(semanticTokensParams => {
+	let document = documents.get(semanticTokensParams.textDocument.uri);
+	let tokens = languageService.getSemanticTokens(document, getTOMLDocument(document));
+	semanticTokens[document.uri] = tokens;
+	return tokens;
+});
+
+connection.languages.semanticTokens.onDelta(semanticTokensDeltaParams => {
+	let document = documents.get(semanticTokensDeltaParams.textDocument.uri);
+	let previous = semanticTokens[document.uri];
+	let tokens = languageService.getSemanticTokens(document, getTOMLDocument(document));
+	semanticTokens[document.uri] = tokens;
+	if (!previous || previous.resultId !== semanticTokensDeltaParams.previousResultId) {
+		return tokens;
+	}
+	return { resultId: tokens.resultId, edits: getSemanticTokensEdits(previous.data, tokens.data) };
+});
+
+connection.onFoldingRanges(foldingRangeParams => {
+	let document = documents.get(foldingRangeParams.textDocument.uri);
+	return languageService.getFoldingRanges(document, getTOMLDocument(document), foldingSettings, foldingRangeLimit);
+});
+
+connection.onSelectionRanges(selectionRangeParams => {
+	let document = documents.get(selectionRangeParams.textDocument.uri);
+	return languageService.getSelectionRanges(document, selectionRangeParams.positions, getTOMLDocument(document));
+});
+
+connection.onCodeAction(codeActionParams => {
+	let document = documents.get(codeActionParams.textDocument.uri);
+	let tomlDocument = getTOMLDocument(document);
+	return languageService.doCodeActions(document, codeActionParams.range, codeActionParams.context, tomlDocument, sortSettings);
+});
+
+connection.onRequest(SortKeysRequest.type, params => {
+	let document = documents.get(params.uri);
+	if (!document) {
+		return [];
+	}
+	return languageService.doSortKeys(document, getTOMLDocument(document), params.range, params.scope, sortSettings);
+});
+
+connection.onRequest(ConvertRequest.type, params => {
+	let document = documents.get(params.uri);
+	if (!document) {
+		return null;
+	}
+	return languageService.convertTOML(document, getTOMLDocument(document), params.format);
+});
+
+connection.onRequest(ConvertToTOMLRequest.type, params => {
+	return languageService.convertToTOML(params.text, params.format);
+});
+
+connection.onRequest(JSONPreviewRequest.type, params => {
+	let document = documents.get(params.uri);
+	if (!document) {
+		return null;
+	}
+	return languageService.getJSONPreview(document, getTOMLDocument(document));
+});
+
 connection.onDocumentSymbol(documentSymbolParams => {
 	let document = documents.get(documentSymbolParams.textDocument.uri);
 	let tomlDocument = getTOMLDocument(document);
+	if (hierarchicalDocumentSymbolSupport) {
+		return languageService.findDocumentSymbols2(document, tomlDocument);
+	}
 	return languageService.findDocumentSymbols(document, tomlDocument);
 });
 
+connection.onDocumentLinks(documentLinkParams => {
+	let document = documents.get(documentLinkParams.textDocument.uri);
+	let tomlDocument = getTOMLDocument(document);
+	return languageService.findDocumentLinks(document, tomlDocument);
+});
+
+connection.onDocumentFormatting(formatParams => {
+	let document = documents.get(formatParams.textDocument.uri);
+	let settings = getFormatSettings(document);
+	if (!settings.enable) {
+		return [];
+	}
+	return languageService.doFormat(document, getTOMLDocument(document), void 0, formatParams.options, settings);
+});
+
 connection.onDocumentRangeFormatting(formatParams => {
 	let document = documents.get(formatParams.textDocument.uri);
-	return languageService.format(document, formatParams.range, formatParams.options);
+	let settings = getFormatSettings(document);
+	if (!settings.enable) {
+		return [];
+	}
+	return languageService.doFormat(document, getTOMLDocument(document), formatParams.range, formatParams.options, settings);
+});
+
+connection.onDocumentOnTypeFormatting(formatParams => {
+	let document = documents.get(formatParams.textDocument.uri);
+	let settings = getFormatSettings(document);
+	if (!settings.enable) {
+		return [];
+	}
+	return languageService.doFormatOnType(document, getTOMLDocument(document), formatParams.position, formatParams.ch, formatParams.options, settings);
 });
 
 // Listen on the connection
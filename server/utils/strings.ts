@@ -35,3 +35,79 @@ export function endsWith(haystack: string, needle: string): boolean {
 export function convertSimple2RegExpPattern(pattern: string): string {
 	return pattern.replace(/[\-\\\{\}\+\?\|\^\$\.\,\[\]\(\)\#\s]/g, '\\$&').replace(/[\*]/g, '.*');
 }
+
+/**
+ * Converts a glob pattern to a regular expression that matches a whole `/` separated path.
+ * `*` and `?` stay within a path segment, `**` spans segments and `{a,b}` matches either.
+ */
+export function convertGlob2RegExp(glob: string): RegExp {
+	let result = '';
+	let braces = 0;
+	for (let i = 0; i < glob.length; i++) {
+		let ch = glob.charAt(i);
+		if (ch === '*' && glob.charAt(i + 1) === '*') {
+			i++;
+			if (glob.charAt(i + 1) === '/') {
+				i++;
+				result += '(?:.*/)?';
+			} else {
+				result += '.*';
+			}
+		} else if (ch === '*') {
+			result += '[^/]*';
+		} else if (ch === '?') {
+			result += '[^/]';
+		} else if (ch === '{') {
+			braces++;
+			result += '(?:';
+		} else if (ch === '}' && braces > 0) {
+			braces--;
+			result += ')';
+		} else if (ch === ',' && braces > 0) {
+			result += '|';
+		} else {
+			result += ch.replace(/[\-\\\{\}\+\|\^\$\.\,\[\]\(\)\#\s]/, '\\$&');
+		}
+	}
+	return new RegExp('^' + result + '$');
+}
+
+/**
+ * Returns the line break the text uses.
+ */
+export function getEOL(text: string): string {
+	return text.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+}
+
+/**
+ * Returns the offset of the start of the line of the offset.
+ */
+export function getLineStart(text: string, offset: number): number {
+	return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+/**
+ * Returns the offset of the line break at the end of the line, or the end of the text.
+ */
+export function getLineEnd(text: string, offset: number): number {
+	let end = text.indexOf('\n', offset);
+	if (end === -1) {
+		return text.length;
+	}
+	return end > 0 && text.charAt(end - 1) === '\r' ? end - 1 : end;
+}
+
+/**
+ * Returns the offset of the line after the line of the offset, or the end of the text.
+ */
+export function getNextLineStart(text: string, offset: number): number {
+	let end = text.indexOf('\n', offset);
+	return end === -1 ? text.length : end + 1;
+}
+
+/**
+ * Returns the white space between the start of the line and the offset.
+ */
+export function getIndentation(text: string, offset: number): string {
+	return /^[ \t]*/.exec(text.substring(getLineStart(text, offset), offset))[0];
+}
@@ -3,7 +3,48 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { LanguageClient, LanguageClientOptions, RequestType, ServerOptions, TransportKind, NotificationType } from 'vscode-languageclient';
+import { LanguageClient, LanguageClientOptions, RequestType, RequestType0, ServerOptions, TransportKind, NotificationType, Range, TextEdit } from 'vscode-languageclient/node';
+import { registerJSONPreview } from './jsonPreview';
+
+namespace ClearSchemaCacheRequest {
+	export const type: RequestType0<void, any> = new RequestType0('toml/clearSchemaCache');
+}
+
+namespace PrefetchSchemasRequest {
+	export const type: RequestType0<string[], any> = new RequestType0('toml/prefetchSchemas');
+}
+
+type SortScope = 'table' | 'selection' | 'document';
+
+interface SortKeysParams {
+	uri: string;
+	range: Range;
+	scope: SortScope;
+}
+
+namespace SortKeysRequest {
+	export const type: RequestType<SortKeysParams, TextEdit[], any> = new RequestType('toml/sortKeys');
+}
+
+type DataFormat = 'json' | 'yaml';
+
+interface ConvertParams {
+	uri: string;
+	format: DataFormat;
+}
+
+namespace ConvertRequest {
+	export const type: RequestType<ConvertParams, string, any> = new RequestType('toml/convert');
+}
+
+interface ConvertToTOMLParams {
+	text: string;
+	format: DataFormat;
+}
+
+namespace ConvertToTOMLRequest {
+	export const type: RequestType<ConvertToTOMLParams, string, any> = new RequestType('toml/convertToTOML');
+}
 
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
@@ -11,7 +52,7 @@ export function activate(context: vscode.ExtensionContext) {
 // The server is implemented in node
 	let serverModule = context.asAbsolutePath(path.join('out', 'server', 'tomlServerMain.js'));
 	// The debug options for the server
-	let debugOptions = { execArgv: ["--nolazy", "--debug=6004"] };
+	let debugOptions = { execArgv: ["--nolazy", "--inspect=6004"] };
 	
 	// If the extension is launched in debug mode then the debug server options are used
 	// Otherwise the run options are used
@@ -26,18 +67,92 @@ export function activate(context: vscode.ExtensionContext) {
 		documentSelector: ['toml'],
 		synchronize: {
 			// Synchronize the setting section 'toml' and 'http' to the server
-			configurationSection: ['toml.schemas', 'http.proxy', 'http.proxyStrictSSL'],
+			configurationSection: ['toml.schemas', 'toml.specVersion', 'toml.format', 'toml.schemaCache', 'toml.lint', 'toml.sort', 'toml.folding', 'http.proxy', 'http.proxyStrictSSL'],
 			// Notify the server about file changes to '.toml files contain in the workspace
 			fileEvents: vscode.workspace.createFileSystemWatcher('**/*.toml')
+		},
+		initializationOptions: {
+			// the default location of the schema cache
+			storagePath: context.globalStoragePath
 		}
 	}
 	
 	// Create the language client and start the client.
-	let disposable = new LanguageClient('TOML Language Server', serverOptions, clientOptions).start();
+	let client = new LanguageClient('TOML Language Server', serverOptions, clientOptions);
+	let disposable = client.start();
 	
 	// Push the disposable to the context's subscriptions so that the 
 	// client can be deactivated on extension deactivation
 	context.subscriptions.push(disposable);
+
+	context.subscriptions.push(vscode.commands.registerCommand('toml.clearSchemaCache', () => {
+		return client.onReady().then(() => client.sendRequest(ClearSchemaCacheRequest.type)).then(() => {
+			vscode.window.showInformationMessage('The TOML schema cache has been cleared.');
+		});
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('toml.prefetchSchemas', () => {
+		return client.onReady().then(() => client.sendRequest(PrefetchSchemasRequest.type)).then(stored => {
+			vscode.window.showInformationMessage(stored.length === 1 ? 'Downloaded 1 schema for offline use.' : `Downloaded ${stored.length} schemas for offline use.`);
+		});
+	}));
+
+	// sorts the selected keys, or the keys of the table at the cursor when nothing is selected
+	let sortKeys = (scope?: SortScope) => {
+		let editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.languageId !== 'toml') {
+			return;
+		}
+		let document = editor.document;
+		let selection = editor.selection;
+		let params: SortKeysParams = {
+			uri: document.uri.toString(),
+			range: client.code2ProtocolConverter.asRange(selection),
+			scope: scope || (selection.isEmpty ? 'table' : 'selection')
+		};
+		return client.onReady().then(() => client.sendRequest(SortKeysRequest.type, params)).then(edits => {
+			if (edits.length === 0) {
+				return;
+			}
+			return editor.edit(builder => {
+				client.protocol2CodeConverter.asTextEdits(edits).forEach(edit => builder.replace(edit.range, edit.newText));
+			});
+		});
+	};
+
+	context.subscriptions.push(vscode.commands.registerCommand('toml.sortKeys', (scope?: SortScope) => sortKeys(scope)));
+	context.subscriptions.push(vscode.commands.registerCommand('toml.sortDocumentKeys', () => sortKeys('document')));
+
+	// the conversions open their result in a new editor, the server reports why a text can't be converted
+	let openResult = (language: string, content: Thenable<string>) => {
+		return content.then(content => {
+			if (typeof content === 'string') {
+				return vscode.workspace.openTextDocument({ language, content }).then(document => vscode.window.showTextDocument(document));
+			}
+		}, error => {
+			vscode.window.showErrorMessage(error.message);
+		});
+	};
+
+	let convert = (format: DataFormat) => {
+		let editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.languageId !== 'toml') {
+			return;
+		}
+		let params: ConvertParams = { uri: editor.document.uri.toString(), format };
+		return openResult(format, client.onReady().then(() => client.sendRequest(ConvertRequest.type, params)));
+	};
+
+	let paste = (format: DataFormat) => {
+		return openResult('toml', client.onReady().then(() => vscode.env.clipboard.readText()).then(text => client.sendRequest(ConvertToTOMLRequest.type, { text, format })));
+	};
+
+	context.subscriptions.push(vscode.commands.registerCommand('toml.convertToJSON', () => convert('json')));
+	context.subscriptions.push(vscode.commands.registerCommand('toml.convertToYAML', () => convert('yaml')));
+	context.subscriptions.push(vscode.commands.registerCommand('toml.pasteJSONAsTOML', () => paste('json')));
+	context.subscriptions.push(vscode.commands.registerCommand('toml.pasteYAMLAsTOML', () => paste('yaml')));
+
+	registerJSONPreview(context, client);
 }
 
 // this method is called when your extension is deactivated
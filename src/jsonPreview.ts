@@ -0,0 +1,215 @@
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LanguageClient, RequestType, Range } from 'vscode-languageclient/node';
+
+interface PreviewNode {
+	key?: string | number;
+	type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+	value?: string;
+	range: Range;
+	children?: PreviewNode[];
+}
+
+interface JSONPreview {
+	root: PreviewNode;
+	errors: { message: string, range: Range }[];
+}
+
+interface JSONPreviewParams {
+	uri: string;
+}
+
+namespace JSONPreviewRequest {
+	export const type: RequestType<JSONPreviewParams, JSONPreview, any> = new RequestType('toml/jsonPreview');
+}
+
+// the webview posts 'ready' when it's loaded, and again when it's shown after being hidden
+type PreviewMessage = { type: 'ready' } | { type: 'reveal', range: Range };
+
+/**
+ * Registers the `toml.showJSONPreview` command. The preview follows the active TOML editor and
+ * updates while typing, clicking a node selects the TOML text that produced it.
+ */
+export function registerJSONPreview(context: vscode.ExtensionContext, client: LanguageClient): void {
+	let panel: vscode.WebviewPanel | undefined;
+	let document: vscode.TextDocument | undefined;
+	let pendingUpdate: NodeJS.Timer | undefined;
+
+	let update = () => {
+		if (!panel || !document) {
+			return;
+		}
+		let uri = document.uri.toString();
+		panel.title = 'JSON Preview: ' + path.basename(document.fileName);
+		client.onReady().then(() => client.sendRequest(JSONPreviewRequest.type, { uri })).then(preview => {
+			if (panel && preview && document && document.uri.toString() === uri) {
+				panel.webview.postMessage({ type: 'update', preview });
+			}
+		});
+	};
+
+	let reveal = (range: Range) => {
+		if (!document) {
+			return;
+		}
+		let selection = client.protocol2CodeConverter.asRange(range);
+		let editor = vscode.window.visibleTextEditors.find(editor => editor.document === document);
+		vscode.window.showTextDocument(document, { viewColumn: editor ? editor.viewColumn : vscode.ViewColumn.One, selection });
+	};
+
+	let show = () => {
+		let editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.languageId !== 'toml') {
+			return;
+		}
+		document = editor.document;
+		if (panel) {
+			panel.reveal(vscode.ViewColumn.Beside, true);
+			update();
+			return;
+		}
+		panel = vscode.window.createWebviewPanel('toml.jsonPreview', 'JSON Preview', { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true }, { enableScripts: true });
+		panel.webview.html = getHTML(panel.webview);
+		panel.webview.onDidReceiveMessage((message: PreviewMessage) => {
+			if (message.type === 'ready') {
+				update();
+			} else if (message.type === 'reveal') {
+				reveal(message.range);
+			}
+		});
+		panel.onDidDispose(() => {
+			clearTimeout(pendingUpdate);
+			panel = undefined;
+			document = undefined;
+		});
+	};
+
+	context.subscriptions.push(vscode.commands.registerCommand('toml.showJSONPreview', show));
+
+	context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
+		if (panel && event.document === document) {
+			clearTimeout(pendingUpdate);
+			pendingUpdate = setTimeout(update, 300);
+		}
+	}));
+
+	context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+		if (panel && editor && editor.document.languageId === 'toml' && editor.document !== document) {
+			document = editor.document;
+			update();
+		}
+	}));
+}
+
+function getNonce(): string {
+	let chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+	let nonce = '';
+	for (let i = 0; i < 32; i++) {
+		nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+	}
+	return nonce;
+}
+
+function getHTML(webview: vscode.Webview): string {
+	let nonce = getNonce();
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<style nonce="${nonce}">
+		body { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+		.errors { margin: 0 0 1em 0; padding: 0; list-style: none; }
+		.error { color: var(--vscode-errorForeground); cursor: pointer; }
+		.children { padding-left: 1.2em; }
+		.leaf { padding-left: 1.2em; }
+		.key { cursor: pointer; color: var(--vscode-symbolIcon-propertyForeground, inherit); }
+		.key:hover, .error:hover { text-decoration: underline; }
+		.summary { color: var(--vscode-descriptionForeground); }
+		.string { color: var(--vscode-debugTokenExpression-string, inherit); }
+		.number { color: var(--vscode-debugTokenExpression-number, inherit); }
+		.boolean { color: var(--vscode-debugTokenExpression-boolean, inherit); }
+	</style>
+</head>
+<body>
+	<ul class="errors" id="errors"></ul>
+	<div id="tree"></div>
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+		// the paths of the collapsed nodes, kept across updates
+		const collapsed = new Set();
+
+		function reveal(event, range) {
+			event.preventDefault();
+			vscode.postMessage({ type: 'reveal', range });
+		}
+
+		function createKey(node, label) {
+			const key = document.createElement('span');
+			key.className = 'key';
+			key.textContent = label;
+			key.title = 'Line ' + (node.range.start.line + 1);
+			key.addEventListener('click', event => reveal(event, node.range));
+			return key;
+		}
+
+		function renderNode(node, label, path) {
+			if (!node.children) {
+				const leaf = document.createElement('div');
+				leaf.className = 'leaf';
+				leaf.appendChild(createKey(node, label));
+				leaf.appendChild(document.createTextNode(': '));
+				const value = document.createElement('span');
+				value.className = node.type;
+				value.textContent = node.value;
+				leaf.appendChild(value);
+				return leaf;
+			}
+			const details = document.createElement('details');
+			details.open = !collapsed.has(path);
+			details.addEventListener('toggle', () => details.open ? collapsed.delete(path) : collapsed.add(path));
+			const summary = document.createElement('summary');
+			summary.appendChild(createKey(node, label));
+			const count = document.createElement('span');
+			count.className = 'summary';
+			count.textContent = node.type === 'object' ? ' {' + node.children.length + '}' : ' [' + node.children.length + ']';
+			summary.appendChild(count);
+			details.appendChild(summary);
+			const children = document.createElement('div');
+			children.className = 'children';
+			for (const child of node.children) {
+				const childLabel = typeof child.key === 'number' ? '[' + child.key + ']' : JSON.stringify(child.key);
+				children.appendChild(renderNode(child, childLabel, path + '/' + JSON.stringify(child.key)));
+			}
+			details.appendChild(children);
+			return details;
+		}
+
+		function render(preview) {
+			const errors = document.getElementById('errors');
+			errors.textContent = '';
+			for (const error of preview.errors) {
+				const item = document.createElement('li');
+				item.className = 'error';
+				item.textContent = (error.range.start.line + 1) + ':' + (error.range.start.character + 1) + ' ' + error.message;
+				item.addEventListener('click', event => reveal(event, error.range));
+				errors.appendChild(item);
+			}
+			const tree = document.getElementById('tree');
+			tree.textContent = '';
+			tree.appendChild(renderNode(preview.root, '(document)', ''));
+		}
+
+		window.addEventListener('message', event => {
+			if (event.data.type === 'update') {
+				render(event.data.preview);
+			}
+		});
+		vscode.postMessage({ type: 'ready' });
+	</script>
+</body>
+</html>`;
+}
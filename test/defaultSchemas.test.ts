@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { MarkupContent } from 'vscode-languageserver';
+import URI from '../server/utils/uri';
+import { getDefaultSchemas } from '../server/defaultSchemas';
+import { getTomlLanguageService, getLanguageSettings, workspaceContext, JSONSchemaSettings } from '../server/tomlLanguageService';
+
+suite("Default Schemas", () => {
+
+    /**
+     * Returns the names of the schemas the file is associated with. Each schema describes its
+     * key `x` with the name of its file.
+     */
+    function getSchemaNames(fileName: string, userSchemas: JSONSchemaSettings[] = []): Thenable<string[]> {
+        let languageService = getTomlLanguageService({
+            schemaRequestService: uri => Promise.resolve(JSON.stringify({ properties: { x: { description: path.posix.basename(uri) } } })),
+            workspaceContext
+        });
+        languageService.configure(getLanguageSettings(userSchemas, {}, URI.file('/project')));
+        let text = 'x = 1\n';
+        let document = TextDocument.create(URI.file(path.join('/project', fileName)).toString(), 'toml', 0, text);
+        return languageService.doHover(document, { line: 0, character: 0 }, languageService.parseTOMLDocument(document)).then(hover => {
+            return hover ? (<MarkupContent>hover.contents).value.split('\n\n') : [];
+        });
+    }
+
+    test("The bundled schemas exist", () => {
+        getDefaultSchemas([]).forEach(schema => {
+            let content = fs.readFileSync(URI.parse(schema.uri).fsPath, 'utf8');
+            assert.equal(typeof JSON.parse(content), 'object', schema.uri);
+        });
+    });
+
+    test("Well-known files", () => {
+        let associations: [string, string[]][] = [
+            ['Cargo.toml', ['cargo.json']],
+            ['crates/app/Cargo.toml', ['cargo.json']],
+            ['.cargo/config.toml', ['cargo-config.json']],
+            ['rustfmt.toml', ['rustfmt.json']],
+            ['.rustfmt.toml', ['rustfmt.json']],
+            ['pyproject.toml', ['pyproject.json']],
+            ['Pipfile', ['pipfile.json']],
+            ['netlify.toml', ['netlify.json']],
+            ['hugo.toml', ['hugo.json']],
+            ['config/_default/config.toml', ['hugo.json']],
+            ['.toml-tools.toml', ['toml-tools.json']],
+            // too common to be taken for a Hugo configuration
+            ['config.toml', []],
+            ['cargo.toml.bak', []],
+            ['other.toml', []]
+        ];
+        return Promise.all(associations.map(([fileName]) => getSchemaNames(fileName))).then(results => {
+            assert.deepEqual(results, associations.map(([, names]) => names));
+        });
+    });
+
+    test("The toml.schemas setting replaces the defaults", () => {
+        let userSchemas: JSONSchemaSettings[] = [{ fileMatch: ['Cargo.toml'], url: 'test://my-cargo.json' }];
+        return Promise.all([
+            getSchemaNames('Cargo.toml', userSchemas),
+            getSchemaNames('pyproject.toml', userSchemas)
+        ]).then(results => {
+            assert.deepEqual(results, [['my-cargo.json'], ['pyproject.json']]);
+        });
+    });
+
+    test("User patterns are excluded from the defaults", () => {
+        let schemas = getDefaultSchemas(['Cargo.toml', '!other.toml']);
+        assert.deepEqual(schemas[0].fileMatch, ['Cargo.toml', '!Cargo.toml']);
+        assert.ok(schemas.every(schema => schema.fileMatch.indexOf('!!other.toml') === -1));
+    });
+});
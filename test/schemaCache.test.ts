@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getSchemaCache, SchemaCache } from '../server/schemaCache';
+
+interface Resource {
+    content: string;
+    etag?: string;
+    lastModified?: string;
+}
+
+suite("Schema Cache", () => {
+
+    let server: http.Server;
+    let baseUrl: string;
+    let resources: { [path: string]: Resource };
+    let requests: http.IncomingMessage[];
+    let directory: string;
+
+    // A stand-in for a schema store that answers conditional requests.
+    setup(done => {
+        resources = {};
+        requests = [];
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'toml-schema-cache-'));
+        server = http.createServer((req, res) => {
+            requests.push(req);
+            let resource = resources[req.url];
+            if (!resource) {
+                res.writeHead(404);
+                res.end('Not found');
+                return;
+            }
+            let headers: http.OutgoingHttpHeaders = {};
+            if (resource.etag) {
+                headers['ETag'] = resource.etag;
+            }
+            if (resource.lastModified) {
+                headers['Last-Modified'] = resource.lastModified;
+            }
+            if ((resource.etag && req.headers['if-none-match'] === resource.etag) || (resource.lastModified && req.headers['if-modified-since'] === resource.lastModified)) {
+                res.writeHead(304, headers);
+                res.end();
+                return;
+            }
+            res.writeHead(200, headers);
+            res.end(resource.content);
+        });
+        server.listen(0, '127.0.0.1', () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+            done();
+        });
+    });
+
+    teardown(done => {
+        fs.readdirSync(directory).forEach(file => fs.unlinkSync(path.join(directory, file)));
+        fs.rmdirSync(directory);
+        server.listening ? server.close(() => done()) : done();
+    });
+
+    function createCache(ttl: number, offline = false): SchemaCache {
+        return getSchemaCache({ directory, ttl, offline });
+    }
+
+    test("Stores a schema and serves it within the TTL", () => {
+        resources['/a.json'] = { content: '{"title":"a"}' };
+        let cache = createCache(60);
+        return cache.request(baseUrl + '/a.json').then(content => {
+            assert.equal(content, '{"title":"a"}');
+            resources['/a.json'].content = '{"title":"changed"}';
+            return cache.request(baseUrl + '/a.json');
+        }).then(content => {
+            assert.equal(content, '{"title":"a"}');
+            assert.equal(requests.length, 1);
+        });
+    });
+
+    test("Revalidates with the ETag", () => {
+        resources['/a.json'] = { content: '{"title":"a"}', etag: '"v1"' };
+        let cache = createCache(0);
+        return cache.request(baseUrl + '/a.json').then(() => cache.request(baseUrl + '/a.json')).then(content => {
+            assert.equal(content, '{"title":"a"}');
+            assert.equal(requests.length, 2);
+            assert.equal(requests[1].headers['if-none-match'], '"v1"');
+            resources['/a.json'] = { content: '{"title":"b"}', etag: '"v2"' };
+            return cache.request(baseUrl + '/a.json');
+        }).then(content => {
+            assert.equal(content, '{"title":"b"}');
+        });
+    });
+
+    test("Revalidates with the modification date", () => {
+        let lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT';
+        resources['/a.json'] = { content: '{"title":"a"}', lastModified };
+        let cache = createCache(0);
+        return cache.request(baseUrl + '/a.json').then(() => cache.request(baseUrl + '/a.json')).then(content => {
+            assert.equal(content, '{"title":"a"}');
+            assert.equal(requests[1].headers['if-modified-since'], lastModified);
+        });
+    });
+
+    test("Offline mode only uses stored schemas", () => {
+        resources['/a.json'] = { content: '{"title":"a"}' };
+        resources['/b.json'] = { content: '{"title":"b"}' };
+        return createCache(0).request(baseUrl + '/a.json').then(() => {
+            let cache = createCache(0, true);
+            return cache.request(baseUrl + '/a.json').then(content => {
+                assert.equal(content, '{"title":"a"}');
+                return cache.request(baseUrl + '/b.json');
+            }).then(() => assert.fail('b.json is not stored'), error => {
+                assert.ok(typeof error === 'string' && error.length > 0);
+                assert.equal(requests.length, 1);
+            });
+        });
+    });
+
+    test("Serves the stored schema when the server is unreachable", () => {
+        resources['/a.json'] = { content: '{"title":"a"}' };
+        let cache = createCache(0);
+        return cache.request(baseUrl + '/a.json').then(() => new Promise<void>(c => server.close(() => c()))).then(() => {
+            return cache.request(baseUrl + '/a.json');
+        }).then(content => {
+            assert.equal(content, '{"title":"a"}');
+        });
+    });
+
+    test("Rejects a missing schema", () => {
+        return createCache(60).request(baseUrl + '/missing.json').then(() => assert.fail('missing.json does not exist'), error => {
+            assert.ok(typeof error === 'string' && error.length > 0);
+        });
+    });
+
+    test("Prefetch follows remote references", () => {
+        resources['/a.json'] = { content: JSON.stringify({ properties: { b: { $ref: 'b.json#/definitions/B' }, a: { $ref: '#' } } }) };
+        resources['/b.json'] = { content: JSON.stringify({ definitions: { B: { $ref: baseUrl + '/c.json' } } }) };
+        resources['/c.json'] = { content: '{}' };
+        let cache = createCache(60, true);
+        return cache.prefetch([baseUrl + '/a.json', 'file:///local.json']).then(stored => {
+            assert.deepEqual(stored.sort(), [baseUrl + '/a.json', baseUrl + '/b.json', baseUrl + '/c.json']);
+            return cache.request(baseUrl + '/c.json');
+        }).then(content => {
+            assert.equal(content, '{}');
+        });
+    });
+
+    test("Clear removes the stored schemas", () => {
+        resources['/a.json'] = { content: '{"title":"a"}' };
+        let cache = createCache(60);
+        return cache.request(baseUrl + '/a.json').then(() => cache.clear()).then(() => {
+            assert.deepEqual(fs.readdirSync(directory), []);
+            return cache.request(baseUrl + '/a.json');
+        }).then(() => {
+            assert.equal(requests.length, 2);
+        });
+    });
+});
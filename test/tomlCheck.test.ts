@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const checkModule = path.join(__dirname, '..', 'server', 'tomlCheck.js');
+
+function removeDirectory(directory: string): void {
+    fs.readdirSync(directory).forEach(name => {
+        let file = path.join(directory, name);
+        fs.statSync(file).isDirectory() ? removeDirectory(file) : fs.unlinkSync(file);
+    });
+    fs.rmdirSync(directory);
+}
+
+suite("toml-check", function () {
+
+    this.timeout(20000);
+
+    let directory: string;
+
+    // A project with the given files, the names are relative to its folder.
+    function createProject(files: { [name: string]: string }): void {
+        Object.keys(files).forEach(name => {
+            let file = path.join(directory, name);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, files[name]);
+        });
+    }
+
+    function run(...args: string[]): { status: number, stdout: string, stderr: string } {
+        let result = cp.spawnSync(process.execPath, [checkModule, ...args], { cwd: directory, encoding: 'utf8' });
+        return { status: result.status, stdout: result.stdout.trim(), stderr: result.stderr.trim() };
+    }
+
+    setup(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'toml-check-'));
+    });
+
+    teardown(() => {
+        removeDirectory(directory);
+    });
+
+    test("check reports the problems of the files in the folder", () => {
+        createProject({ 'a.toml': 'a = \n', 'sub/b.toml': 'b = 1\nb = 2\n', 'sub/c.toml': 'c = 1\n', 'node_modules/d.toml': 'd = \n' });
+        let result = run('check');
+        assert.equal(result.status, 1);
+        assert.deepEqual(result.stdout.split('\n'), [
+            'a.toml:1:5: error: Value expected (Toml Parser)',
+            'sub/b.toml:2:1: error: Duplicate key "b" (TOML Lint)'
+        ]);
+    });
+
+    test("check passes valid files", () => {
+        createProject({ 'a.toml': 'a = 1\n' });
+        assert.deepEqual(run('check', 'a.toml'), { status: 0, stdout: '', stderr: '' });
+    });
+
+    test("check takes the lint settings from the VS Code settings", () => {
+        createProject({
+            '.vscode/settings.json': '{\n\t// keep duplicates for now\n\t"toml.lint.duplicateKey": "info",\n\t"toml": { "lint": { "emptyTable": "warning" } },\n}\n',
+            'a.toml': 'b = 1\nb = 2\n[empty]\n'
+        });
+        let result = run('check');
+        assert.equal(result.status, 1);
+        assert.deepEqual(result.stdout.split('\n'), [
+            'a.toml:2:1: info: Duplicate key "b" (TOML Lint)',
+            'a.toml:3:1: warning: Table "empty" is empty (TOML Lint)'
+        ]);
+    });
+
+    test("check validates against the schemas of the settings", () => {
+        createProject({
+            'schema.json': JSON.stringify({ type: 'object', properties: { port: { type: 'integer' } } }),
+            'settings.json': JSON.stringify({ 'toml.schemas': [{ fileMatch: ['server.toml'], url: './schema.json' }] }),
+            'server.toml': 'port = "80"\n'
+        });
+        let result = run('check', '--config', 'settings.json', '--format=json');
+        assert.equal(result.status, 1);
+        let problems = JSON.parse(result.stdout);
+        assert.deepEqual(problems.map((problem: any) => [problem.file, problem.line, problem.column, problem.severity]), [['server.toml', 1, 8, 'warning']]);
+    });
+
+    test("github and sarif formats", () => {
+        createProject({ 'a.toml': 'a = 1\na = 2\n' });
+        assert.equal(run('check', '--format', 'github').stdout, '::error file=a.toml,line=2,col=1,endLine=2,endColumn=2,title=TOML Lint::Duplicate key "a"');
+        let sarif = JSON.parse(run('check', '--format', 'sarif').stdout);
+        assert.equal(sarif.version, '2.1.0');
+        assert.deepEqual(sarif.runs[0].results.map((result: any) => [result.ruleId, result.level, result.locations[0].physicalLocation.region.startLine]), [['duplicateKey', 'error', 2]]);
+    });
+
+    test("fmt --check reports unformatted files", () => {
+        createProject({ 'a.toml': 'a=1\n', 'b.toml': 'b = 1\n' });
+        let result = run('fmt', '--check');
+        assert.equal(result.status, 1);
+        assert.equal(result.stdout, 'a.toml:1:1: error: The file is not formatted (toml-check)');
+        assert.equal(fs.readFileSync(path.join(directory, 'a.toml'), 'utf8'), 'a=1\n');
+    });
+
+    test("fmt --write formats with the indentation of the settings", () => {
+        createProject({ '.vscode/settings.json': '{ "[toml]": { "editor.tabSize": 2 }, "toml.format.indentTables": true }', 'a.toml': '[a]\nx = 1\n[a.b]\ny = 2\n' });
+        let result = run('fmt', '--write');
+        assert.equal(result.status, 0);
+        assert.equal(result.stdout, 'Formatted a.toml');
+        assert.equal(fs.readFileSync(path.join(directory, 'a.toml'), 'utf8'), '[a]\nx = 1\n\n  [a.b]\n  y = 2\n');
+        assert.deepEqual(run('fmt', '--check'), { status: 0, stdout: '', stderr: '' });
+    });
+
+    test("project configuration files", () => {
+        createProject({
+            '.toml-tools.toml': 'exclude = ["vendor/**"]\n\n[[schemas]]\nfileMatch = ["server.toml"]\nurl = "schema.json"\n\n[lint]\nduplicateKey = "warning"\n',
+            'schema.json': JSON.stringify({ type: 'object', properties: { port: { type: 'integer' } } }),
+            'server.toml': 'port = "80"\n',
+            'vendor/a.toml': 'a = \n',
+            'sub/.toml-tools.toml': 'specVersion = "0.4"\n[lint]\nduplicateKey = "info"\n',
+            'sub/b.toml': 'b = 1\nb = 2\nc.d = 1\n',
+            'c.toml': 'c = 1\nc = 2\n'
+        });
+        let result = run('check');
+        assert.equal(result.status, 1);
+        assert.deepEqual(result.stdout.split('\n'), [
+            'c.toml:2:1: warning: Duplicate key "c" (TOML Lint)',
+            'server.toml:1:8: warning: Incorrect type. Expected "integer".',
+            'sub/b.toml:3:1: error: Dotted keys require TOML 0.5, the document is checked against TOML 0.4 (Toml Parser)',
+            'sub/b.toml:2:1: info: Duplicate key "b" (TOML Lint)'
+        ]);
+    });
+
+    test("fmt takes the formatter options of the project configuration", () => {
+        createProject({ '.toml-tools.toml': '[format]\nalignEquals = true\n', 'a.toml': 'a = 1\nbbb = 2\n' });
+        run('fmt', '--write');
+        assert.equal(fs.readFileSync(path.join(directory, 'a.toml'), 'utf8'), 'a   = 1\nbbb = 2\n');
+    });
+
+    test("usage errors", () => {
+        assert.equal(run('fmt').status, 2);
+        assert.equal(run('check', '--format', 'xml').status, 2);
+        assert.equal(run('check', 'missing.toml').stderr, "'missing.toml' doesn't exist.");
+    });
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeActionKind, Diagnostic, DiagnosticSeverity, Range, TextEdit } from 'vscode-languageserver';
+import { JSONSchema } from 'vscode-json-languageservice';
+import { parse } from '../server/parser/tomlParser';
+import { getCodeActions } from '../server/services/tomlCodeActions';
+import { defaultLintSettings } from '../server/services/tomlLint';
+import { defaultSortSettings } from '../server/services/tomlSort';
+import { getTomlLanguageService, workspaceContext } from '../server/tomlLanguageService';
+
+suite("TOML Quick Fixes", () => {
+
+    let schema: JSONSchema = {
+        type: 'object',
+        properties: {
+            package: {
+                type: 'object',
+                required: ['name', 'version'],
+                properties: {
+                    name: { type: 'string' },
+                    version: { type: 'string', default: '0.1.0' },
+                    edition: { enum: ['2015', '2018', '2021'] }
+                }
+            }
+        }
+    };
+
+    let languageService = getTomlLanguageService({ schemaRequestService: uri => Promise.reject(uri), workspaceContext });
+    languageService.configure({ validate: true, schemas: [{ uri: 'test://schema.json', fileMatch: ['*.toml'], schema }] });
+
+    /**
+     * Validates the text and returns the quick fixes for its diagnostics, with the text they
+     * produce.
+     */
+    function getFixes(text: string): Thenable<{ [title: string]: string }> {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let tomlDocument = languageService.parseTOMLDocument(document);
+        return languageService.doValidation(document, tomlDocument, defaultLintSettings, '1.0').then(diagnostics => {
+            let context = { diagnostics, only: [CodeActionKind.QuickFix] };
+            return languageService.doCodeActions(document, Range.create(0, 0, 0, 0), context, tomlDocument, defaultSortSettings);
+        }).then(actions => {
+            let fixes: { [title: string]: string } = {};
+            actions.forEach(action => fixes[action.title] = TextDocument.applyEdits(document, <TextEdit[]>action.edit.changes[document.uri]));
+            return fixes;
+        });
+    }
+
+    test("Unterminated strings", () => {
+        return getFixes('a = "abc\nb = 1\n').then(fixes => {
+            assert.deepEqual(fixes, { 'Add the closing "': 'a = "abc"\nb = 1\n' });
+        });
+    });
+
+    test("Missing closing brackets", () => {
+        return Promise.all([
+            getFixes('a = [1, 2\nb = 1\n').then(fixes => {
+                assert.deepEqual(fixes, { 'Add the missing ]': 'a = [1, 2]\nb = 1\n' });
+            }),
+            getFixes('a = { x = 1\nb = 1\n').then(fixes => {
+                assert.deepEqual(fixes, { 'Add the missing }': 'a = { x = 1 }\nb = 1\n' });
+            }),
+            getFixes('[[items\nx = 1\n').then(fixes => {
+                assert.deepEqual(fixes, { 'Add the missing ]]': '[[items]]\nx = 1\n' });
+            })
+        ]);
+    });
+
+    test("Keys that need quotes", () => {
+        return getFixes('my key.b = 1\n').then(fixes => {
+            assert.deepEqual(fixes, { 'Change the key to "my key".b': '"my key".b = 1\n' });
+        });
+    });
+
+    test("Duplicate keys", () => {
+        return Promise.all([
+            getFixes('a = 1\n# the second a\na = 2 # again\nb = 3\n').then(fixes => {
+                assert.deepEqual(fixes, {
+                    'Rename the key to "a_2"': 'a = 1\n# the second a\na_2 = 2 # again\nb = 3\n',
+                    'Remove the duplicate key "a"': 'a = 1\n# the second a\nb = 3\n'
+                });
+            }),
+            getFixes('t = { a = 1, a_2 = 2, a = 3 }\n').then(fixes => {
+                assert.deepEqual(fixes, {
+                    'Rename the key to "a_3"': 't = { a = 1, a_2 = 2, a_3 = 3 }\n',
+                    'Remove the duplicate key "a"': 't = { a = 1, a_2 = 2 }\n'
+                });
+            })
+        ]);
+    });
+
+    test("Duplicate tables", () => {
+        return getFixes('[a]\nx = 1\n\n[b]\n\n[a]\ny = 2\n').then(fixes => {
+            assert.deepEqual(fixes, { 'Merge with the first [a] table': '[a]\nx = 1\ny = 2\n\n[b]\n\n' });
+        });
+    });
+
+    test("Missing properties", () => {
+        return Promise.all([
+            getFixes('[package]\nname = "example"\n').then(fixes => {
+                assert.deepEqual(fixes, { 'Add the missing key "version"': '[package]\nname = "example"\nversion = "0.1.0"\n' });
+            }),
+            getFixes('package = { version = "1.0.0" }\n').then(fixes => {
+                assert.deepEqual(fixes, { 'Add the missing key "name"': 'package = { version = "1.0.0", name = "" }\n' });
+            })
+        ]);
+    });
+
+    test("Values that are not in the enum", () => {
+        return getFixes('[package]\nname = "example"\nversion = "1.0.0"\nedition = "2020"\n').then(fixes => {
+            // the closest value first
+            assert.deepEqual(Object.keys(fixes), ['Change the value to "2021"', 'Change the value to "2015"', 'Change the value to "2018"']);
+            assert.equal(fixes['Change the value to "2021"'], '[package]\nname = "example"\nversion = "1.0.0"\nedition = "2021"\n');
+        });
+    });
+
+    test("Other diagnostics without a code get no fixes", () => {
+        let text = '[package]\nname = "example"\n';
+        let tomlDocument = parse(text);
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let diagnostic: Diagnostic = {
+            range: Range.create(0, 1, 0, 8),
+            message: 'Use "version" instead of "vers".',
+            severity: DiagnosticSeverity.Warning
+        };
+        assert.deepEqual(getCodeActions(document, tomlDocument, [diagnostic], [schema]), []);
+    });
+
+    test("Missing properties are told apart by their data, not by the message", () => {
+        let text = '[package]\nname = "example"\n';
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let tomlDocument = languageService.parseTOMLDocument(document);
+        return languageService.doValidation(document, tomlDocument, defaultLintSettings, '1.0').then(diagnostics => {
+            assert.deepEqual(diagnostics.map(diagnostic => diagnostic.data), [{ missingProperty: 'version' }]);
+            let translated: Diagnostic = {
+                range: Range.create(0, 1, 0, 8),
+                message: 'Eigenschaft fehlt: version',
+                severity: DiagnosticSeverity.Warning,
+                data: { missingProperty: 'version' }
+            };
+            let actions = getCodeActions(document, tomlDocument, [translated], [schema]);
+            assert.deepEqual(actions.map(action => action.title), ['Add the missing key "version"']);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CompletionList, InsertTextFormat, MarkupContent, TextEdit } from 'vscode-languageserver';
+import { JSONSchema } from 'vscode-json-languageservice';
+import { parse } from '../server/parser/tomlParser';
+import { doComplete } from '../server/services/tomlCompletion';
+
+suite("TOML Completion", () => {
+
+    let schema: JSONSchema = {
+        type: 'object',
+        properties: {
+            title: { type: 'string', description: 'The title' },
+            debug: { type: 'boolean' },
+            level: { enum: ['low', 'high'], enumDescriptions: ['Quiet', 'Loud'] },
+            port: { type: 'integer', default: 8080, examples: [80] },
+            'my key': { type: 'string' },
+            internal: { type: 'string', doNotSuggest: true },
+            server: {
+                type: 'object',
+                markdownDescription: 'The **server**',
+                properties: {
+                    host: { type: 'string' },
+                    ports: { type: 'array' },
+                    tls: { type: 'object', properties: { cert: { type: 'string' } } }
+                }
+            },
+            bin: {
+                type: 'array',
+                items: { type: 'object', properties: { name: { type: 'string' }, path: { type: 'string' } } }
+            }
+        }
+    };
+
+    /**
+     * Completes at the `|` in the text.
+     */
+    function complete(text: string, schemas: JSONSchema[] = [schema]): CompletionList {
+        let offset = text.indexOf('|');
+        text = text.substring(0, offset) + text.substring(offset + 1);
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        return doComplete(document, document.positionAt(offset), parse(text), schemas);
+    }
+
+    function getLabels(text: string): string[] {
+        return complete(text).items.map(item => item.label);
+    }
+
+    /**
+     * Applies the completion with the label and returns the text with the snippet as it is.
+     */
+    function apply(text: string, label: string): string {
+        let item = complete(text).items.filter(item => item.label === label)[0];
+        assert.ok(item, label);
+        let offset = text.indexOf('|');
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text.substring(0, offset) + text.substring(offset + 1));
+        return TextDocument.applyEdits(document, [<TextEdit>item.textEdit]);
+    }
+
+    test("Top-level keys", () => {
+        assert.deepEqual(getLabels('|'), ['title', 'debug', 'level', 'port', '"my key"', 'server', 'bin']);
+        // the keys that exist are left out
+        assert.deepEqual(getLabels('title = "a"\nport = 1\n|'), ['debug', 'level', '"my key"', 'server', 'bin']);
+    });
+
+    test("Keys of tables, dotted keys and inline tables", () => {
+        assert.deepEqual(getLabels('[server]\nhost = "a"\n|'), ['ports', 'tls']);
+        assert.deepEqual(getLabels('[server.tls]\n|'), ['cert']);
+        assert.deepEqual(getLabels('server.|'), ['host', 'ports', 'tls']);
+        assert.deepEqual(getLabels('server = { host = "a", | }'), ['ports', 'tls']);
+        assert.deepEqual(getLabels('[[bin]]\nname = "a"\n[[bin]]\n|'), ['name', 'path']);
+    });
+
+    test("Key snippets", () => {
+        let items = complete('|').items;
+        let get = (label: string) => items.filter(item => item.label === label)[0];
+        assert.equal(get('title').insertTextFormat, InsertTextFormat.Snippet);
+        assert.deepEqual(items.map(item => (<TextEdit>item.textEdit).newText), [
+            'title = "$1"',
+            'debug = ${1:false}',
+            'level = $1',
+            'port = ${1:8080}',
+            '"my key" = "$1"',
+            'server = { $1 }',
+            'bin = [$1]'
+        ]);
+        // only the key when the line has a value already
+        assert.equal(apply('ti| = "a"', 'title'), 'title = "a"');
+    });
+
+    test("Details and documentation", () => {
+        let items = complete('|').items;
+        let get = (label: string) => items.filter(item => item.label === label)[0];
+        assert.equal(get('title').detail, 'string');
+        assert.equal(get('title').documentation, 'The title');
+        assert.deepEqual(<MarkupContent>get('server').documentation, { kind: 'markdown', value: 'The **server**' });
+    });
+
+    test("The word at the position is replaced", () => {
+        assert.equal(apply('tit|le', 'title'), 'title = "$1"');
+        assert.equal(apply('[server]\nh|', 'host'), '[server]\nhost = "$1"');
+    });
+
+    test("Tables and arrays of tables", () => {
+        assert.deepEqual(getLabels('[|'), ['server']);
+        assert.deepEqual(getLabels('[server.|'), ['tls']);
+        assert.deepEqual(getLabels('[[|'), ['bin']);
+        // a table that is declared already is not offered again
+        assert.deepEqual(getLabels('[server]\n[|'), []);
+        assert.equal(apply('[|', 'server'), '[server]');
+        assert.equal(apply('[[|', 'bin'), '[[bin]]');
+        assert.equal(apply('[|]', 'server'), '[server]');
+    });
+
+    test("Values", () => {
+        assert.deepEqual(getLabels('level = |'), ['"low"', '"high"']);
+        assert.deepEqual(getLabels('debug = |'), ['true', 'false']);
+        assert.deepEqual(getLabels('port = |'), ['8080', '80']);
+        assert.deepEqual(getLabels('title = |'), []);
+        let level = complete('level = |').items[0];
+        assert.equal(level.documentation, 'Quiet');
+        // a value directly after `=` gets a space
+        assert.equal(apply('level =|', '"high"'), 'level = "high"');
+        assert.equal(apply('level = "l|"', '"low"'), 'level = "low"');
+    });
+
+    test("Nothing to complete", () => {
+        assert.deepEqual(getLabels('title = "a" |'), []);
+        assert.deepEqual(getLabels('# |'), []);
+        assert.deepEqual(complete('|', []).items, []);
+    });
+});
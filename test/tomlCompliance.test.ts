@@ -0,0 +1,382 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ASTNode } from 'vscode-json-languageservice';
+import { parse, parseLiteral } from '../server/parser/tomlParser';
+import { formatScalar } from '../server/services/tomlConversion';
+import { getSpecVersionErrors, SpecVersion } from '../server/services/tomlSpecVersion';
+
+/*
+ * The files of toml-test in test/toml-test are run as they are, see its README. The cases below
+ * follow the valid and invalid suites of toml-test for TOML 1.0 and are named like the files of
+ * the suites. A valid document parses without errors into the expected value, dates and times
+ * are kept as their text. An invalid document has at least one error.
+ */
+
+const suiteRoot = path.join(__dirname, '..', '..', 'test', 'toml-test');
+
+const valid: { [name: string]: [string, any] } = {
+    'valid/comment/everywhere': [
+        '# Top comment.\n[group] # Comment\nanswer = 42 # Comment\n# no-extraneous-keys-please = 999\nmore = [ # Comment\n  # What about multiple # comments?\n  42, 42, # Comment\n] # Comment\n',
+        { group: { answer: 42, more: [42, 42] } }
+    ],
+    'valid/comment/tricky': [
+        '[section]#attached comment\n#[notsection]\none = "11"#cmt\nfloat = 11.1#cmt\n',
+        { section: { one: '11', float: 11.1 } }
+    ],
+    'valid/key/dotted': [
+        'name.first = "Arthur"\n"name".\'last\' = "Dent"\nmany.dots.here.dot.dot.dot = 42\n\n[tbl]\na.b.c = 42.1\n\n[a.few.dots]\npolka.dot = "again?"\n',
+        { name: { first: 'Arthur', last: 'Dent' }, many: { dots: { here: { dot: { dot: { dot: 42 } } } } }, tbl: { a: { b: { c: 42.1 } } }, a: { few: { dots: { polka: { dot: 'again?' } } } } }
+    ],
+    'valid/key/quoted-dots': [
+        'plain = 1\n"with.dot" = 2\n\n[plain_table]\nplain = 3\n"with.dot" = 4\n\n[table.withdot]\nplain = 5\n"key.with.dots" = 6\n',
+        { plain: 1, 'with.dot': 2, plain_table: { plain: 3, 'with.dot': 4 }, table: { withdot: { plain: 5, 'key.with.dots': 6 } } }
+    ],
+    'valid/key/empty': [
+        '"" = "blank"\n',
+        { '': 'blank' }
+    ],
+    'valid/key/numeric-dotted': [
+        '1.2 = 3\n',
+        { 1: { 2: 3 } }
+    ],
+    'valid/key/space': [
+        '"a b" = 1\n  a . b = 2\n',
+        { 'a b': 1, a: { b: 2 } }
+    ],
+    'valid/string/escapes': [
+        'backspace = "|\\b."\ntab = "|\\t."\nnewline = "|\\n."\nformfeed = "|\\f."\ncarriage = "|\\r."\nquote = "|\\"."\nbackslash = "|\\\\."\nunicode = "\\u00e9\\U0001F600"\n',
+        { backspace: '|\b.', tab: '|\t.', newline: '|\n.', formfeed: '|\f.', carriage: '|\r.', quote: '|".', backslash: '|\\.', unicode: '\u00e9\u{1F600}' }
+    ],
+    'valid/string/multiline': [
+        'equivalent_one = "The quick brown fox jumps over the lazy dog."\nequivalent_two = """\nThe quick brown \\\n\n\n  fox jumps over \\\n    the lazy dog."""\nequivalent_three = """\\\n       The quick brown \\\n       fox jumps over \\\n       the lazy dog.\\\n       """\nkeep_ws = """\na   \\   \n b"""\n',
+        { equivalent_one: 'The quick brown fox jumps over the lazy dog.', equivalent_two: 'The quick brown fox jumps over the lazy dog.', equivalent_three: 'The quick brown fox jumps over the lazy dog.', keep_ws: 'a   b' }
+    ],
+    'valid/string/multiline-quotes': [
+        'lit_one = \'\'\'\'one quote\'\'\'\'\nlit_two = \'\'\'\'\'two quotes\'\'\'\'\'\none = """"one quote""""\ntwo = """""two quotes"""""\nmismatch = """aaa\'\'\'bbb"""\n',
+        { lit_one: '\'one quote\'', lit_two: '\'\'two quotes\'\'', one: '"one quote"', two: '""two quotes""', mismatch: 'aaa\'\'\'bbb' }
+    ],
+    'valid/string/raw': [
+        'backslash = \'This string has a \\\\ backslash character.\'\nmulti = \'\'\'\nI [dw]on\'t need \\d{2} apples\n\'\'\'\n',
+        { backslash: 'This string has a \\\\ backslash character.', multi: 'I [dw]on\'t need \\d{2} apples\n' }
+    ],
+    'valid/string/multiline-crlf': [
+        'multi = """\r\nline one\r\nline two"""\r\n',
+        { multi: 'line one\r\nline two' }
+    ],
+    'valid/integer/integer': [
+        'answer = 42\nposans = +42\nneganswer = -42\nzero = 0\nposzero = +0\nnegzero = -0\nunderscore = 1_000\n',
+        { answer: 42, posans: 42, neganswer: -42, zero: 0, poszero: 0, negzero: -0, underscore: 1000 }
+    ],
+    'valid/integer/literals': [
+        'bin1 = 0b11010110\nbin2 = 0b1_0_1\noct1 = 0o01234567\noct2 = 0o755\nhex1 = 0xDEADBEEF\nhex2 = 0xdeadbeef\nhex3 = 0xdead_beef\nhex4 = 0x00987\n',
+        { bin1: 214, bin2: 5, oct1: 342391, oct2: 493, hex1: 3735928559, hex2: 3735928559, hex3: 3735928559, hex4: 2439 }
+    ],
+    'valid/integer/long': [
+        'int64-max = 9223372036854775807\nint64-min = -9223372036854775808\n',
+        { 'int64-max': 9223372036854775807, 'int64-min': -9223372036854775808 }
+    ],
+    'valid/float/float': [
+        'pi = 3.14\npospi = +3.14\nnegpi = -3.14\nzero-intpart = 0.123\nexponent = 3e2\nexponent-neg = -1E-2\nexponent-pos = 6.626e+34\nexponent-zero = 1e06\nunderscore = 9_224_617.445_991_228_313\n',
+        { 'pi': 3.14, 'pospi': 3.14, 'negpi': -3.14, 'zero-intpart': 0.123, 'exponent': 300, 'exponent-neg': -0.01, 'exponent-pos': 6.626e+34, 'exponent-zero': 1000000, 'underscore': 9224617.445991228313 }
+    ],
+    'valid/float/inf-and-nan': [
+        'nan = nan\nnan_neg = -nan\nnan_plus = +nan\ninfinity = inf\ninfinity_neg = -inf\ninfinity_plus = +inf\n',
+        { nan: NaN, nan_neg: NaN, nan_plus: NaN, infinity: Infinity, infinity_neg: -Infinity, infinity_plus: Infinity }
+    ],
+    'valid/bool/bool': [
+        'a = true\nb = false\n',
+        { a: true, b: false }
+    ],
+    'valid/datetime/datetime': [
+        'space = 1987-07-05 17:45:00Z\nlower = 1987-07-05t17:45:00z\noffset = 1979-05-27T00:32:00.999999-07:00\nlocal = 1987-07-05T17:45:00\ndate = 1987-07-05\ntime = 17:45:00.5\nleap = 2000-02-29\n',
+        { space: '1987-07-05 17:45:00Z', lower: '1987-07-05t17:45:00z', offset: '1979-05-27T00:32:00.999999-07:00', local: '1987-07-05T17:45:00', date: '1987-07-05', time: '17:45:00.5', leap: '2000-02-29' }
+    ],
+    'valid/array/mixed-types': [
+        'ints-and-floats = [1, 1.1]\nstrings-and-ints = ["hi", 42]\narrays = [[1, 2], ["a", "b"]]\ntables = [{ a = 1 }, { b = 2 }]\n',
+        { 'ints-and-floats': [1, 1.1], 'strings-and-ints': ['hi', 42], 'arrays': [[1, 2], ['a', 'b']], 'tables': [{ a: 1 }, { b: 2 }] }
+    ],
+    'valid/array/trailing-comma': [
+        'a = [\n  1,\n  2, # comment\n]\nempty = [\n]\n',
+        { a: [1, 2], empty: [] }
+    ],
+    'valid/inline-table/nest': [
+        'tbl_tbl = { tbl = { x = 1 }, a.b.c = true }\nempty = {}\nlist = { arr = [{ k = "v" }] }\n',
+        { tbl_tbl: { tbl: { x: 1 }, a: { b: { c: true } } }, empty: {}, list: { arr: [{ k: 'v' }] } }
+    ],
+    'valid/table/implicit-and-explicit-after': [
+        '[a.b.c]\nanswer = 42\n\n[a]\nbetter = 43\n',
+        { a: { b: { c: { answer: 42 } }, better: 43 } }
+    ],
+    'valid/table/array-implicit-and-explicit-after': [
+        '[[a.b]]\nx = 1\n\n[a]\ny = 2\n',
+        { a: { b: [{ x: 1 }], y: 2 } }
+    ],
+    'valid/table/array-nest': [
+        '[[albums]]\nname = "Born to Run"\n\n  [[albums.songs]]\n  name = "Jungleland"\n\n[[albums]]\nname = "Born in the USA"\n\n  [albums.info]\n  year = 1984\n',
+        { albums: [{ name: 'Born to Run', songs: [{ name: 'Jungleland' }] }, { name: 'Born in the USA', info: { year: 1984 } }] }
+    ],
+    'valid/table/dotted-sub-table': [
+        '[fruit]\napple.color = "red"\napple.taste.sweet = true\n\n[fruit.apple.texture]\nsmooth = true\n',
+        { fruit: { apple: { color: 'red', taste: { sweet: true }, texture: { smooth: true } } } }
+    ],
+    'valid/table/whitespace': [
+        '[ "valid key" ]\n[ a . b ]\n[[ c ]]\n',
+        { 'valid key': {}, a: { b: {} }, c: [{}] }
+    ],
+    'valid/empty-file': [
+        '',
+        {}
+    ],
+    'valid/bom': [
+        '\uFEFFa = 1\n',
+        { a: 1 }
+    ]
+};
+
+const invalid: { [name: string]: string } = {
+    'invalid/control/comment-del': 'a = "value" # \u007F\n',
+    'invalid/control/comment-null': 'a = "value" # \u0000\n',
+    'invalid/control/string-us': 'a = "\u001F"\n',
+    'invalid/control/multi-literal-bs': 'a = \'\'\'\u0008\'\'\'\n',
+    'invalid/control/bare-cr': 'a = 1\r',
+    'invalid/control/multi-cr': 'a = """line\rline"""\n',
+    'invalid/encoding/bom-not-at-start': 'a = 1\n\uFEFFb = 2\n',
+    'invalid/key/bare-invalid-character': 'bare!key = 123\n',
+    'invalid/key/empty': '= 1\n',
+    'invalid/key/newline': 'a\n= 1\n',
+    'invalid/key/no-eol': 'a = 1 b = 2\n',
+    'invalid/key/after-table': '[error] this = "should not be here"\n',
+    'invalid/key/multiline': '"""long\nkey""" = 1\n',
+    'invalid/key/duplicate': 'dupe = false\ndupe = true\n',
+    'invalid/key/dotted-redefine-table': 'a = false\na.b = true\n',
+    'invalid/key/open-bracket': '[abc = 1\n',
+    'invalid/string/bad-escape': 'a = "\\x41"\n',
+    'invalid/string/bad-slash-escape': 'a = "\\/"\n',
+    'invalid/string/bad-surrogate': 'a = "\\uD800"\n',
+    'invalid/string/out-of-range-unicode': 'a = "\\U00110000"\n',
+    'invalid/string/no-close': 'a = "no close\n',
+    'invalid/string/multiline-no-close': 'a = """no close\n',
+    'invalid/string/multiline-escape-space': 'a = """\\ x"""\n',
+    'invalid/string/literal-multiline-quotes': 'a = \'\'\'6 quotes\'\'\'\'\'\'\n',
+    'invalid/string/basic-multiline-quotes': 'a = """6 quotes""""""\n',
+    'invalid/integer/leading-zero': 'a = 01\n',
+    'invalid/integer/leading-zero-sign': 'a = -01\n',
+    'invalid/integer/double-underscore': 'a = 1__2\n',
+    'invalid/integer/trailing-underscore': 'a = 1_\n',
+    'invalid/integer/leading-underscore': 'a = _1\n',
+    'invalid/integer/capital-hex': 'a = 0X1\n',
+    'invalid/integer/positive-hex': 'a = +0x1\n',
+    'invalid/integer/invalid-octal': 'a = 0o8\n',
+    'invalid/integer/invalid-bin': 'a = 0b2\n',
+    'invalid/integer/positive-overflow': 'a = 9223372036854775808\n',
+    'invalid/integer/negative-overflow': 'a = -9223372036854775809\n',
+    'invalid/integer/hex-overflow': 'a = 0x8000000000000000\n',
+    'invalid/float/leading-point': 'a = .1\n',
+    'invalid/float/trailing-point': 'a = 1.\n',
+    'invalid/float/leading-zero': 'a = 03.14\n',
+    'invalid/float/exp-point': 'a = 1e2.3\n',
+    'invalid/float/exp-trailing-us': 'a = 1e_23\n',
+    'invalid/float/us-before-point': 'a = 1_.2\n',
+    'invalid/float/inf-capital': 'a = Inf\n',
+    'invalid/float/nan-underscore': 'a = na_n\n',
+    'invalid/datetime/no-leads': 'a = 1987-7-05T17:45:00Z\n',
+    'invalid/datetime/no-secs': 'a = 1987-07-05T17:45Z\n',
+    'invalid/datetime/no-t': 'a = 1987-07-0517:45:00Z\n',
+    'invalid/datetime/trailing-t': 'a = 1987-07-05T\n',
+    'invalid/datetime/month-over': 'a = 2006-13-01T00:00:00Z\n',
+    'invalid/datetime/day-zero': 'a = 2006-01-00T00:00:00Z\n',
+    'invalid/datetime/feb-29': 'a = 2023-02-29\n',
+    'invalid/datetime/feb-30-leap': 'a = 2024-02-30\n',
+    'invalid/datetime/hour-over': 'a = 2006-01-01T24:00:00Z\n',
+    'invalid/datetime/minute-over': 'a = 2006-01-01T00:60:00Z\n',
+    'invalid/datetime/second-over': 'a = 2006-01-01T00:00:61Z\n',
+    'invalid/datetime/offset-overflow-hour': 'a = 2006-01-01T00:00:00+24:00\n',
+    'invalid/local-time/hour-over': 'a = 25:00:00\n',
+    'invalid/array/missing-separator': 'a = [1 2]\n',
+    'invalid/array/double-comma': 'a = [1,,2]\n',
+    'invalid/array/only-comma': 'a = [,]\n',
+    'invalid/array/no-close': 'a = [1, 2\n',
+    'invalid/array/extend-defined-aot': '[[tab.arr]]\n[tab]\narr.val1 = 1\n',
+    'invalid/array/tables-static': 'fruit = []\n\n[[fruit]]\n',
+    'invalid/inline-table/trailing-comma': 'a = { b = 1, }\n',
+    'invalid/inline-table/linebreak': 'a = { b = 1,\nc = 2 }\n',
+    'invalid/inline-table/double-comma': 'a = { b = 1,, c = 2 }\n',
+    'invalid/inline-table/add': 'a = { b = 1 }\na.c = 2\n',
+    'invalid/inline-table/overwrite': 'a.b = 0\na = {}\n',
+    'invalid/inline-table/table-after': 'a = { b = 1 }\n[a.c]\n',
+    'invalid/inline-table/duplicate-key': 'a = { b = 1, b = 2 }\n',
+    'invalid/table/empty': '[]\n',
+    'invalid/table/trailing-dot': '[a.]\n',
+    'invalid/table/no-close': '[a\n',
+    'invalid/table/text-after': '[a]b\n',
+    'invalid/table/nested-brackets-open': '[a[b]\n',
+    'invalid/table/duplicate': '[a]\nb = 1\n\n[a]\nc = 2\n',
+    'invalid/table/duplicate-key-table': '[fruit]\ntype = "apple"\n\n[fruit.type]\napple = "yes"\n',
+    'invalid/table/array-implicit': '[[albums.songs]]\nname = "Glory Days"\n\n[[albums]]\nname = "Born in the USA"\n',
+    'invalid/table/array-then-table': '[[a]]\n[a]\n',
+    'invalid/table/table-then-array': '[a]\n[[a]]\n',
+    'invalid/table/space-in-array-brackets': '[ [a]]\n',
+    'invalid/table/append-with-dotted-keys-1': '[a.b.c]\n  z = 9\n\n[a]\n  b.c.t = "no"\n',
+    'invalid/table/append-with-dotted-keys-2': '[a.b.c.d]\n  z = 9\n\n[a]\n  b.c.d.k.t = 8\n',
+    'invalid/table/redefine-dotted': '[fruit]\napple.color = "red"\napple.taste.sweet = true\n\n[fruit.apple]\n',
+    'invalid/table/redefine-dotted-sub-table': '[fruit]\napple.color = "red"\napple.taste.sweet = true\n\n[fruit.apple.taste]\n',
+    'invalid/table/redefine-root-dotted': 'a.b = 1\n\n[a]\n'
+};
+
+/**
+ * Returns the names of the TOML files in a directory of the toml-test suite and its
+ * subdirectories, e.g. `valid/key/dotted`.
+ */
+function getSuiteCases(dir: string): string[] {
+    let dirPath = path.join(suiteRoot, dir);
+    if (!fs.existsSync(dirPath)) {
+        return [];
+    }
+    let cases: string[] = [];
+    for (let name of fs.readdirSync(dirPath).sort()) {
+        if (fs.statSync(path.join(dirPath, name)).isDirectory()) {
+            cases.push(...getSuiteCases(dir + '/' + name));
+        } else if (/\.toml$/.test(name)) {
+            cases.push(dir + '/' + name.slice(0, -'.toml'.length));
+        }
+    }
+    return cases;
+}
+
+const dateTimeTypes = { offsetDateTime: 'datetime', localDateTime: 'datetime-local', localDate: 'date-local', localTime: 'time-local' };
+
+/**
+ * Returns the typed JSON of toml-test for a node of the JSON view of a document, e.g.
+ * `{ "type": "integer", "value": "42" }`. Integers are read from the text, the number of the
+ * node loses the digits beyond 2^53.
+ */
+function toTypedValue(text: string, node: ASTNode): any {
+    switch (node.type) {
+        case 'object':
+            let obj = {};
+            node.properties.forEach(property => obj[property.keyNode.value] = toTypedValue(text, property.valueNode));
+            return obj;
+        case 'array':
+            return node.items.map(item => toTypedValue(text, item));
+        case 'string':
+            // the value of a date-time is not quoted in the TOML text
+            if (/["']/.test(text.charAt(node.offset))) {
+                return { type: 'string', value: node.value };
+            }
+            return { type: dateTimeTypes[parseLiteral(node.value).type], value: node.value };
+        case 'number':
+            return { type: node.isInteger ? 'integer' : 'float', value: node.isInteger ? formatScalar(text, node, 'json') : String(node.value) };
+        case 'boolean':
+            return { type: 'bool', value: String(node.value) };
+    }
+    return null;
+}
+
+/**
+ * Brings the typed JSON of toml-test into one form, so that equal values compare equal: `+1`
+ * and `1`, `1e3` and `1000.0`, `-inf` and `-Infinity`, `1987-07-05 17:45:00z` and
+ * `1987-07-05T17:45:00Z`. Older versions of the suite have the type `datetime` for all dates
+ * and times.
+ */
+function normalizeTypedValue(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(normalizeTypedValue);
+    }
+    let keys = Object.keys(value);
+    if (keys.length === 2 && typeof value.type === 'string' && typeof value.value === 'string') {
+        switch (value.type) {
+            case 'integer':
+                return { type: 'integer', value: value.value.replace(/^\+/, '').replace(/^-0$/, '0') };
+            case 'float':
+                let number = /^[+-]?nan$/.test(value.value) ? NaN : Number(value.value.replace(/inf$/, 'Infinity'));
+                return { type: 'float', value: isNaN(number) ? 'nan' : String(number) };
+            case 'datetime':
+            case 'datetime-local':
+            case 'date-local':
+            case 'time-local':
+                return { type: 'datetime', value: value.value.toUpperCase().replace(' ', 'T') };
+        }
+        return value;
+    }
+    let result = {};
+    keys.forEach(key => result[key] = normalizeTypedValue(value[key]));
+    return result;
+}
+
+function toPlainValue(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(toPlainValue);
+    }
+    if (value && typeof value === 'object') {
+        let result = {};
+        Object.keys(value).forEach(key => result[key] = toPlainValue(value[key]));
+        return result;
+    }
+    return value;
+}
+
+suite("TOML Compliance", () => {
+
+    suite("valid", () => {
+        Object.keys(valid).forEach(name => {
+            test(name, () => {
+                let [text, expected] = valid[name];
+                let tomlDocument = parse(text);
+                assert.deepEqual(tomlDocument.errors.map(error => error.message), []);
+                assert.deepStrictEqual(toPlainValue(tomlDocument.json), expected);
+            });
+        });
+    });
+
+    suite("invalid", () => {
+        Object.keys(invalid).forEach(name => {
+            test(name, () => {
+                assert.ok(parse(invalid[name]).errors.length > 0, JSON.stringify(invalid[name]));
+            });
+        });
+    });
+
+    suite("toml-test", () => {
+        getSuiteCases('valid').forEach(name => {
+            test(name, () => {
+                let text = fs.readFileSync(path.join(suiteRoot, name + '.toml'), 'utf8');
+                let expected = JSON.parse(fs.readFileSync(path.join(suiteRoot, name + '.json'), 'utf8'));
+                let tomlDocument = parse(text);
+                assert.deepEqual(tomlDocument.errors.map(error => error.message), []);
+                assert.deepStrictEqual(normalizeTypedValue(toTypedValue(text, tomlDocument.jsonRoot)), normalizeTypedValue(expected));
+            });
+        });
+        getSuiteCases('invalid').forEach(name => {
+            test(name, () => {
+                let text = fs.readFileSync(path.join(suiteRoot, name + '.toml'), 'utf8');
+                assert.ok(parse(text).errors.length > 0, JSON.stringify(text));
+            });
+        });
+    });
+
+    suite("spec version", () => {
+
+        function getErrors(text: string, specVersion: SpecVersion): string[] {
+            let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+            let tomlDocument = parse(text);
+            assert.deepEqual(tomlDocument.errors.map(error => error.message), []);
+            return getSpecVersionErrors(document, tomlDocument, specVersion).map(error => document.getText().substr(error.token.offset, error.token.length));
+        }
+
+        test("TOML 1.0 allows everything", () => {
+            assert.deepEqual(getErrors('a.b = 0x10\nc = [1, "2"]\nd = 07:32:00\n', '1.0'), []);
+        });
+
+        test("TOML 0.5 does not allow mixed-type arrays", () => {
+            assert.deepEqual(getErrors('a = [1, 2]\nb = [1, "2", 3.0]\nc = [[1], ["a"]]\nd = ["a", \'b\', """c"""]\n', '0.5'), ['"2"']);
+            assert.deepEqual(getErrors('a.b = 0x10\nc = inf\nd = 07:32:00\n', '0.5'), []);
+        });
+
+        test("TOML 0.4 does not allow the constructs of TOML 0.5", () => {
+            let text = 'a.b = 1\nc = 0xff\nd = 0o7\ne = 0b1\nf = -inf\ng = nan\nh = 1979-05-27\ni = 07:32:00\nj = 1979-05-27T07:32:00\nk = 1979-05-27 07:32:00Z\nl = 1979-05-27T07:32:00Z\nm = 1e3\n';
+            assert.deepEqual(getErrors(text, '0.4'), ['a.b', '0xff', '0o7', '0b1', '-inf', 'nan', '1979-05-27', '07:32:00', '1979-05-27T07:32:00', '1979-05-27 07:32:00Z']);
+        });
+    });
+});
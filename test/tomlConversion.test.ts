@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parse } from '../server/parser/tomlParser';
+import { convertTOML, convertToTOML, DataFormat } from '../server/services/tomlConversion';
+
+suite("TOML Conversion", () => {
+
+    function fromTOML(text: string, format: DataFormat): string {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let result = convertTOML(document, parse(text), format);
+        assert.equal(typeof result, 'string', JSON.stringify(result));
+        return <string>result;
+    }
+
+    function toTOML(text: string, format: DataFormat): string {
+        let result = convertToTOML(text, format);
+        assert.equal(typeof result, 'string', JSON.stringify(result));
+        let tomlDocument = parse(<string>result);
+        assert.deepEqual(tomlDocument.errors.map(error => error.message), [], <string>result);
+        return <string>result;
+    }
+
+    /**
+     * Converts the TOML text to the format and back, and checks that the result has the same
+     * JSON view as the original.
+     */
+    function roundTrip(text: string, format: DataFormat): string {
+        let converted = toTOML(fromTOML(text, format), format);
+        assert.equal(fromTOML(converted, 'json'), fromTOML(text, 'json'), converted);
+        return converted;
+    }
+
+    let integers = [
+        'max = 9223372036854775807',
+        'min = -9223372036854775808',
+        'hex = 0xDEAD_BEEF',
+        'max_hex = 0x7FFFFFFFFFFFFFFF',
+        'octal = 0o755',
+        'binary = 0b1101',
+        ''
+    ].join('\n');
+
+    let dateTimes = [
+        'offset = 1979-05-27T07:32:00.999-07:00',
+        'local = 1979-05-27T07:32:00',
+        'date = 1979-05-27',
+        'time = 07:32:00',
+        ''
+    ].join('\n');
+
+    let floats = [
+        'inf = inf',
+        'minus_inf = -inf',
+        'nan = nan',
+        'one = 1.0',
+        'exponent = 5e+22',
+        ''
+    ].join('\n');
+
+    test("Integers keep their digits", () => {
+        assert.equal(fromTOML(integers, 'json'), [
+            '{',
+            '  "max": 9223372036854775807,',
+            '  "min": -9223372036854775808,',
+            '  "hex": 3735928559,',
+            '  "max_hex": 9223372036854775807,',
+            '  "octal": 493,',
+            '  "binary": 13',
+            '}',
+            ''
+        ].join('\n'));
+        assert.equal(fromTOML(integers, 'yaml'), 'max: 9223372036854775807\nmin: -9223372036854775808\nhex: 3735928559\nmax_hex: 9223372036854775807\noctal: 493\nbinary: 13\n');
+        for (let format of <DataFormat[]>['json', 'yaml']) {
+            assert.equal(roundTrip(integers, format), 'max = 9223372036854775807\nmin = -9223372036854775808\nhex = 3735928559\nmax_hex = 9223372036854775807\noctal = 493\nbinary = 13\n');
+        }
+    });
+
+    test("Date-times", () => {
+        assert.equal(fromTOML(dateTimes, 'json'), [
+            '{',
+            '  "offset": "1979-05-27T07:32:00.999-07:00",',
+            '  "local": "1979-05-27T07:32:00",',
+            '  "date": "1979-05-27",',
+            '  "time": "07:32:00"',
+            '}',
+            ''
+        ].join('\n'));
+        assert.equal(fromTOML(dateTimes, 'yaml'), 'offset: 1979-05-27T07:32:00.999-07:00\nlocal: 1979-05-27T07:32:00\ndate: 1979-05-27\ntime: 07:32:00\n');
+        for (let format of <DataFormat[]>['json', 'yaml']) {
+            assert.equal(roundTrip(dateTimes, format), dateTimes);
+        }
+    });
+
+    test("Infinity and NaN", () => {
+        assert.equal(fromTOML(floats, 'json'), [
+            '{',
+            '  "inf": "inf",',
+            '  "minus_inf": "-inf",',
+            '  "nan": "nan",',
+            '  "one": 1.0,',
+            '  "exponent": 5e+22',
+            '}',
+            ''
+        ].join('\n'));
+        assert.equal(fromTOML(floats, 'yaml'), 'inf: .inf\nminus_inf: -.inf\nnan: .nan\none: 1.0\nexponent: 5e+22\n');
+        assert.equal(roundTrip(floats, 'yaml'), floats);
+        // JSON has no infinity, the strings stay strings
+        assert.equal(toTOML(fromTOML(floats, 'json'), 'json'), 'inf = "inf"\nminus_inf = "-inf"\nnan = "nan"\none = 1.0\nexponent = 5e+22\n');
+    });
+
+    test("Strings that look like a date", () => {
+        let text = 'date = "1979-05-27"\ntime = "07:32:00"\nversion = "1.0"\nyes = "yes"\n';
+        assert.equal(fromTOML(text, 'yaml'), 'date: "1979-05-27"\ntime: "07:32:00"\nversion: "1.0"\n"yes": "yes"\n');
+        assert.equal(roundTrip(text, 'yaml'), text);
+        // JSON can't tell them from date-times
+        assert.equal(toTOML(fromTOML(text, 'json'), 'json'), 'date = 1979-05-27\ntime = 07:32:00\nversion = "1.0"\nyes = "yes"\n');
+    });
+
+    test("__proto__ keys", () => {
+        let text = '[__proto__]\na = 1\n\n[b]\n__proto__ = 2\n';
+        assert.equal(toTOML('{ "__proto__": { "a": 1 }, "b": { "__proto__": 2 } }', 'json'), text);
+        assert.equal(toTOML('__proto__:\n  a: 1\nb:\n  __proto__: 2\n', 'yaml'), text);
+        assert.equal(roundTrip(text, 'json'), text);
+        assert.equal(roundTrip(text, 'yaml'), text);
+    });
+
+    test("Null can't be converted", () => {
+        assert.equal(typeof convertToTOML('{ "a": [1, null] }', 'json'), 'object');
+        assert.equal(typeof convertToTOML('a: ~\n', 'yaml'), 'object');
+    });
+});
@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentSymbol, Range, SymbolKind } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { findDocumentSymbols, findDocumentSymbols2 } from '../server/services/tomlDocumentSymbols';
+
+suite("TOML Document Symbols", () => {
+
+    let kindNames: { [kind: number]: string } = {};
+    Object.keys(SymbolKind).forEach(name => kindNames[(<any>SymbolKind)[name]] = name);
+
+    function formatRange(range: Range): string {
+        return `${range.start.line}:${range.start.character}-${range.end.line}:${range.end.character}`;
+    }
+
+    /**
+     * Returns the symbol tree as lines of name, kind and range, indented by their depth, with
+     * the detail in parentheses.
+     */
+    function getOutline(text: string): string[] {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let result: string[] = [];
+        let collect = (symbols: DocumentSymbol[], indent: string) => {
+            symbols.forEach(symbol => {
+                let detail = symbol.detail ? ` (${symbol.detail})` : '';
+                result.push(`${indent}${symbol.name}${detail} ${kindNames[symbol.kind]} ${formatRange(symbol.range)}`);
+                collect(symbol.children, indent + '  ');
+            });
+        };
+        collect(findDocumentSymbols2(document, parse(text)), '');
+        return result;
+    }
+
+    test("Keys and their kinds", () => {
+        assert.deepEqual(getOutline([
+            's = "a"',
+            'i = 1',
+            'f = 1.5',
+            'b = true',
+            'd = 1979-05-27',
+            'a = [1, 2]',
+            't = { x = 1 }',
+            ''
+        ].join('\n')), [
+            's String 0:0-0:7',
+            'i Number 1:0-1:5',
+            'f Number 2:0-2:7',
+            'b Boolean 3:0-3:8',
+            'd Constant 4:0-4:14',
+            'a Array 5:0-5:10',
+            't Object 6:0-6:13',
+            '  x Number 6:6-6:11'
+        ]);
+    });
+
+    test("Tables and implicit tables", () => {
+        assert.deepEqual(getOutline([
+            '[a.b]',
+            'x = 1',
+            '',
+            '[c]',
+            'y = 2',
+            ''
+        ].join('\n')), [
+            // `a` is never declared and spans its children
+            'a Object 0:0-1:5',
+            '  b Object 0:0-1:5',
+            '    x Number 1:0-1:5',
+            'c Object 3:0-4:5',
+            '  y Number 4:0-4:5'
+        ]);
+    });
+
+    test("Dotted keys", () => {
+        assert.deepEqual(getOutline('a.b = 1\na.c = 2\n[t]\nd.e.f = 3\n'), [
+            'a Object 0:0-1:7',
+            '  b Number 0:0-0:7',
+            '  c Number 1:0-1:7',
+            't Object 2:0-3:9',
+            '  d Object 3:0-3:9',
+            '    e Object 3:0-3:9',
+            '      f Number 3:0-3:9'
+        ]);
+    });
+
+    test("Tables follow the structure of the data", () => {
+        // `[a.c]` belongs to `a`, even after `[b]`
+        assert.deepEqual(getOutline('[a]\nx = 1\n[b]\n[a.c]\n'), [
+            'a Object 0:0-3:5',
+            '  x Number 1:0-1:5',
+            '  c Object 3:0-3:5',
+            'b Object 2:0-2:3'
+        ]);
+    });
+
+    test("Arrays of tables", () => {
+        assert.deepEqual(getOutline([
+            '[[bin]]',
+            'name = "first"',
+            '[[bin]]',
+            'path = "src/main.rs"',
+            '[bin.options]',
+            'x = 1',
+            ''
+        ].join('\n')), [
+            'bin Array 0:0-5:5',
+            // the elements are told apart by their name
+            '  0 (first) Object 0:0-1:14',
+            '    name String 1:0-1:14',
+            '  1 Object 2:0-5:5',
+            '    path String 3:0-3:20',
+            '    options Object 4:0-5:5',
+            '      x Number 5:0-5:5'
+        ]);
+    });
+
+    test("Arrays with structure", () => {
+        // only the inline tables and arrays of an array are listed
+        assert.deepEqual(getOutline('a = [1, { x = 1 }, [{ y = 2 }]]\n'), [
+            'a Array 0:0-0:31',
+            '  1 Object 0:8-0:17',
+            '    x Number 0:10-0:15',
+            '  2 Array 0:19-0:30',
+            '    0 Object 0:20-0:29',
+            '      y Number 0:22-0:27'
+        ]);
+    });
+
+    test("Empty keys get a name", () => {
+        assert.deepEqual(getOutline('"" = 1\n'), ['"" Number 0:0-0:6']);
+    });
+
+    test("Selection ranges are the keys", () => {
+        let text = '[a.b]\nx = 1\n';
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let symbols = findDocumentSymbols2(document, parse(text));
+        assert.equal(formatRange(symbols[0].selectionRange), '0:1-0:2');
+        assert.equal(formatRange(symbols[0].children[0].selectionRange), '0:3-0:4');
+        assert.equal(formatRange(symbols[0].children[0].children[0].selectionRange), '1:0-1:1');
+    });
+
+    test("Flat symbols name their containers", () => {
+        let text = '[a.b]\nx = 1\n[[c]]\ny = 2\n';
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let symbols = findDocumentSymbols(document, parse(text));
+        assert.deepEqual(symbols.map(symbol => `${symbol.containerName} > ${symbol.name} ${kindNames[symbol.kind]} ${formatRange(symbol.location.range)}`), [
+            'undefined > a Object 0:0-1:5',
+            'a > b Object 0:0-1:5',
+            'b > x Number 1:0-1:5',
+            'undefined > c Array 2:0-3:5',
+            'c > 0 Object 2:0-3:5',
+            '0 > y Number 3:0-3:5'
+        ]);
+        assert.ok(symbols.every(symbol => symbol.location.uri === document.uri));
+    });
+});
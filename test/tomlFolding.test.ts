@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parse } from '../server/parser/tomlParser';
+import { getFoldingRanges, FoldingSettings, defaultFoldingSettings } from '../server/services/tomlFolding';
+
+suite("TOML Folding", () => {
+
+    /**
+     * Returns the ranges as start-end lines, with the kind if there is one.
+     */
+    function fold(lines: string[], settings: FoldingSettings = defaultFoldingSettings, rangeLimit?: number): string[] {
+        let text = lines.join('\n');
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        return getFoldingRanges(document, parse(text), settings, rangeLimit).map(range => `${range.startLine}-${range.endLine}${range.kind ? ' ' + range.kind : ''}`);
+    }
+
+    let tables = [
+        '[a]',
+        'x = 1',
+        '',
+        '[a.b]',
+        'y = 2',
+        '',
+        '# about c',
+        '[c]',
+        'z = 3',
+        '',
+        ''
+    ];
+
+    test("Tables", () => {
+        // the blank lines and the comments above the next header are not folded
+        assert.deepEqual(fold(tables), ['0-1', '3-4', '7-8']);
+    });
+
+    test("Hierarchical tables", () => {
+        assert.deepEqual(fold(tables, { hierarchical: true }), ['0-4', '3-4', '7-8']);
+        // arrays of tables fold with their subtables too
+        assert.deepEqual(fold(['[[a]]', '[a.b]', 'x = 1', '[[a]]', 'y = 2'], { hierarchical: true }), ['0-2', '1-2', '3-4']);
+    });
+
+    test("Tables of one line are not folded", () => {
+        assert.deepEqual(fold(['[a]', '[b]', 'x = 1']), ['1-2']);
+    });
+
+    test("Multi-line values", () => {
+        assert.deepEqual(fold([
+            'a = [',
+            '  1,',
+            '  2,',
+            ']',
+            'b = { x = 1, y = [',
+            '  1',
+            '] }',
+            'c = """',
+            'text',
+            '"""',
+            "d = '''",
+            "text'''",
+            'e = [1, 2]'
+        ]), ['0-2', '4-5', '7-9', '10-11']);
+    });
+
+    test("Values that start on the same line fold as the outer one", () => {
+        assert.deepEqual(fold([
+            'a = [[',
+            '  1,',
+            '], [',
+            '  2',
+            ']]'
+        ]), ['0-3', '2-3']);
+    });
+
+    test("Comments", () => {
+        assert.deepEqual(fold([
+            '# one',
+            '# two',
+            'x = 1 # not a comment line',
+            '# three',
+            '',
+            '# four',
+            '  # five'
+        ]), ['0-1 comment', '5-6 comment']);
+    });
+
+    test("Range limit", () => {
+        assert.deepEqual(fold(tables, defaultFoldingSettings, 2), ['0-1', '3-4']);
+    });
+});
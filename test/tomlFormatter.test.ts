@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FormattingOptions, Range } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { format, formatOnType, FormatSettings, defaultFormatSettings } from '../server/services/tomlFormatter';
+
+suite("TOML Formatter", () => {
+
+    let options: FormattingOptions = { tabSize: 4, insertSpaces: true };
+
+    /**
+     * Formats the text, or the lines of the range, and checks that the result describes the
+     * same data and stays as it is when it is formatted again.
+     */
+    function formatText(text: string, settings: FormatSettings = {}, range?: Range): string {
+        settings = Object.assign({}, defaultFormatSettings, settings);
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let original = parse(text);
+        let result = TextDocument.applyEdits(document, format(document, original, range, options, settings));
+        let formatted = parse(result);
+        assert.deepEqual(formatted.errors.map(error => error.message), original.errors.map(error => error.message), result);
+        assert.deepStrictEqual(formatted.json, original.json, result);
+        if (!range) {
+            let again = TextDocument.create('test://test.toml', 'toml', 1, result);
+            assert.equal(TextDocument.applyEdits(again, format(again, formatted, void 0, options, settings)), result, 'formatting is not stable');
+        }
+        return result;
+    }
+
+    function formatTyped(text: string, marker: string, ch: string, settings: FormatSettings = {}): string {
+        settings = Object.assign({}, defaultFormatSettings, settings);
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let position = document.positionAt(text.indexOf(marker) + marker.length);
+        return TextDocument.applyEdits(document, formatOnType(document, parse(text), position, ch, options, settings));
+    }
+
+    test("Spacing and blank lines", () => {
+        assert.equal(formatText('a=1\nb  =  "x"   \n[t]\nc={x=1,y=[1,2]}\n\n\n\n[u]\n'), 'a = 1\nb = "x"\n\n[t]\nc = { x = 1, y = [1, 2] }\n\n[u]\n');
+    });
+
+    test("Comments are kept", () => {
+        let text = [
+            '# the package',
+            'a=1 # one',
+            '# before b',
+            'b=[',
+            '  1, # first',
+            '  # between',
+            '  2',
+            ']',
+            '# about t',
+            '[t] # the table',
+            'c=2',
+            '# at the end',
+            ''
+        ].join('\n');
+        // an array with comments keeps its layout
+        assert.equal(formatText(text), [
+            '# the package',
+            'a = 1 # one',
+            '# before b',
+            'b = [',
+            '  1, # first',
+            '  # between',
+            '  2',
+            ']',
+            '',
+            '# about t',
+            '[t] # the table',
+            'c = 2',
+            '# at the end',
+            ''
+        ].join('\n'));
+    });
+
+    test("alignEquals", () => {
+        let text = 'a = 1\nbbb = 2\n\ncc = 3\nd.e = 4\n';
+        assert.equal(formatText(text, { alignEquals: true }), 'a   = 1\nbbb = 2\n\ncc  = 3\nd.e = 4\n');
+        assert.equal(formatText(text), text);
+    });
+
+    test("indentTables", () => {
+        let text = '[a]\nx = 1\n\n[a.b]\ny = 2\n\n[[a.b.c]]\nz = 3\n\n[d]\n';
+        assert.equal(formatText(text, { indentTables: true }), '[a]\nx = 1\n\n    [a.b]\n    y = 2\n\n        [[a.b.c]]\n        z = 3\n\n[d]\n');
+        assert.equal(formatText('[a]\n  x = 1\n'), '[a]\nx = 1\n');
+    });
+
+    test("reflowArrays and columnWidth", () => {
+        let long = 'a = [' + [1, 2, 3, 4, 5, 6, 7, 8, 9].map(n => '"item' + n + '"').join(', ') + ']\n';
+        assert.equal(formatText(long), 'a = [\n' + [1, 2, 3, 4, 5, 6, 7, 8, 9].map(n => '    "item' + n + '",\n').join('') + ']\n');
+        assert.equal(formatText(long, { columnWidth: 120 }), long);
+        assert.equal(formatText('a = [\n    1,\n    2,\n]\n'), 'a = [1, 2]\n');
+        assert.equal(formatText('a = [\n    1,\n    2,\n]\n', { reflowArrays: false }), 'a = [\n    1,\n    2,\n]\n');
+    });
+
+    test("trimTrailingWhitespace", () => {
+        assert.equal(formatText('# comment  \na = 1\n', { trimTrailingWhitespace: true }), '# comment\na = 1\n');
+        assert.equal(formatText('# comment  \na = 1\n', { trimTrailingWhitespace: false }), '# comment  \na = 1\n');
+    });
+
+    test("blankLineBetweenTables", () => {
+        let text = 'a = 1\n[t]\nb = 2\n# u\n[u]\n';
+        assert.equal(formatText(text), 'a = 1\n\n[t]\nb = 2\n\n# u\n[u]\n');
+        assert.equal(formatText(text, { blankLineBetweenTables: false }), text);
+    });
+
+    test("quoteStyle", () => {
+        let text = 'a = \'x\'\nb = "y"\nc = "it\'s"\nd = \'say "hi"\'\n';
+        assert.equal(formatText(text), text);
+        assert.equal(formatText(text, { quoteStyle: 'double' }), 'a = "x"\nb = "y"\nc = "it\'s"\nd = "say \\"hi\\""\n');
+        assert.equal(formatText(text, { quoteStyle: 'single' }), 'a = \'x\'\nb = \'y\'\nc = "it\'s"\nd = \'say "hi"\'\n');
+    });
+
+    test("Range formatting", () => {
+        let text = 'a=1\nb=2\nc=3\n';
+        assert.equal(formatText(text, {}, Range.create(1, 0, 1, 3)), 'a=1\nb = 2\nc=3\n');
+        // the range is extended to whole lines
+        assert.equal(formatText(text, {}, Range.create(0, 2, 1, 1)), 'a = 1\nb = 2\nc=3\n');
+    });
+
+    test("On-type formatting", () => {
+        assert.equal(formatTyped('a=1\nb=2\n\n', 'b=2\n', '\n'), 'a=1\nb = 2\n\n');
+        // only the lines of the header are formatted
+        assert.equal(formatTyped('a=1\n[ t ]\n', '[ t ]', ']'), 'a=1\n[t]\n');
+        assert.equal(formatTyped('a=[\n1,\n2]\n', '2]', ']'), 'a = [1, 2]\n');
+    });
+
+    test("Lines with syntax errors are left alone", () => {
+        assert.equal(formatText('a=1\nb = = 2\nc=3\n'), 'a = 1\nb = = 2\nc = 3\n');
+    });
+});
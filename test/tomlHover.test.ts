@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Hover, MarkupContent } from 'vscode-languageserver';
+import { JSONSchema } from 'vscode-json-languageservice';
+import { parse } from '../server/parser/tomlParser';
+import { doHover } from '../server/services/tomlHover';
+
+suite("TOML Hover", () => {
+
+    let schema: JSONSchema = {
+        type: 'object',
+        properties: {
+            package: {
+                title: 'Package',
+                description: 'The [package] section',
+                type: 'object',
+                properties: {
+                    name: { type: 'string', markdownDescription: 'The **name** of the package' },
+                    edition: {
+                        description: 'The edition',
+                        enum: ['2018', '2021'],
+                        enumDescriptions: ['The 2018 edition', 'The *current* edition'],
+                        default: '2018'
+                    },
+                    authors: { type: 'array', items: { type: 'string' } }
+                }
+            },
+            bin: {
+                type: 'array',
+                items: { type: 'object', properties: { path: { type: ['string', 'null'], description: 'The path' } } }
+            },
+            plain: {}
+        }
+    };
+
+    /**
+     * Hovers at the first occurrence of the marker.
+     */
+    function hover(text: string, marker: string, schemas: JSONSchema[] = [schema]): Hover {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        return doHover(document, document.positionAt(text.indexOf(marker)), parse(text), schemas);
+    }
+
+    function getContents(text: string, marker: string): string {
+        let result = hover(text, marker);
+        return result && (<MarkupContent>result.contents).value;
+    }
+
+    let text = [
+        '[package]',
+        'name = "a"',
+        'edition = "2021"',
+        'authors = ["b"]',
+        '',
+        '[[bin]]',
+        'path = "src/main.rs"',
+        ''
+    ].join('\n');
+
+    test("Table headers", () => {
+        assert.equal(getContents(text, 'package'), '**Package**\n\nThe \\[package\\] section\n\nType: `object`');
+    });
+
+    test("Keys", () => {
+        assert.equal(getContents(text, 'name'), 'The **name** of the package\n\nType: `string`');
+        assert.equal(getContents(text, 'edition'), 'The edition\n\nDefault: `"2018"`  \nAllowed values: `"2018"`, `"2021"`');
+        assert.equal(getContents(text, 'path'), 'The path\n\nType: `string | null`');
+        // dotted keys and inline tables find the same schemas
+        assert.equal(getContents('package.name = "a"\n', 'name'), 'The **name** of the package\n\nType: `string`');
+        assert.equal(getContents('package = { name = "a" }\n', 'name'), 'The **name** of the package\n\nType: `string`');
+    });
+
+    test("Values", () => {
+        assert.equal(getContents(text, '2021'), 'The edition\n\n`"2021"`: The \\*current\\* edition\n\nDefault: `"2018"`  \nAllowed values: `"2018"`, `"2021"`');
+        assert.equal(getContents(text, '"a"'), 'The **name** of the package\n\nType: `string`');
+        assert.equal(getContents(text, '["b"]'), 'Type: `array`');
+        assert.equal(getContents(text, 'b"]'), 'Type: `string`');
+    });
+
+    test("Ranges", () => {
+        let result = hover(text, 'edition');
+        assert.deepEqual(result.range, { start: { line: 2, character: 0 }, end: { line: 2, character: 7 } });
+        result = hover(text, '"2021"');
+        assert.deepEqual(result.range, { start: { line: 2, character: 10 }, end: { line: 2, character: 16 } });
+    });
+
+    test("No hover", () => {
+        // no schema, nothing known about the key, no key or value at the position
+        assert.equal(hover(text, 'name', []), null);
+        assert.equal(hover('unknown = 1\n', 'unknown'), null);
+        assert.equal(hover('plain = 1\n', 'plain'), null);
+        assert.equal(hover('# package\n', 'package'), null);
+        assert.equal(hover('[package]\n', '['), null);
+        // a duplicate key is not part of the data
+        assert.equal(hover('[package]\nname = "a"\nname = "b"\n', 'name = "b"'), null);
+    });
+});
@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { doLint, LintSettings, LintSeverity, defaultLintSettings } from '../server/services/tomlLint';
+import { sortKeys, SortSettings } from '../server/services/tomlSort';
+
+suite("TOML Lint", () => {
+
+    function lint(text: string, settings: LintSettings, sortSettings?: SortSettings): string[] {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        return doLint(document, parse(text), settings, sortSettings).map(diagnostic => `${diagnostic.range.start.line}: ${diagnostic.message}`);
+    }
+
+    /**
+     * The settings that turn off all rules but the given ones.
+     */
+    function only(settings: LintSettings): LintSettings {
+        return Object.assign({ duplicateKey: 'ignore', duplicateTable: 'ignore', dottedTableRedefinition: 'ignore' }, settings);
+    }
+
+    function sort(text: string, sortSettings: SortSettings): string {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let range = { start: document.positionAt(0), end: document.positionAt(text.length) };
+        return TextDocument.applyEdits(document, sortKeys(document, parse(text), range, 'document', sortSettings));
+    }
+
+    let unsortedKeys: LintSettings = { unsortedKeys: 'warning', sortedTables: ['', 'package'] };
+
+    test("Unsorted keys", () => {
+        assert.deepEqual(lint('b = 1\na = 2\n[package]\nx = 1\ny.b = 2\ny.a = 3\n', unsortedKeys), [
+            '1: Key "a" is not sorted, it belongs before "b"',
+            '5: Key "y.a" is not sorted, it belongs before "y.b"'
+        ]);
+    });
+
+    test("Unsorted keys ignore case unless the sort is case sensitive", () => {
+        let text = 'a = 1\nB = 2\nc = 3\n';
+        assert.deepEqual(lint(text, unsortedKeys), []);
+        assert.deepEqual(lint(text, unsortedKeys, { caseSensitive: true }), ['1: Key "B" is not sorted, it belongs before "a"']);
+    });
+
+    test("Unsorted keys put the pinned keys first", () => {
+        let text = '[package]\nname = "a"\nversion = "1"\nauthors = []\n';
+        let sortSettings: SortSettings = { pinnedKeys: { package: ['name', 'version'] } };
+        assert.deepEqual(lint(text, unsortedKeys, sortSettings), []);
+        assert.deepEqual(lint(text, unsortedKeys), ['3: Key "authors" is not sorted, it belongs before "version"']);
+    });
+
+    test("Sorted documents pass the rule", () => {
+        let text = 'B = 1\nc = 1\na = 1\n[package]\nz = 1\nversion = "1"\nname = "a"\n';
+        [{}, { caseSensitive: true }, { pinnedKeys: { package: ['name', 'version'] } }].forEach((sortSettings: SortSettings) => {
+            let sorted = sort(text, sortSettings);
+            assert.deepEqual(lint(sorted, unsortedKeys, sortSettings), [], sorted);
+        });
+    });
+
+    test("Duplicate keys", () => {
+        assert.deepEqual(lint('a = 1\nb = 2\na = 3\nt = { x = 1, x = 2 }\n', {}), [
+            '2: Duplicate key "a"',
+            '3: Duplicate key "x"'
+        ]);
+        assert.deepEqual(lint('a = 1\na = 3\n', { duplicateKey: 'ignore' }), []);
+    });
+
+    test("Duplicate tables", () => {
+        assert.deepEqual(lint('[a]\nx = 1\n[b]\n[a]\ny = 2\n', {}), ['3: Table "a" is already defined']);
+        // the elements of an array of tables are no duplicates
+        assert.deepEqual(lint('[[a]]\n[[a]]\n', {}), []);
+        assert.deepEqual(lint('[a]\n[a]\n', { duplicateTable: 'ignore' }), []);
+    });
+
+    test("Tables redefined after dotted keys", () => {
+        let text = '[fruit]\napple.color = "red"\n\n[fruit.apple]\n';
+        assert.deepEqual(lint(text, {}), ['3: Table "fruit.apple" is already defined by dotted keys']);
+        assert.deepEqual(lint(text, { dottedTableRedefinition: 'ignore' }), []);
+    });
+
+    test("Mixed-type arrays", () => {
+        let text = [
+            'a = [1, 2]',
+            'b = [1, "2", 3.0]',
+            'c = [[1], ["a"]]',
+            'd = ["a", \'b\', """c"""]',
+            'e = [1979-05-27, 07:32:00]',
+            'f = [{ x = 1 }, [1]]',
+            ''
+        ].join('\n');
+        assert.deepEqual(lint(text, only({ mixedTypeArray: 'warning' })), [
+            '1: Array items of different types (integer and string) are only allowed since TOML 1.0',
+            '4: Array items of different types (localDate and localTime) are only allowed since TOML 1.0',
+            '5: Array items of different types (table and array) are only allowed since TOML 1.0'
+        ]);
+        assert.deepEqual(lint(text, {}), []);
+    });
+
+    test("Empty tables", () => {
+        // a table with subtables is not empty, neither is an element of an array of tables
+        let text = '[a]\n[a.b]\nx = 1\n[c]\n# only a comment\n[[d]]\n';
+        assert.deepEqual(lint(text, only({ emptyTable: 'warning' })), ['3: Table "c" is empty']);
+        assert.deepEqual(lint(text, {}), []);
+    });
+
+    test("Unnecessary quotes", () => {
+        let text = '"a" = 1\n\'b\'.c = 2\n"d e" = 3\n["f"."g.h"]\n';
+        assert.deepEqual(lint(text, only({ unnecessaryQuotes: 'hint' })), [
+            '0: Key "a" does not need quotes',
+            '1: Key "b" does not need quotes',
+            '3: Key "f" does not need quotes'
+        ]);
+    });
+
+    test("Key naming", () => {
+        // quoted keys are not checked
+        let text = 'first_key = 1\nsecond-key = 2\nplain = 3\n"quoted-key" = 4\nmixed_key-name = 5\n';
+        assert.deepEqual(lint(text, only({ keyNaming: 'warning' })), [
+            '1: Key "second-key" is not written in snake_case',
+            '4: Key "mixed_key-name" is not written in snake_case'
+        ]);
+        assert.deepEqual(lint(text, only({ keyNaming: 'warning', keyNamingStyle: 'snake_case' })), [
+            '1: Key "second-key" is not written in snake_case',
+            '4: Key "mixed_key-name" is not written in snake_case'
+        ]);
+        assert.deepEqual(lint(text, only({ keyNaming: 'warning', keyNamingStyle: 'kebab-case' })), [
+            '0: Key "first_key" is not written in kebab-case',
+            '4: Key "mixed_key-name" is not written in kebab-case'
+        ]);
+        // with the consistent style the first key with a separator decides
+        assert.deepEqual(lint('a-b = 1\nc_d = 2\n', only({ keyNaming: 'warning' })), ['1: Key "c_d" is not written in kebab-case']);
+    });
+
+    test("Severities", () => {
+        let text = '"a" = 1\n';
+        let severities: { [severity: string]: DiagnosticSeverity } = {
+            error: DiagnosticSeverity.Error,
+            warning: DiagnosticSeverity.Warning,
+            info: DiagnosticSeverity.Information,
+            hint: DiagnosticSeverity.Hint
+        };
+        Object.keys(severities).forEach(severity => {
+            let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+            let diagnostics = doLint(document, parse(text), only({ unnecessaryQuotes: <LintSeverity>severity }));
+            assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.source]), [[severities[severity], 'unnecessaryQuotes', 'TOML Lint']]);
+        });
+        assert.deepEqual(lint(text, only({ unnecessaryQuotes: 'ignore' })), []);
+        // by default only what TOML 1.0 does not allow is reported
+        assert.deepEqual(Object.keys(defaultLintSettings).filter(rule => defaultLintSettings[rule] === 'error'), ['duplicateKey', 'duplicateTable', 'dottedTableRedefinition']);
+    });
+
+    test("toml-lint-disable comments", () => {
+        let settings = only({ unnecessaryQuotes: 'warning', keyNaming: 'warning', keyNamingStyle: 'snake_case' });
+        let text = [
+            '"a" = 1 # toml-lint-disable unnecessaryQuotes',
+            '"b" = 2 # toml-lint-disable keyNaming',
+            '# toml-lint-disable',
+            '"c".d-e = 3',
+            '"f" = 4',
+            '# toml-lint-disable keyNaming, unnecessaryQuotes',
+            '"g".h-i = 5',
+            'j-k = 6',
+            ''
+        ].join('\n');
+        // a comment after an entry disables the rules on its line, a comment of its own on the next line
+        assert.deepEqual(lint(text, settings), [
+            '1: Key "b" does not need quotes',
+            '4: Key "f" does not need quotes',
+            '7: Key "j-k" is not written in snake_case'
+        ]);
+        assert.deepEqual(lint('a = 1\na = 2 # toml-lint-disable duplicateKey\n', {}), []);
+        assert.deepEqual(lint('a = 1\na = 2 # toml-lint-disable emptyTable\n', {}), ['1: Duplicate key "a"']);
+    });
+});
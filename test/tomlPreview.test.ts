@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { getJSONPreview, JSONPreview, PreviewNode } from '../server/services/tomlPreview';
+
+suite("TOML JSON Preview", () => {
+
+    function preview(text: string): JSONPreview {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        return getJSONPreview(document, parse(text));
+    }
+
+    function formatRange(range: Range): string {
+        return `${range.start.line}:${range.start.character}-${range.end.line}:${range.end.character}`;
+    }
+
+    /**
+     * Returns the nodes as lines of key, type, value and range, indented by their depth.
+     */
+    function getLines(text: string): string[] {
+        let result: string[] = [];
+        let collect = (node: PreviewNode, indent: string) => {
+            let parts = [node.key === void 0 ? '(root)' : String(node.key), node.type];
+            if (node.value !== void 0) {
+                parts.push(node.value);
+            }
+            result.push(indent + parts.concat(formatRange(node.range)).join(' '));
+            (node.children || []).forEach(child => collect(child, indent + '  '));
+        };
+        collect(preview(text).root, '');
+        return result;
+    }
+
+    test("Values", () => {
+        assert.deepEqual(getLines([
+            's = "a\\tb"',
+            'i = 0x10',
+            'f = 1e3',
+            'b = true',
+            'd = 1979-05-27',
+            ''
+        ].join('\n')), [
+            '(root) object 0:0-5:0',
+            '  s string "a\\tb" 0:0-0:10',
+            '  i number 16 1:0-1:8',
+            // floats stay floats and dates are kept as their text
+            '  f number 1000.0 2:0-2:7',
+            '  b boolean true 3:0-3:8',
+            '  d string "1979-05-27" 4:0-4:14'
+        ]);
+    });
+
+    test("Tables, arrays and arrays of tables", () => {
+        // a property starts at its key, the last segment of a dotted key or header
+        assert.deepEqual(getLines([
+            'a.b = [1, { c = 2 }]',
+            '[t]',
+            'x = 1',
+            '[[e]]',
+            '[[e]]',
+            'y = 2'
+        ].join('\n')), [
+            '(root) object 0:0-5:5',
+            '  a object 0:0-0:20',
+            '    b array 0:2-0:20',
+            '      0 number 1 0:7-0:8',
+            '      1 object 0:10-0:19',
+            '        c number 2 0:12-0:17',
+            '  t object 1:1-2:5',
+            '    x number 1 2:0-2:5',
+            '  e array 3:2-5:5',
+            '    0 object 3:0-3:5',
+            '    1 object 4:0-5:5',
+            '      y number 2 5:0-5:5'
+        ]);
+    });
+
+    test("Broken documents show their valid entries and the errors", () => {
+        let result = preview('a = 1\nb = \nc = 3\n');
+        assert.deepEqual(result.root.children.map(child => child.key), ['a', 'c']);
+        assert.deepEqual(result.errors.map(error => formatRange(error.range)), ['1:4-1:4']);
+        assert.deepEqual(preview('a = 1\n').errors, []);
+    });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range, TextEdit } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { getRefactorings } from '../server/services/tomlRefactorings';
+
+suite("TOML Refactorings", () => {
+
+    function getTitles(text: string, marker: string): string[] {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let position = document.positionAt(text.indexOf(marker));
+        return getRefactorings(document, parse(text), Range.create(position, position)).map(action => action.title);
+    }
+
+    /**
+     * Applies the refactoring with the title at the marker and checks that the result describes
+     * the same data as the original text.
+     */
+    function refactor(text: string, marker: string, title: string): string {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let position = document.positionAt(text.indexOf(marker));
+        let original = parse(text);
+        let action = getRefactorings(document, original, Range.create(position, position)).filter(action => action.title === title)[0];
+        assert.ok(action, `"${title}" is not offered, only ${getTitles(text, marker).join(', ')}`);
+        let result = TextDocument.applyEdits(document, <TextEdit[]>action.edit.changes[document.uri]);
+        let refactored = parse(result);
+        assert.deepEqual(refactored.errors.map(error => error.message), [], result);
+        assert.deepStrictEqual(refactored.json, original.json, result);
+        return result;
+    }
+
+    let manifest = [
+        '[package]',
+        'name = "example"',
+        '',
+        '[dependencies]',
+        'log = "0.4"',
+        '',
+        '[dependencies.serde] # serialization',
+        'version = "1"',
+        '# only what we use',
+        'features = ["derive"]',
+        '',
+        '[dev-dependencies]',
+        'tempfile = "3"',
+        ''
+    ].join('\n');
+
+    test("Table header to inline table", () => {
+        assert.equal(refactor(manifest, 'serde]', 'Convert "dependencies.serde" to an inline table'), [
+            '[package]',
+            'name = "example"',
+            '',
+            '[dependencies]',
+            'log = "0.4"',
+            '# serialization',
+            '# only what we use',
+            'serde = { version = "1", features = ["derive"] }',
+            '',
+            '[dev-dependencies]',
+            'tempfile = "3"',
+            ''
+        ].join('\n'));
+    });
+
+    test("Table header to dotted keys", () => {
+        assert.equal(refactor(manifest, 'serde]', 'Convert "dependencies.serde" to dotted keys'), [
+            '[package]',
+            'name = "example"',
+            '',
+            '[dependencies]',
+            'log = "0.4"',
+            '# serialization',
+            'serde.version = "1"',
+            '# only what we use',
+            'serde.features = ["derive"]',
+            '',
+            '[dev-dependencies]',
+            'tempfile = "3"',
+            ''
+        ].join('\n'));
+    });
+
+    test("Inline table to table header", () => {
+        let text = '[dependencies]\nserde = { version = "1", features = ["derive"] } # serialization\nlog = "0.4"\n\n[dev-dependencies]\ntempfile = "3"\n';
+        assert.equal(refactor(text, 'serde', 'Convert "serde" to a table header'), [
+            '[dependencies]',
+            'log = "0.4"',
+            '',
+            '[dependencies.serde] # serialization',
+            'version = "1"',
+            'features = ["derive"]',
+            '',
+            '[dev-dependencies]',
+            'tempfile = "3"',
+            ''
+        ].join('\n'));
+    });
+
+    test("Inline table to dotted keys", () => {
+        let text = '[dependencies]\n  serde = { version = "1", features = ["derive"] }\n  log = "0.4"\n';
+        assert.equal(refactor(text, 'serde', 'Convert "serde" to dotted keys'), '[dependencies]\n  serde.version = "1"\n  serde.features = ["derive"]\n  log = "0.4"\n');
+    });
+
+    test("Dotted keys to inline table and table header", () => {
+        let text = 'name = "x"\nserde.version = "1" # pinned\nlog = "0.4"\nserde.features = ["derive"]\n\n[other]\nx = 1\n';
+        assert.equal(refactor(text, 'serde.features', 'Convert "serde" to an inline table'), 'name = "x"\n# pinned\nserde = { version = "1", features = ["derive"] }\nlog = "0.4"\n\n[other]\nx = 1\n');
+        assert.equal(refactor(text, 'serde.version', 'Convert "serde" to a table header'), 'name = "x"\nlog = "0.4"\n\n[serde]\nversion = "1" # pinned\nfeatures = ["derive"]\n\n[other]\nx = 1\n');
+    });
+
+    test("Array of inline tables to array of tables and back", () => {
+        let text = 'name = "x"\nbin = [\n    # the main binary\n    { name = "a", path = "src/a.rs" },\n    { name = "b" },\n]\n\n[other]\nx = 1\n';
+        let tables = refactor(text, 'bin', 'Convert "bin" to an array of tables');
+        assert.equal(tables, 'name = "x"\n\n# the main binary\n[[bin]]\nname = "a"\npath = "src/a.rs"\n\n[[bin]]\nname = "b"\n\n[other]\nx = 1\n');
+        assert.equal(refactor(tables, '[[bin]]', 'Convert "bin" to an array of inline tables'), 'name = "x"\nbin = [\n    # the main binary\n    { name = "a", path = "src/a.rs" },\n    { name = "b" },\n]\n\n[other]\nx = 1\n');
+    });
+
+    test("Nested tables and arrays of tables", () => {
+        let text = '[[bin]]\nname = "a"\n[bin.env]\nA = "1"\n\n[[bin]]\nname = "b"\n[bin.env]\nB = "2"\n';
+        refactor(text, 'bin.env]\nB', 'Convert "bin.env" to an inline table');
+        refactor(text, 'bin.env]\nA', 'Convert "bin.env" to dotted keys');
+        refactor('a.b.c = 1\na.b.d = { e = [1, 2] }\n', 'a.b.d', 'Convert "a" to a table header');
+        refactor('[a.b.c]\nx = 1\n', 'a.b.c', 'Convert "a.b.c" to an inline table');
+        refactor('x = { "quoted key" = 1, \'literal\' = { y = 2 } }\n', 'x', 'Convert "x" to a table header');
+    });
+
+    test("Keeps the line breaks of the document", () => {
+        let text = '[t]\r\na = 1\r\n[t.u]\r\nb = 2\r\n';
+        assert.equal(refactor(text, 't.u', 'Convert "t.u" to dotted keys'), '[t]\r\na = 1\r\nu.b = 2\r\n');
+    });
+
+    test("No conversions that change the data", () => {
+        // the sub-tables can't be part of an inline table
+        assert.deepEqual(getTitles('[a]\nx = 1\n[a.b]\ny = 2\n', '[a]'), ['Convert "a" to dotted keys']);
+        assert.deepEqual(getTitles('[[a]]\nx = 1\n[a.b]\ny = 2\n', '[[a]]'), []);
+        // an empty table has no dotted keys
+        assert.deepEqual(getTitles('x = {}\n', 'x'), ['Convert "x" to a table header']);
+        // broken documents are not rewritten
+        assert.deepEqual(getTitles('x = { a = 1 }\nx = 2\n', 'x'), []);
+    });
+});
@@ -0,0 +1,210 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Location } from 'vscode-languageserver';
+import URI from '../server/utils/uri';
+import { parse } from '../server/parser/tomlParser';
+import { findDefinition, findReferences } from '../server/services/tomlReferences';
+import { Manifest, isCargoManifest, findWorkspaceRoot, findWorkspaceMembers, findWorkspaceDefinition, findWorkspaceReferences } from '../server/cargoWorkspace';
+
+const workspaceRoot = path.join(__dirname, '..', '..', 'test', 'cargo-workspace');
+
+suite("TOML References", () => {
+
+    /**
+     * The path of a manifest relative to the fixture workspace.
+     */
+    function getName(uri: string): string {
+        return path.relative(workspaceRoot, URI.parse(uri).fsPath).replace(/\\/g, '/');
+    }
+
+    /**
+     * Formats a location as line:character, with the manifest in front when there is no document.
+     */
+    function format(location: Location, document?: TextDocument): string {
+        let start = location.range.start;
+        return `${document ? '' : getName(location.uri) + ':'}${start.line}:${start.character}`;
+    }
+
+    /**
+     * Returns the definition and the references of the key at the first occurrence of the marker,
+     * as line:character.
+     */
+    function find(text: string, marker: string, includeDeclaration = true): { definition: string, references: string[] } {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let tomlDocument = parse(text);
+        let position = document.positionAt(text.indexOf(marker));
+        let definition = findDefinition(document, position, tomlDocument);
+        return {
+            definition: definition && format(definition, document),
+            references: findReferences(document, position, tomlDocument, includeDeclaration).map(location => format(location, document))
+        };
+    }
+
+    function getManifestUri(member: string): string {
+        return URI.file(path.join(workspaceRoot, member, 'Cargo.toml')).toString();
+    }
+
+    let loaded: string[];
+
+    /**
+     * Loads the manifests from the fixture workspace on disk and records their names.
+     */
+    function load(uri: string): Thenable<Manifest> {
+        return new Promise<Manifest>(c => {
+            fs.readFile(URI.parse(uri).fsPath, 'utf8', (err, text) => {
+                if (err) {
+                    c(void 0);
+                    return;
+                }
+                loaded.push(getName(uri));
+                c({ document: TextDocument.create(uri, 'toml', 0, text), tomlDocument: parse(text) });
+            });
+        });
+    }
+
+    function getOffset(manifest: Manifest, marker: string): number {
+        let offset = manifest.document.getText().indexOf(marker);
+        assert.notEqual(offset, -1, marker);
+        return offset;
+    }
+
+    setup(() => {
+        loaded = [];
+    });
+
+    test("Tables are defined by their first header, dotted key or inline table", () => {
+        let text = [
+            'a.b = 1',
+            '[a.c]',
+            'd = { e = 1 }',
+            '[a.c.f]',
+            'g = 2',
+            '[a.d.e.h]',
+            ''
+        ].join('\n');
+        assert.deepEqual(find(text, 'a.c]'), { definition: '0:0', references: ['0:0', '1:1', '3:1', '5:1'] });
+        assert.deepEqual(find(text, 'c.f'), { definition: '1:3', references: ['1:3', '3:3'] });
+        assert.deepEqual(find(text, 'e = 1'), { definition: '2:6', references: ['2:6'] });
+        assert.deepEqual(find(text, 'd.e'), { definition: '5:3', references: ['5:3'] });
+        assert.deepEqual(find(text, 'g ='), { definition: '4:0', references: ['4:0'] });
+        assert.deepEqual(find(text, 'a.c]', false).references, ['1:1', '3:1', '5:1']);
+    });
+
+    test("Keys of different tables are told apart", () => {
+        let text = '[x]\nname = 1\n[y]\nname = 2\n[x.z]\n';
+        assert.deepEqual(find(text, 'name = 2'), { definition: '3:0', references: ['3:0'] });
+        assert.deepEqual(find(text, 'x.z'), { definition: '0:1', references: ['0:1', '4:1'] });
+    });
+
+    test("Arrays of tables", () => {
+        // each element is a table of its own, the array is named by all headers
+        let text = '[[bin]]\nname = "a"\n[[bin]]\nname = "b"\n';
+        assert.deepEqual(find(text, 'bin]]\nname = "b"'), { definition: '0:2', references: ['0:2', '2:2'] });
+        assert.deepEqual(find(text, 'name = "b"'), { definition: '3:0', references: ['3:0'] });
+    });
+
+    test("Positions outside of keys", () => {
+        let text = 'a = 1\n# a\n';
+        assert.deepEqual(find(text, '1'), { definition: undefined, references: [] });
+        assert.deepEqual(find(text, '# a'), { definition: undefined, references: [] });
+        // a duplicate key has no path
+        assert.deepEqual(find('a = 1\na = 2\n', 'a = 2'), { definition: undefined, references: [] });
+    });
+
+    test("Cargo manifests", () => {
+        assert.ok(isCargoManifest(getManifestUri('crates/app')));
+        assert.ok(!isCargoManifest(URI.file(path.join(workspaceRoot, 'Cargo.lock')).toString()));
+        assert.ok(!isCargoManifest('test://pyproject.toml'));
+    });
+
+    test("The workspace root is found in the parent directories or by package.workspace", () => {
+        return Promise.all([
+            load(getManifestUri('crates/app')).then(manifest => findWorkspaceRoot(manifest, load)),
+            load(getManifestUri('crates/lib')).then(manifest => findWorkspaceRoot(manifest, load)),
+            load(getManifestUri('')).then(manifest => findWorkspaceRoot(manifest, load))
+        ]).then(roots => {
+            assert.deepEqual(roots.map(root => root.document.uri), [getManifestUri(''), getManifestUri(''), getManifestUri('')]);
+            // crates/ has no manifest and the lib manifest names the root directly
+            assert.deepEqual(loaded.sort(), ['Cargo.toml', 'Cargo.toml', 'Cargo.toml', 'crates/app/Cargo.toml', 'crates/lib/Cargo.toml']);
+        });
+    });
+
+    test("Members match the patterns of workspace.members without the excluded ones", () => {
+        return load(getManifestUri('')).then(root => findWorkspaceMembers(root, load)).then(members => {
+            assert.deepEqual(members.map(member => getName(member.document.uri)).sort(), ['Cargo.toml', 'crates/app/Cargo.toml', 'crates/lib/Cargo.toml']);
+        });
+    });
+
+    test("Inherited keys are defined in the workspace manifest", () => {
+        let definition = (member: string, marker: string) => load(getManifestUri(member)).then(manifest => {
+            return findWorkspaceDefinition(manifest, getOffset(manifest, marker), load);
+        }).then(location => location && format(location));
+        return Promise.all([
+            definition('crates/app', 'serde = { workspace'),
+            // on the workspace key itself
+            definition('crates/app', 'workspace = true }\nlog'),
+            definition('crates/app', 'log.workspace'),
+            definition('crates/app', 'version.workspace'),
+            definition('crates/app', 'edition'),
+            definition('crates/app', 'serde = { workspace = true, features'),
+            definition('crates/app', 'lints]'),
+            definition('crates/lib', 'serde.workspace'),
+            // the root is found even for an excluded crate
+            definition('crates/excluded', 'serde'),
+            // keys that are not inherited
+            definition('crates/app', 'lib ='),
+            definition('crates/app', 'name'),
+            definition('crates/lib', 'version')
+        ]).then(definitions => {
+            assert.deepEqual(definitions, [
+                'Cargo.toml:9:0',
+                'Cargo.toml:9:0',
+                'Cargo.toml:10:0',
+                'Cargo.toml:5:0',
+                'Cargo.toml:6:0',
+                'Cargo.toml:9:0',
+                'Cargo.toml:12:11',
+                'Cargo.toml:9:0',
+                'Cargo.toml:9:0',
+                undefined,
+                undefined,
+                undefined
+            ]);
+        });
+    });
+
+    test("Workspace keys are referenced by the members that inherit them", () => {
+        let references = (member: string, marker: string) => load(getManifestUri(member)).then(manifest => {
+            return findWorkspaceReferences(manifest, getOffset(manifest, marker), load);
+        }).then(locations => locations.map(location => format(location)).sort());
+        return Promise.all([
+            references('', 'serde'),
+            references('crates/lib', 'serde'),
+            references('', 'version = "0.1.0"'),
+            references('', 'lints'),
+            // keys outside of the inherited tables
+            references('', 'members'),
+            references('crates/app', 'name')
+        ]).then(results => {
+            let serde = ['Cargo.toml:9:0', 'crates/app/Cargo.toml:11:0', 'crates/app/Cargo.toml:6:0', 'crates/lib/Cargo.toml:6:0'];
+            assert.deepEqual(results, [
+                serde,
+                serde,
+                ['Cargo.toml:5:0', 'crates/app/Cargo.toml:2:0'],
+                ['Cargo.toml:12:11', 'crates/app/Cargo.toml:13:1'],
+                [],
+                []
+            ]);
+        });
+    });
+
+    test("The definition comes first", () => {
+        return load(getManifestUri('crates/app')).then(manifest => {
+            return findWorkspaceReferences(manifest, getOffset(manifest, 'log.workspace'), load);
+        }).then(locations => {
+            assert.deepEqual(locations.map(location => format(location)), ['Cargo.toml:10:0', 'crates/app/Cargo.toml:7:0']);
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ResponseError, TextEdit } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { prepareRename, doRename } from '../server/services/tomlRename';
+
+suite("TOML Rename", () => {
+
+    /**
+     * Renames the key at the first occurrence of the marker and checks that the result
+     * describes the same data with the key renamed.
+     */
+    function rename(text: string, marker: string, newName: string): string {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let position = document.positionAt(text.indexOf(marker));
+        let result = doRename(document, position, newName, parse(text));
+        if (result instanceof ResponseError) {
+            throw result;
+        }
+        let renamed = TextDocument.applyEdits(document, <TextEdit[]>result.changes[document.uri]);
+        assert.deepEqual(parse(renamed).errors.map(error => error.message), [], renamed);
+        return renamed;
+    }
+
+    function getError(text: string, marker: string, newName: string): string {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let position = document.positionAt(text.indexOf(marker));
+        let result = doRename(document, position, newName, parse(text));
+        assert.ok(result instanceof ResponseError, JSON.stringify(result));
+        return (<ResponseError<void>>result).message;
+    }
+
+    let manifest = [
+        '[dependencies]',
+        'serde = "1"',
+        '',
+        '[dependencies.log]',
+        'version = "0.4"',
+        '',
+        '[target.x86.dependencies]',
+        'libc = "0.2"',
+        ''
+    ].join('\n');
+
+    test("Table headers", () => {
+        assert.equal(rename(manifest, 'dependencies]', 'deps'), [
+            '[deps]',
+            'serde = "1"',
+            '',
+            '[deps.log]',
+            'version = "0.4"',
+            '',
+            '[target.x86.dependencies]',
+            'libc = "0.2"',
+            ''
+        ].join('\n'));
+    });
+
+    test("Dotted keys and inline tables", () => {
+        let text = [
+            'server.host = "localhost"',
+            'server.port = 80',
+            'clients = { server = { host = "example.org" } }',
+            '',
+            '[server.tls]',
+            'enabled = true',
+            ''
+        ].join('\n');
+        assert.equal(rename(text, 'server.port', 'backend'), [
+            'backend.host = "localhost"',
+            'backend.port = 80',
+            'clients = { server = { host = "example.org" } }',
+            '',
+            '[backend.tls]',
+            'enabled = true',
+            ''
+        ].join('\n'));
+        assert.equal(rename(text, 'host = "example.org"', 'hostname'), [
+            'server.host = "localhost"',
+            'server.port = 80',
+            'clients = { server = { hostname = "example.org" } }',
+            '',
+            '[server.tls]',
+            'enabled = true',
+            ''
+        ].join('\n'));
+    });
+
+    test("Arrays of tables", () => {
+        let text = [
+            '[[bin]]',
+            'name = "a"',
+            '',
+            '[bin.metadata]',
+            'x = 1',
+            '',
+            '[[bin]]',
+            'name = "b"',
+            ''
+        ].join('\n');
+        assert.equal(rename(text, 'bin]]', 'binary'), [
+            '[[binary]]',
+            'name = "a"',
+            '',
+            '[binary.metadata]',
+            'x = 1',
+            '',
+            '[[binary]]',
+            'name = "b"',
+            ''
+        ].join('\n'));
+        // a key in one element of the array is renamed in that element only
+        assert.equal(rename(text, 'name = "a"', 'title'), [
+            '[[bin]]',
+            'title = "a"',
+            '',
+            '[bin.metadata]',
+            'x = 1',
+            '',
+            '[[bin]]',
+            'name = "b"',
+            ''
+        ].join('\n'));
+    });
+
+    test("Quoted keys", () => {
+        assert.equal(rename('"a b" = 1\n', 'a b', 'c'), 'c = 1\n');
+        assert.equal(rename('a = 1\n', 'a', 'c d'), '"c d" = 1\n');
+        assert.equal(rename("'a b'.c = 1\n", 'a b', 'd e'), "'d e'.c = 1\n");
+        assert.equal(rename('a = 1\n', 'a', '"x.y"'), '"x.y" = 1\n');
+    });
+
+    test("Names that exist in the same table are refused", () => {
+        assert.equal(getError('a = 1\nb = 2\n', 'a', 'b'), 'The key "b" already exists in this table.');
+        assert.equal(getError('[t]\nx = 1\n[t.y]\n', 'x', 'y'), 'The key "y" already exists in this table.');
+        assert.equal(getError('t = { a = 1, b = 2 }\n', 'a', '"b"'), 'The key "b" already exists in this table.');
+        assert.equal(getError('[a]\n[b]\n', 'a', 'b'), 'The key "b" already exists in this table.');
+        // the same name in another table is no collision
+        assert.equal(rename('[t]\nx = 1\n[u]\ny = 2\n', 'x', 'y'), '[t]\ny = 1\n[u]\ny = 2\n');
+    });
+
+    test("Only keys of valid documents", () => {
+        assert.equal(getError('a = 1\n', '1', 'b'), 'Only keys can be renamed.');
+        assert.equal(getError('a = 1\nb = \n', 'a', 'c'), 'Keys can not be renamed in a document with errors.');
+        let text = 'a.b = 1\n';
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        assert.deepEqual(prepareRename(document, document.positionAt(2), parse(text)), { range: { start: { line: 0, character: 2 }, end: { line: 0, character: 3 } }, placeholder: 'b' });
+    });
+});
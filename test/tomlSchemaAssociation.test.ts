@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { MarkupContent } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { findSchemaAssociation, SchemaAssociation } from '../server/services/tomlSchemaAssociation';
+import { defaultLintSettings } from '../server/services/tomlLint';
+import { getTomlLanguageService, workspaceContext } from '../server/tomlLanguageService';
+
+suite("TOML Schema Association", () => {
+
+    function find(text: string): SchemaAssociation {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        return findSchemaAssociation(document, parse(text));
+    }
+
+    /**
+     * Returns the text of the association, to check its offset and length.
+     */
+    function findText(text: string): string {
+        let association = find(text);
+        return association && text.substr(association.offset, association.length);
+    }
+
+    /**
+     * Each schema describes its key `x` with the name of its file, `missing.json` can not be
+     * loaded.
+     */
+    let languageService = getTomlLanguageService({
+        schemaRequestService: uri => {
+            let name = path.posix.basename(uri);
+            return name === 'missing.json' ? Promise.reject('Not found') : Promise.resolve(JSON.stringify({ properties: { x: { description: name } } }));
+        },
+        workspaceContext
+    }, uri => /project\.toml$/.test(uri) ? 'file:///project/project.json' : void 0);
+    languageService.configure({ validate: true, schemas: [{ uri: 'file:///project/matched.json', fileMatch: ['*.toml'] }] });
+
+    function getSchemaName(text: string, fileName = 'test.toml'): Thenable<string> {
+        let document = TextDocument.create('file:///project/' + fileName, 'toml', 0, text);
+        let position = document.positionAt(text.indexOf('x ='));
+        return languageService.doHover(document, position, languageService.parseTOMLDocument(document)).then(hover => {
+            return hover && (<MarkupContent>hover.contents).value;
+        });
+    }
+
+    test("#:schema directives", () => {
+        assert.deepEqual(find('#:schema https://example.com/schema.json\nx = 1\n'), { reference: 'https://example.com/schema.json', offset: 9, length: 31 });
+        assert.equal(findText('#:schema   ./schema.json trailing words\n'), './schema.json');
+        // only in a comment on the first line and with the exact prefix
+        assert.equal(find('\n#:schema ./schema.json\n'), undefined);
+        assert.equal(find('# :schema ./schema.json\n'), undefined);
+        assert.equal(find('#:schema\n'), undefined);
+    });
+
+    test("$schema keys", () => {
+        assert.equal(findText('"$schema" = "https://example.com/schema.json"\n'), 'https://example.com/schema.json');
+        assert.equal(findText('\'$schema\' = \'./schema.json\'\n'), './schema.json');
+        assert.equal(findText('x = 1\n"$schema" = """./schema.json"""\n'), '"""./schema.json"""');
+        // only a non-empty string at the top level
+        assert.equal(find('"$schema" = ""\n'), undefined);
+        assert.equal(find('"$schema" = 1\n'), undefined);
+        assert.equal(find('[table]\n"$schema" = "./schema.json"\n'), undefined);
+    });
+
+    test("The directive takes precedence over the key", () => {
+        assert.equal(find('#:schema ./a.json\n"$schema" = "./b.json"\n').reference, './a.json');
+    });
+
+    test("The document's own schema replaces the associated ones", () => {
+        return Promise.all([
+            getSchemaName('x = 1\n'),
+            getSchemaName('#:schema ./own.json\nx = 1\n'),
+            getSchemaName('#:schema ../schemas/own.json\nx = 1\n', 'sub/test.toml'),
+            getSchemaName('"$schema" = "file:///elsewhere/absolute.json"\nx = 1\n'),
+            getSchemaName('x = 1\n', 'project.toml'),
+            getSchemaName('#:schema ./own.json\nx = 1\n', 'project.toml')
+        ]).then(names => {
+            assert.deepEqual(names, ['matched.json', 'own.json', 'own.json', 'absolute.json', 'project.json', 'own.json']);
+        });
+    });
+
+    test("Schemas that can not be loaded are reported at the reference", () => {
+        let text = '#:schema ./missing.json\nx = 1\n';
+        let document = TextDocument.create('file:///project/test.toml', 'toml', 0, text);
+        return languageService.doValidation(document, languageService.parseTOMLDocument(document), defaultLintSettings, '1.0').then(diagnostics => {
+            assert.equal(diagnostics.length, 1);
+            assert.deepEqual(diagnostics[0].range, { start: { line: 0, character: 9 }, end: { line: 0, character: 23 } });
+        });
+    });
+
+    test("Document links", () => {
+        let text = 'x = 1\n"$schema" = "../schema.json"\n';
+        let document = TextDocument.create('file:///project/sub/test.toml', 'toml', 0, text);
+        let tomlDocument = languageService.parseTOMLDocument(document);
+        assert.deepEqual(languageService.findDocumentLinks(document, tomlDocument).map(link => ({ range: link.range, target: link.target })), [
+            { range: { start: { line: 1, character: 13 }, end: { line: 1, character: 27 } }, target: 'file:///project/schema.json' }
+        ]);
+        let plain = TextDocument.create('file:///project/test.toml', 'toml', 0, 'x = 1\n');
+        assert.deepEqual(languageService.findDocumentLinks(plain, languageService.parseTOMLDocument(plain)), []);
+    });
+});
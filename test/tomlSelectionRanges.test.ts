@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SelectionRange } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { getSelectionRanges } from '../server/services/tomlSelectionRanges';
+
+suite("TOML Selection Ranges", () => {
+
+    /**
+     * Returns the texts of the selection ranges at the `|`, from the innermost to the outermost.
+     */
+    function select(text: string): string[] {
+        let offset = text.indexOf('|');
+        text = text.substring(0, offset) + text.substring(offset + 1);
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let result: string[] = [];
+        for (let range: SelectionRange = getSelectionRanges(document, [document.positionAt(offset)], parse(text))[0]; range; range = range.parent) {
+            result.push(text.substring(document.offsetAt(range.range.start), document.offsetAt(range.range.end)));
+        }
+        return result;
+    }
+
+    let text = [
+        'title = "TOML"',
+        '',
+        '[server.main]',
+        'ports = [80, 443]',
+        'tls = { cert = "a.pem" }',
+        '',
+        '[[bin]]',
+        '"my key" = 1',
+        ''
+    ].join('\n');
+
+    function at(marker: string): string {
+        let offset = text.indexOf(marker);
+        return text.substring(0, offset) + '|' + text.substring(offset);
+    }
+
+    test("Top-level keys and values", () => {
+        assert.deepEqual(select(at('itle')), ['title', 'title = "TOML"', text]);
+        assert.deepEqual(select(at('OML')), ['TOML', '"TOML"', 'title = "TOML"', text]);
+    });
+
+    test("Table headers and tables", () => {
+        let table = '[server.main]\nports = [80, 443]\ntls = { cert = "a.pem" }';
+        assert.deepEqual(select(at('main]')), ['main', 'server.main', '[server.main]', table, text]);
+    });
+
+    test("Arrays and inline tables", () => {
+        let table = '[server.main]\nports = [80, 443]\ntls = { cert = "a.pem" }';
+        assert.deepEqual(select(at('443')), ['443', '[80, 443]', 'ports = [80, 443]', table, text]);
+        assert.deepEqual(select(at('ert')), ['cert', 'cert = "a.pem"', '{ cert = "a.pem" }', 'tls = { cert = "a.pem" }', table, text]);
+    });
+
+    test("Quoted keys and arrays of tables", () => {
+        assert.deepEqual(select(at('y key')), ['my key', '"my key"', '"my key" = 1', '[[bin]]\n"my key" = 1', text]);
+        assert.deepEqual(select(at('bin')), ['bin', '[[bin]]', '[[bin]]\n"my key" = 1', text]);
+    });
+
+    test("Multi-line strings", () => {
+        assert.deepEqual(select('a = """|\nline"""\n'), ['\nline', '"""\nline"""', 'a = """\nline"""', 'a = """\nline"""\n']);
+    });
+
+    test("Positions between nodes", () => {
+        assert.deepEqual(select('a = 1\n|\nb = 2\n'), ['a = 1\n\nb = 2\n']);
+        assert.deepEqual(select('|'), ['']);
+    });
+
+    test("One range per position", () => {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let ranges = getSelectionRanges(document, [{ line: 0, character: 1 }, { line: 3, character: 1 }], parse(text));
+        assert.deepEqual(ranges.map(range => range.range), [
+            { start: { line: 0, character: 0 }, end: { line: 0, character: 5 } },
+            { start: { line: 3, character: 0 }, end: { line: 3, character: 5 } }
+        ]);
+    });
+});
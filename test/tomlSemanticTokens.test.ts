@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SemanticTokensEdit } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { getSemanticTokens, getSemanticTokensEdits, semanticTokensLegend } from '../server/services/tomlSemanticTokens';
+
+suite("TOML Semantic Tokens", () => {
+
+    function getData(text: string): number[] {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        return getSemanticTokens(document, parse(text)).data;
+    }
+
+    /**
+     * Decodes the tokens into their text, type and modifiers.
+     */
+    function getTokens(text: string): string[] {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let data = getData(text);
+        let result: string[] = [];
+        let line = 0;
+        let character = 0;
+        for (let i = 0; i < data.length; i += 5) {
+            line += data[i];
+            character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+            let offset = document.offsetAt({ line, character });
+            let modifiers = semanticTokensLegend.tokenModifiers.filter((modifier, index) => data[i + 4] & 1 << index);
+            result.push([text.substr(offset, data[i + 2]), semanticTokensLegend.tokenTypes[data[i + 3]], ...modifiers].join(' '));
+        }
+        return result;
+    }
+
+    function applyEdits(data: number[], edits: SemanticTokensEdit[]): number[] {
+        let result = data.slice();
+        edits.slice().reverse().forEach(edit => result.splice(edit.start, edit.deleteCount, ...(edit.data || [])));
+        return result;
+    }
+
+    test("Tables and keys", () => {
+        assert.deepEqual(getTokens('[a."b"]\nc.\'d\' = 1\n[[e]]\n'), [
+            'a namespace',
+            '"b" namespace quoted',
+            'c property',
+            '\'d\' property quoted literal',
+            '1 number',
+            'e namespace arrayOfTables'
+        ]);
+    });
+
+    test("Strings", () => {
+        assert.deepEqual(getTokens('a = "x"\nb = \'y\'\nc = """z"""\nd = \'\'\'w\'\'\'\n'), [
+            'a property',
+            '"x" string',
+            'b property',
+            '\'y\' string literal',
+            'c property',
+            '"""z""" string multiline',
+            'd property',
+            '\'\'\'w\'\'\' string literal multiline'
+        ]);
+    });
+
+    test("Multi-line strings are split at the line breaks", () => {
+        assert.deepEqual(getTokens('a = """\nfirst\r\n\nsecond"""\n'), [
+            'a property',
+            '""" string multiline',
+            'first string multiline',
+            'second""" string multiline'
+        ]);
+    });
+
+    test("Numbers, booleans and dates", () => {
+        assert.deepEqual(getTokens([
+            'a = [1, 0x1F, 0o7, 0b1, 1.5, inf, -nan, true]',
+            'b = [1979-05-27T07:32:00Z, 1979-05-27T07:32:00, 1979-05-27, 07:32:00]',
+            ''
+        ].join('\n')), [
+            'a property',
+            '1 number',
+            '0x1F number hexadecimal',
+            '0o7 number octal',
+            '0b1 number binary',
+            '1.5 number float',
+            'inf number float nonFinite',
+            '-nan number float nonFinite',
+            'true boolean',
+            'b property',
+            '1979-05-27T07:32:00Z dateTime offset date time',
+            '1979-05-27T07:32:00 dateTime date time',
+            '1979-05-27 dateTime date',
+            '07:32:00 dateTime time'
+        ]);
+    });
+
+    test("Inline tables and the order of the document", () => {
+        assert.deepEqual(getTokens('x = 1\n[t]\ny = { z = false }\n'), [
+            'x property',
+            '1 number',
+            't namespace',
+            'y property',
+            'z property',
+            'false boolean'
+        ]);
+    });
+
+    test("Broken documents", () => {
+        // the entries after an error are still colored
+        assert.deepEqual(getTokens('a = \nb = 2\n'), ['b property', '2 number']);
+    });
+
+    test("Delta edits", () => {
+        let texts = [
+            'a = 1\nb = 2\n',
+            'a = 1\nb = 2\nc = 3\n',
+            'a = 1\nc = 3\n',
+            '[t]\na = 1\nc = 3\n',
+            '[t]\na = 1\nc = 3\n',
+            // repeated lines, the unchanged start and end overlap
+            'a = 1\na = 1\na = 1\n',
+            'a = 1\na = 1\n',
+            ''
+        ];
+        for (let i = 1; i < texts.length; i++) {
+            let previous = getData(texts[i - 1]);
+            let data = getData(texts[i]);
+            let edits = getSemanticTokensEdits(previous, data);
+            assert.deepEqual(applyEdits(previous, edits), data, texts[i]);
+            assert.ok(edits.length <= 1);
+        }
+        assert.deepEqual(getSemanticTokensEdits([0, 0, 1, 1, 0], [0, 0, 1, 1, 0]), []);
+        assert.deepEqual(getSemanticTokensEdits([0, 0, 1, 1, 0, 1, 0, 1, 1, 0], [0, 0, 1, 1, 0]), [{ start: 5, deleteCount: 5, data: [] }]);
+    });
+});
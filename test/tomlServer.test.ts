@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    createProtocolConnection, ProtocolConnection, StreamMessageReader, StreamMessageWriter,
+    InitializeRequest, InitializedNotification, ClientCapabilities, ConfigurationRequest, DidOpenTextDocumentNotification,
+    PublishDiagnosticsNotification, PublishDiagnosticsParams, DocumentFormattingRequest, ShutdownRequest, ExitNotification,
+    DidChangeWatchedFilesNotification, FileChangeType, CompletionRequest, CompletionList, DidChangeTextDocumentNotification,
+    SemanticTokensRequest, SemanticTokensDeltaRequest, SemanticTokens, SemanticTokensDelta
+} from 'vscode-languageserver/node';
+import URI from '../server/utils/uri';
+
+const serverModule = path.join(__dirname, '..', 'server', 'tomlServerMain.js');
+
+suite("Language Server over stdio", function () {
+
+    this.timeout(20000);
+
+    let server: cp.ChildProcess;
+    let connection: ProtocolConnection;
+    let diagnostics: { [uri: string]: (params: PublishDiagnosticsParams) => void };
+
+    // Starts the server like an editor other than VS Code would, `configuration` answers the
+    // `workspace/configuration` requests of the server.
+    function start(initializationOptions: any, configuration?: (section: string) => any): Thenable<void> {
+        server = cp.spawn(process.execPath, [serverModule, '--stdio']);
+        connection = createProtocolConnection(new StreamMessageReader(server.stdout), new StreamMessageWriter(server.stdin));
+        diagnostics = {};
+        connection.onNotification(PublishDiagnosticsNotification.type, params => {
+            if (diagnostics[params.uri]) {
+                diagnostics[params.uri](params);
+            }
+        });
+        let configured: Promise<void> = Promise.resolve();
+        if (configuration) {
+            configured = new Promise<void>(c => {
+                connection.onRequest(ConfigurationRequest.type, params => {
+                    setImmediate(c);
+                    return params.items.map(item => configuration(item.section));
+                });
+            });
+        }
+        connection.listen();
+        let capabilities: ClientCapabilities = { workspace: { configuration: !!configuration } };
+        return connection.sendRequest(InitializeRequest.type, { processId: process.pid, rootUri: null, capabilities, initializationOptions, workspaceFolders: null }).then(() => {
+            connection.sendNotification(InitializedNotification.type, {});
+            return configured;
+        });
+    }
+
+    // Opens the document and waits for the diagnostics that satisfy the predicate.
+    function open(uri: string, text: string, predicate: (params: PublishDiagnosticsParams) => boolean = () => true): Promise<PublishDiagnosticsParams> {
+        let result = new Promise<PublishDiagnosticsParams>(c => {
+            diagnostics[uri] = params => {
+                if (predicate(params)) {
+                    delete diagnostics[uri];
+                    c(params);
+                }
+            };
+        });
+        connection.sendNotification(DidOpenTextDocumentNotification.type, { textDocument: { uri, languageId: 'toml', version: 1, text } });
+        return result;
+    }
+
+    teardown(() => {
+        return connection.sendRequest(ShutdownRequest.type).then(() => {
+            connection.sendNotification(ExitNotification.type);
+            connection.dispose();
+            return new Promise<void>(c => server.exitCode !== null ? c() : server.on('exit', () => c()));
+        });
+    });
+
+    test("reports parse errors", () => {
+        return start(undefined).then(() => open('file:///broken.toml', 'a = \nb = 1\n', params => params.diagnostics.length > 0)).then(params => {
+            assert.deepEqual(params.diagnostics.map(diagnostic => [diagnostic.range.start.line, diagnostic.source]), [[0, 'Toml Parser']]);
+        });
+    });
+
+    test("formats documents", () => {
+        return start(undefined).then(() => {
+            connection.sendNotification(DidOpenTextDocumentNotification.type, { textDocument: { uri: 'file:///format.toml', languageId: 'toml', version: 1, text: 'a=1\n' } });
+            return connection.sendRequest(DocumentFormattingRequest.type, { textDocument: { uri: 'file:///format.toml' }, options: { tabSize: 4, insertSpaces: true } });
+        }).then(edits => {
+            assert.deepEqual(edits.map(edit => edit.newText).join(''), ' = ');
+        });
+    });
+
+    test("takes the settings from the initialization options", () => {
+        return start({ settings: { toml: { specVersion: '0.4' } } }).then(() => open('file:///dotted.toml', 'a.b = 1\n')).then(params => {
+            assert.equal(params.diagnostics.length, 1);
+            assert.ok(params.diagnostics[0].message.indexOf('0.4') !== -1, params.diagnostics[0].message);
+        });
+    });
+
+    test("asks the client for its settings", () => {
+        let sections: string[] = [];
+        let configuration = (section: string) => {
+            sections.push(section);
+            return section === 'toml' ? { specVersion: '0.4' } : null;
+        };
+        return start({ settings: { toml: { specVersion: '1.0' } } }, configuration).then(() => open('file:///dotted.toml', 'a.b = 1\n')).then(params => {
+            assert.deepEqual(sections, ['toml', 'http']);
+            assert.equal(params.diagnostics.length, 1);
+        });
+    });
+
+    test("falls back to the initialization options for the sections the client doesn't know", () => {
+        return start({ settings: { toml: { specVersion: '0.4' } } }, () => null).then(() => open('file:///dotted.toml', 'a.b = 1\n')).then(params => {
+            assert.equal(params.diagnostics.length, 1);
+        });
+    });
+
+    test("applies the project configuration files and reloads them when they change", () => {
+        let directory = fs.mkdtempSync(path.join(os.tmpdir(), 'toml-server-'));
+        let configFile = path.join(directory, '.toml-tools.toml');
+        let uri = URI.file(path.join(directory, 'a.toml')).toString();
+        fs.writeFileSync(configFile, '[lint]\nduplicateKey = "ignore"\n');
+        return start(undefined).then(() => open(uri, 'a = 1\na = 2\n')).then(params => {
+            assert.deepEqual(params.diagnostics, []);
+            fs.writeFileSync(configFile, '[lint]\nduplicateKey = "warning"\n');
+            let result = new Promise<PublishDiagnosticsParams>(c => diagnostics[uri] = c);
+            connection.sendNotification(DidChangeWatchedFilesNotification.type, { changes: [{ uri: URI.file(configFile).toString(), type: FileChangeType.Changed }] });
+            return result;
+        }).then(params => {
+            assert.deepEqual(params.diagnostics.map(diagnostic => [diagnostic.message, diagnostic.severity]), [['Duplicate key "a"', 2]]);
+            fs.unlinkSync(configFile);
+            fs.rmdirSync(directory);
+        });
+    });
+
+    test("completes the project configuration file from its schema", () => {
+        let uri = URI.file(path.join(os.tmpdir(), '.toml-tools.toml')).toString();
+        return start(undefined).then(() => {
+            connection.sendNotification(DidOpenTextDocumentNotification.type, { textDocument: { uri, languageId: 'toml', version: 1, text: '[lint]\n' } });
+            return connection.sendRequest(CompletionRequest.type, { textDocument: { uri }, position: { line: 1, character: 0 } });
+        }).then(completions => {
+            let labels = (<CompletionList>completions).items.map(item => item.label);
+            assert.ok(labels.indexOf('duplicateKey') !== -1, labels.join(', '));
+        });
+    });
+
+    test("answers semantic token requests with the edits since the previous result", () => {
+        let uri = 'file:///tokens.toml';
+        let textDocument = { uri };
+        let full: SemanticTokens;
+        return start(undefined).then(() => {
+            connection.sendNotification(DidOpenTextDocumentNotification.type, { textDocument: { uri, languageId: 'toml', version: 1, text: 'a = 1\n' } });
+            return connection.sendRequest(SemanticTokensRequest.type, { textDocument });
+        }).then(tokens => {
+            full = tokens;
+            assert.deepEqual(full.data, [0, 0, 1, 1, 0, 0, 4, 1, 3, 0]);
+            connection.sendNotification(DidChangeTextDocumentNotification.type, { textDocument: { uri, version: 2 }, contentChanges: [{ text: 'a = 1\nb = true\n' }] });
+            return connection.sendRequest(SemanticTokensDeltaRequest.type, { textDocument, previousResultId: full.resultId });
+        }).then(delta => {
+            assert.deepEqual((<SemanticTokensDelta>delta).edits, [{ start: 10, deleteCount: 0, data: [1, 0, 1, 1, 0, 0, 4, 4, 4, 0] }]);
+            // an unknown previous result gets all tokens
+            return connection.sendRequest(SemanticTokensDeltaRequest.type, { textDocument, previousResultId: full.resultId });
+        }).then(tokens => {
+            assert.equal((<SemanticTokens>tokens).data.length, 20);
+        });
+    });
+});
@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range } from 'vscode-languageserver';
+import { parse } from '../server/parser/tomlParser';
+import { sortKeys, getSortActions, SortScope, SortSettings } from '../server/services/tomlSort';
+
+suite("TOML Sort", () => {
+
+    /**
+     * Sorts the keys of the scope, the range goes from the first occurrence of the marker to the
+     * end of the line of the end marker.
+     */
+    function sort(text: string, scope: SortScope, settings: SortSettings = {}, marker?: string, endMarker?: string): string {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let start = marker ? text.indexOf(marker) : 0;
+        let end = endMarker ? text.indexOf(endMarker) + endMarker.length : start;
+        let range = Range.create(document.positionAt(start), document.positionAt(end));
+        let sorted = TextDocument.applyEdits(document, sortKeys(document, parse(text), range, scope, settings));
+        assert.deepEqual(parse(sorted).errors.map(error => error.message), [], sorted);
+        return sorted;
+    }
+
+    let text = [
+        'b = 1',
+        'a = 2',
+        '',
+        '[package]',
+        'version = "1"',
+        'name = "a"',
+        'authors = []',
+        '',
+        '[dependencies]',
+        'serde = "1"',
+        'log = "0.4"',
+        ''
+    ].join('\n');
+
+    test("Table scope", () => {
+        assert.equal(sort(text, 'table', {}, 'name'), [
+            'b = 1',
+            'a = 2',
+            '',
+            '[package]',
+            'authors = []',
+            'name = "a"',
+            'version = "1"',
+            '',
+            '[dependencies]',
+            'serde = "1"',
+            'log = "0.4"',
+            ''
+        ].join('\n'));
+        // the header belongs to its table, a position before the first table to the top-level keys
+        assert.equal(sort(text, 'table', {}, '[dependencies]'), text.replace('serde = "1"\nlog = "0.4"', 'log = "0.4"\nserde = "1"'));
+        assert.equal(sort(text, 'table', {}, 'b = 1'), text.replace('b = 1\na = 2', 'a = 2\nb = 1'));
+    });
+
+    test("Selection scope", () => {
+        assert.equal(sort(text, 'selection', {}, 'name', 'authors'), text.replace('name = "a"\nauthors = []', 'authors = []\nname = "a"'));
+        // a selection across tables sorts the keys of each table on its own
+        assert.equal(sort(text, 'selection', {}, 'a = 2', 'version'), text);
+        assert.equal(sort(text, 'selection', {}, 'b = 1', 'name'), text.replace('b = 1\na = 2', 'a = 2\nb = 1').replace('version = "1"\nname = "a"', 'name = "a"\nversion = "1"'));
+    });
+
+    test("Document scope", () => {
+        assert.equal(sort(text, 'document'), [
+            'a = 2',
+            'b = 1',
+            '',
+            '[package]',
+            'authors = []',
+            'name = "a"',
+            'version = "1"',
+            '',
+            '[dependencies]',
+            'log = "0.4"',
+            'serde = "1"',
+            ''
+        ].join('\n'));
+    });
+
+    test("Case sensitive sort", () => {
+        let mixed = 'b = 1\nC = 2\na = 3\n';
+        assert.equal(sort(mixed, 'document'), 'a = 3\nb = 1\nC = 2\n');
+        assert.equal(sort(mixed, 'document', { caseSensitive: true }), 'C = 2\na = 3\nb = 1\n');
+    });
+
+    test("Pinned keys", () => {
+        let settings: SortSettings = { pinnedKeys: { package: ['name', 'version'], '': ['title'] } };
+        assert.equal(sort('b = 1\ntitle = "t"\na = 2\n[package]\nauthors = []\nversion = "1"\nname = "a"\n', 'document', settings),
+            'title = "t"\na = 2\nb = 1\n[package]\nname = "a"\nversion = "1"\nauthors = []\n');
+        // dotted keys are pinned by their first segment
+        assert.equal(sort('[package]\nb = 1\nname.last = "b"\nname.first = "a"\n', 'document', settings),
+            '[package]\nname.first = "a"\nname.last = "b"\nb = 1\n');
+    });
+
+    test("Groups of keys keep their sizes", () => {
+        assert.equal(sort('d = 1\nc = 2\n\nb = 3\na = 4\n', 'document'), 'a = 4\nb = 3\n\nc = 2\nd = 1\n');
+    });
+
+    test("Comments move with their entries", () => {
+        assert.equal(sort([
+            '# the document',
+            '',
+            '# about b',
+            'b = 1 # after b',
+            '# about a',
+            '# more about a',
+            'a = 2',
+            ''
+        ].join('\n'), 'document'), [
+            '# the document',
+            '',
+            '# about a',
+            '# more about a',
+            'a = 2',
+            '# about b',
+            'b = 1 # after b',
+            ''
+        ].join('\n'));
+    });
+
+    test("Tables are only sorted with the tables setting", () => {
+        let tables = [
+            '[z]',
+            'x = 1',
+            '',
+            '# about a',
+            '[a]',
+            'y = 1',
+            ''
+        ].join('\n');
+        assert.equal(sort(tables, 'document'), tables);
+        assert.equal(sort(tables, 'document', { tables: true }), [
+            '# about a',
+            '[a]',
+            'y = 1',
+            '',
+            '[z]',
+            'x = 1',
+            ''
+        ].join('\n'));
+        // only the whole document sorts the tables
+        assert.equal(sort(tables, 'table', { tables: true }, 'x'), tables);
+    });
+
+    test("Subtables move with their tables", () => {
+        assert.equal(sort([
+            '[b]',
+            '[b.y]',
+            '[b.x]',
+            '[a]',
+            '[a.z]',
+            ''
+        ].join('\n'), 'document', { tables: true }), [
+            '[a]',
+            '[a.z]',
+            '[b]',
+            '[b.x]',
+            '[b.y]',
+            ''
+        ].join('\n'));
+    });
+
+    test("Arrays of tables keep their order", () => {
+        assert.equal(sort([
+            '[[bin]]',
+            'name = "second"',
+            '[bin.options]',
+            'b = 1',
+            '[[bin]]',
+            'name = "first"',
+            '[[bench]]',
+            'name = "bench"',
+            ''
+        ].join('\n'), 'document', { tables: true }), [
+            '[[bench]]',
+            'name = "bench"',
+            '[[bin]]',
+            'name = "second"',
+            '[bin.options]',
+            'b = 1',
+            '[[bin]]',
+            'name = "first"',
+            ''
+        ].join('\n'));
+    });
+
+    test("Documents with errors are not sorted", () => {
+        let broken = 'b = 1\na = \n';
+        let document = TextDocument.create('test://test.toml', 'toml', 0, broken);
+        let range = Range.create(0, 0, 2, 0);
+        (<SortScope[]>['table', 'selection', 'document']).forEach(scope => {
+            assert.deepEqual(sortKeys(document, parse(broken), range, scope, { tables: true }), []);
+        });
+        assert.deepEqual(getSortActions(document, parse(broken), range, {}), []);
+    });
+
+    test("Code actions", () => {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let tomlDocument = parse(text);
+        let position = document.positionAt(text.indexOf('name'));
+        let titles = (range: Range) => getSortActions(document, tomlDocument, range, {}).map(action => action.title);
+        assert.deepEqual(titles(Range.create(position, position)), ['Sort the keys of "package"', 'Sort all keys of the document']);
+        assert.deepEqual(titles(Range.create(position, { line: position.line + 2, character: 0 })), ['Sort the selected keys', 'Sort the keys of "package"', 'Sort all keys of the document']);
+        assert.deepEqual(titles(Range.create(0, 0, 0, 0)), ['Sort the top-level keys', 'Sort all keys of the document']);
+        // sorted documents get no actions
+        let sorted = sort(text, 'document');
+        let sortedDocument = TextDocument.create('test://test.toml', 'toml', 0, sorted);
+        assert.deepEqual(getSortActions(sortedDocument, parse(sorted), Range.create(0, 0, 0, 0), {}), []);
+    });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { JSONSchema } from 'vscode-json-languageservice';
+import { defaultLintSettings } from '../server/services/tomlLint';
+import { getTomlLanguageService, workspaceContext } from '../server/tomlLanguageService';
+
+suite("TOML Schema Validation", () => {
+
+    let schema: JSONSchema = {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            server: {
+                type: 'object',
+                required: ['host'],
+                additionalProperties: false,
+                properties: {
+                    host: { type: 'string' },
+                    port: { type: 'integer' },
+                    mode: { enum: ['http', 'https'] }
+                }
+            },
+            bin: {
+                type: 'array',
+                items: { $ref: '#/properties/server' }
+            }
+        }
+    };
+
+    let languageService = getTomlLanguageService({ schemaRequestService: uri => Promise.reject(uri), workspaceContext });
+    languageService.configure({ validate: true, schemas: [{ uri: 'test://schema.json', fileMatch: ['*.toml'], schema }] });
+
+    /**
+     * Validates the text and returns the source text each schema diagnostic is placed on, or its
+     * range, with its message.
+     */
+    function validate(text: string, ranges = false): Thenable<string[]> {
+        let document = TextDocument.create('test://test.toml', 'toml', 0, text);
+        let tomlDocument = languageService.parseTOMLDocument(document);
+        return languageService.doValidation(document, tomlDocument, defaultLintSettings, '1.0').then(diagnostics => {
+            return diagnostics.map(diagnostic => {
+                let { start, end } = diagnostic.range;
+                let location = ranges ? `${start.line}:${start.character}-${end.line}:${end.character}` : document.getText(diagnostic.range);
+                return location + ': ' + diagnostic.message;
+            });
+        });
+    }
+
+    test("Wrong types", () => {
+        return Promise.all([
+            validate('name = 1\n\n[server]\nhost = "a"\nport = "80"\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['1: Incorrect type. Expected "string".', '"80": Incorrect type. Expected "integer".']);
+            }),
+            validate('server.host = "a"\nserver.port = 1.5\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['1.5: Incorrect type. Expected "integer".']);
+            }),
+            validate('server = { host = true }\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['true: Incorrect type. Expected "string".']);
+            }),
+            validate('[[bin]]\nhost = "a"\n\n[[bin]]\nhost = "b"\nport = false\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['false: Incorrect type. Expected "integer".']);
+            })
+        ]);
+    });
+
+    test("Missing required keys", () => {
+        return Promise.all([
+            validate('[server]\nport = 80\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['server: Missing property "host".']);
+            }),
+            validate('name = "a"\nserver.port = 80\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['server: Missing property "host".']);
+            }),
+            validate('server = { port = 80 }\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['server: Missing property "host".']);
+            }),
+            validate('[[bin]]\nhost = "a"\n\n[[bin]]\nport = 80\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['[[bin]]: Missing property "host".']);
+            }),
+            // on the header of the element that misses the key
+            validate('[[bin]]\nhost = "a"\n\n[[bin]]\nport = 80\n', true).then(diagnostics => {
+                assert.deepEqual(diagnostics, ['3:0-3:7: Missing property "host".']);
+            })
+        ]);
+    });
+
+    test("Additional properties", () => {
+        return Promise.all([
+            validate('[server]\nhost = "a"\nhots = "b"\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['hots: Property hots is not allowed.']);
+            }),
+            validate('server.host = "a"\nserver.tls.enabled = true\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['tls: Property tls is not allowed.']);
+            }),
+            validate('server = { host = "a", user = "b" }\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['user: Property user is not allowed.']);
+            }),
+            validate('[[bin]]\nhost = "a"\n\n[[bin]]\nhost = "b"\n\n[bin.extra]\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['extra: Property extra is not allowed.']);
+            })
+        ]);
+    });
+
+    test("Values that are not in the enum", () => {
+        let message = 'Value is not accepted. Valid values: "http", "https".';
+        return Promise.all([
+            validate('[server]\nhost = "a"\nmode = "ftp"\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['"ftp": ' + message]);
+            }),
+            validate('server.host = "a"\nserver.mode = \'ftp\'\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['\'ftp\': ' + message]);
+            }),
+            validate('server = { host = "a", mode = "ftp" }\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['"ftp": ' + message]);
+            }),
+            validate('[[bin]]\nhost = "a"\nmode = """ftp"""\n').then(diagnostics => {
+                assert.deepEqual(diagnostics, ['"""ftp""": ' + message]);
+            })
+        ]);
+    });
+});